@@ -8,6 +8,7 @@ import { useAuth } from "@/hooks/useAuth";
 import LoginPage from "@/pages/login";
 import Dashboard from "@/pages/dashboard";
 import HistoryPage from "@/pages/history";
+import InsightsPage from "@/pages/insights";
 import Subscribe from "@/pages/subscribe";
 import NotFound from "@/pages/not-found";
 import { useLocation } from "wouter";
@@ -71,6 +72,7 @@ function Router() {
       <Route path="/app" component={LoginPage} />
       <Route path="/dashboard" component={() => <ProtectedRoute component={Dashboard} />} />
       <Route path="/history" component={() => <ProtectedRoute component={HistoryPage} />} />
+      <Route path="/insights" component={() => <ProtectedRoute component={InsightsPage} />} />
       <Route path="/subscribe" component={() => <ProtectedRoute component={Subscribe} />} />
       <Route component={NotFound} />
     </Switch>
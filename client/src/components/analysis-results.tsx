@@ -2,54 +2,71 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { SentimentCircle } from "@/components/sentiment-circle"
-import type { AnalysisResult } from "@shared/schema"
+import { SentimentTimeline } from "@/components/sentiment-timeline"
+import { AudienceComparison } from "@/components/audience-comparison"
+import { EmotionRadar } from "@/components/emotion-radar"
+import { AspectSentiments } from "@/components/aspect-sentiments"
+import { BrandMentions } from "@/components/brand-mentions"
+import { TimedTranscript } from "@/components/timed-transcript"
+import { Copy, Loader2, XCircle } from "lucide-react"
+import { LANGUAGE_NAMES, type AnalysisResult, type BatchUrlStage, type Language } from "@shared/schema"
+import { sentimentScoresSchema, toPercent, type SentimentScores } from "@shared/sentiment-scale"
+
+export interface UrlProgress {
+  url: string;
+  index: number;
+  stage?: BatchUrlStage;
+  reason?: string;
+  settled?: boolean; // A result row (successful or failed) has been stored for this URL
+}
 
 interface AnalysisResultsProps {
   results: AnalysisResult[];
+  progress?: UrlProgress[];
+}
+
+const stageLabels: Record<BatchUrlStage, string> = {
+  transcript_fetched: "Scoring sentiment...",
+  sentiment_scored: "Extracting phrases...",
+  phrases_extracted: "Done",
+  failed: "Failed",
+  duplicate: "Skipped duplicate",
 }
 
-export function AnalysisResults({ results }: AnalysisResultsProps) {
-  const getSentimentPercentages = (result: AnalysisResult) => {
+// Shown when the score is not based on the spoken transcript alone
+const sourceLabels: Record<string, string> = {
+  caption: "Based on caption & hashtags (no speech)",
+  combined: "Based on transcript + caption",
+}
+
+export function AnalysisResults({ results, progress = [] }: AnalysisResultsProps) {
+  // URLs still moving through the pipeline, or that failed without a stored row
+  const pending = progress.filter(item => !item.settled)
+
+  // Probabilities in 0–1, as every sentiment backend reports them
+  const getSentimentScores = (result: AnalysisResult): SentimentScores => {
     // Try to use stored sentiment scores if available
     if (result.sentimentScores) {
       try {
-        const scores = JSON.parse(result.sentimentScores);
-        return {
-          positive: Math.round(scores.positive || 0),
-          neutral: Math.round(scores.neutral || 0),
-          negative: Math.round(scores.negative || 0)
-        };
+        return sentimentScoresSchema.parse(JSON.parse(result.sentimentScores));
       } catch (e) {
         console.warn('Failed to parse sentiment scores:', e);
       }
     }
-    
-    // Fallback to confidence-based calculation
-    const confidence = result.confidence;
-    
-    switch (result.sentiment.toUpperCase()) {
-      case 'POSITIVE':
-        return { 
-          positive: Math.max(60, confidence), 
-          neutral: Math.max(10, (100 - confidence) / 2), 
-          negative: Math.max(5, (100 - confidence) / 2) 
-        }
-      case 'NEGATIVE':
-        return { 
-          positive: Math.max(5, (100 - confidence) / 2), 
-          neutral: Math.max(10, (100 - confidence) / 2), 
-          negative: Math.max(60, confidence) 
-        }
-      default: // NEUTRAL
-        return { 
-          positive: Math.max(5, (100 - confidence) / 3), 
-          neutral: Math.max(60, confidence), 
-          negative: Math.max(5, (100 - confidence) / 3) 
-        }
+
+    // Fallback: the chosen label gets its confidence, the rest is split evenly over the basic labels
+    const sentiment = result.sentiment.toUpperCase();
+    const isMixed = sentiment === 'MIXED';
+    const rest = (1 - result.confidence) / (isMixed ? 3 : 2);
+    return {
+      positive: sentiment === 'POSITIVE' ? result.confidence : rest,
+      neutral: sentiment === 'NEUTRAL' ? result.confidence : rest,
+      negative: sentiment === 'NEGATIVE' ? result.confidence : rest,
+      mixed: isMixed ? result.confidence : 0,
     }
   }
 
-  if (results.length === 0) {
+  if (results.length === 0 && pending.length === 0) {
     return (
       <div className="text-center py-12">
         <p className="text-neutral-500">No analysis results yet. Add some URLs and click analyze to get started!</p>
@@ -60,7 +77,7 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
       {results.map((result, index) => {
-        const percentages = getSentimentPercentages(result)
+        const scores = getSentimentScores(result)
         
         return (
           <Card
@@ -70,34 +87,94 @@ export function AnalysisResults({ results }: AnalysisResultsProps) {
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-neutral-800">{index + 1}. URL</CardTitle>
               <p className="text-xs text-neutral-600 truncate">url: {result.url.substring(0, 20)}...</p>
+              {result.source && result.source !== 'transcript' && (
+                <p className="text-xs text-neutral-500">
+                  {sourceLabels[result.source] ?? result.source}
+                </p>
+              )}
+              {result.sentimentProvider && (
+                <p className="text-xs text-neutral-400" title={result.sentimentModel || undefined}>
+                  Scored via {result.sentimentProvider}
+                  {result.language && ` in ${LANGUAGE_NAMES[result.language as Language] ?? result.language}`}
+                </p>
+              )}
             </CardHeader>
+            {result.status !== 'ok' ? (
+              <CardContent className="flex flex-col items-center justify-center gap-2 py-8">
+                <XCircle className="w-6 h-6 text-[#FF5757]" />
+                <span className="text-xs text-neutral-600 text-center">
+                  {result.errorMessage || "Error processing video"}
+                </span>
+              </CardContent>
+            ) : (
             <CardContent className="space-y-4">
               <SentimentCircle 
-                positive={percentages.positive} 
-                neutral={percentages.neutral} 
-                negative={percentages.negative} 
+                positive={scores.positive} 
+                neutral={scores.neutral} 
+                negative={scores.negative} 
+                mixed={scores.mixed} 
               />
               <div className="space-y-2">
                 <h4 className="text-sm font-medium text-neutral-800">Scores:</h4>
                 <div className="space-y-1">
                   <div className="flex items-center gap-2">
                     <span className="w-3 h-3 rounded-full bg-[#4CAF50]"></span>
-                    <span className="text-xs text-neutral-600">Positive: {Math.round(percentages.positive)}%</span>
+                    <span className="text-xs text-neutral-600">Positive: {toPercent(scores.positive)}%</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="w-3 h-3 rounded-full bg-[#FFB260]"></span>
-                    <span className="text-xs text-neutral-600">Neutral: {Math.round(percentages.neutral)}%</span>
+                    <span className="text-xs text-neutral-600">Neutral: {toPercent(scores.neutral)}%</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="w-3 h-3 rounded-full bg-[#FF5757]"></span>
-                    <span className="text-xs text-neutral-600">Negative: {Math.round(percentages.negative)}%</span>
+                    <span className="text-xs text-neutral-600">Negative: {toPercent(scores.negative)}%</span>
                   </div>
+                  {scores.mixed > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full bg-[#A855F7]"></span>
+                      <span className="text-xs text-neutral-600">Mixed: {toPercent(scores.mixed)}%</span>
+                    </div>
+                  )}
                 </div>
               </div>
+              <EmotionRadar emotions={result.emotions} height={160} />
+              <AspectSentiments aspectSentiments={result.aspectSentiments} />
+              <BrandMentions brandMentions={result.brandMentions} />
+              <AudienceComparison creatorScores={scores} audienceSentiment={result.audienceSentiment} />
+              <SentimentTimeline timeline={result.sentimentTimeline} />
+              <TimedTranscript segments={result.transcriptSegments} />
             </CardContent>
+            )}
           </Card>
         )
       })}
+      {pending.map((item) => (
+        <Card key={`pending-${item.index}`} className="bg-neutral-100 border-neutral-200 border-dashed">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-neutral-800">{item.index + 1}. URL</CardTitle>
+            <p className="text-xs text-neutral-600 truncate">url: {item.url.substring(0, 20)}...</p>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center justify-center gap-2 py-8">
+            {item.stage === 'failed' || item.stage === 'duplicate' ? (
+              <>
+                {item.stage === 'failed'
+                  ? <XCircle className="w-6 h-6 text-[#FF5757]" />
+                  : <Copy className="w-6 h-6 text-neutral-400" />}
+                <span className="text-xs text-neutral-600 text-center">
+                  {stageLabels[item.stage]}{item.reason ? `: ${item.reason}` : ''}
+                </span>
+              </>
+            ) : (
+              <>
+                <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+                <span className="text-xs text-neutral-600">
+                  {item.stage ? stageLabels[item.stage] : "Fetching transcript..."}
+                </span>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      ))}
     </div>
   )
 }
\ No newline at end of file
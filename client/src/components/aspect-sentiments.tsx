@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import type { AspectSentiment, BatchAspectSummary } from "@shared/schema";
+
+const getPolarityColor = (polarity: number) => {
+  if (polarity > 0.1) return 'text-green-600';
+  if (polarity < -0.1) return 'text-red-600';
+  return 'text-orange-600';
+};
+
+const formatPolarity = (polarity: number) => `${polarity > 0 ? '+' : ''}${polarity.toFixed(2)}`;
+
+interface AspectSentimentsProps {
+  aspectSentiments: string | null; // JSON array as stored on the result row
+}
+
+/**
+ * What a single video said about each aspect
+ */
+export function AspectSentiments({ aspectSentiments }: AspectSentimentsProps) {
+  const aspects = useMemo<AspectSentiment[]>(() => {
+    try {
+      const parsed = JSON.parse(aspectSentiments || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }, [aspectSentiments]);
+
+  if (aspects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-neutral-800">Aspects:</h4>
+      <div className="space-y-1">
+        {aspects.map(aspect => (
+          <div key={aspect.aspect} className="text-xs" title={aspect.snippets.join('\n')}>
+            <span className="font-medium text-neutral-800 capitalize">{aspect.aspect}</span>
+            <span className={`ml-2 ${getPolarityColor(aspect.polarity)}`}>
+              {aspect.sentiment.toLowerCase()} ({formatPolarity(aspect.polarity)})
+            </span>
+            <span className="ml-2 text-neutral-400">{aspect.mentions}×</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface AspectSummaryTableProps {
+  summaries: BatchAspectSummary[];
+}
+
+/**
+ * Aspect sentiments rolled up across a batch
+ */
+export function AspectSummaryTable({ summaries }: AspectSummaryTableProps) {
+  if (summaries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-neutral-100 border-neutral-200">
+      <CardContent className="p-6 space-y-2">
+        <h4 className="text-sm font-medium text-neutral-800">Sentiment by aspect:</h4>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-neutral-200 text-left text-neutral-700">
+              <th className="py-2 pr-4 font-medium">Aspect</th>
+              <th className="py-2 pr-4 font-medium">Videos</th>
+              <th className="py-2 pr-4 font-medium">Mentions</th>
+              <th className="py-2 font-medium">Avg. polarity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr key={summary.aspect} className="border-b border-neutral-100">
+                <td className="py-2 pr-4 capitalize text-neutral-800">{summary.aspect}</td>
+                <td className="py-2 pr-4 text-neutral-600">{summary.videoCount}</td>
+                <td className="py-2 pr-4 text-neutral-600">{summary.mentionCount}</td>
+                <td className={`py-2 font-medium ${getPolarityColor(summary.avgPolarity)}`}>
+                  {formatPolarity(summary.avgPolarity)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
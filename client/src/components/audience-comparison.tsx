@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import type { AudienceSentiment } from "@shared/schema";
+import { toPercent, type SentimentScores } from "@shared/sentiment-scale";
+
+interface AudienceComparisonProps {
+  creatorScores: SentimentScores;
+  audienceSentiment: string | null; // JSON as stored on the result row
+}
+
+function ScoreBar({ label, scores }: { label: string; scores: SentimentScores }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-neutral-600">
+        <span className="font-medium text-neutral-800">{label}</span>
+        <span>{toPercent(scores.positive)}% / {toPercent(scores.neutral)}% / {toPercent(scores.negative)}%</span>
+      </div>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-neutral-200">
+        <div className="bg-[#4CAF50]" style={{ width: `${toPercent(scores.positive)}%` }} />
+        <div className="bg-[#FFB260]" style={{ width: `${toPercent(scores.neutral)}%` }} />
+        <div className="bg-[#FF5757]" style={{ width: `${toPercent(scores.negative)}%` }} />
+        <div className="bg-[#A855F7]" style={{ width: `${toPercent(scores.mixed)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export function AudienceComparison({ creatorScores, audienceSentiment }: AudienceComparisonProps) {
+  const audience = useMemo<AudienceSentiment | null>(() => {
+    try {
+      return audienceSentiment ? JSON.parse(audienceSentiment) : null;
+    } catch {
+      return null;
+    }
+  }, [audienceSentiment]);
+
+  if (!audience) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-neutral-800">Creator vs. audience:</h4>
+      <ScoreBar label="Creator" scores={creatorScores} />
+      <ScoreBar label={`Audience (${audience.commentCount} comments)`} scores={audience.scores} />
+      {(audience.positiveComments.length > 0 || audience.negativeComments.length > 0) && (
+        <div className="space-y-1 text-xs">
+          {audience.positiveComments.map((comment, index) => (
+            <p key={`positive-${index}`} className="truncate text-green-700" title={comment}>+ {comment}</p>
+          ))}
+          {audience.negativeComments.map((comment, index) => (
+            <p key={`negative-${index}`} className="truncate text-red-700" title={comment}>− {comment}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
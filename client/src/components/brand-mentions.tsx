@@ -0,0 +1,60 @@
+import { useMemo } from "react";
+import type { BrandMention } from "@shared/schema";
+
+const getPolarityColor = (polarity: number) => {
+  if (polarity > 0.1) return 'text-green-600';
+  if (polarity < -0.1) return 'text-red-600';
+  return 'text-orange-600';
+};
+
+const formatPolarity = (polarity: number) => `${polarity > 0 ? '+' : ''}${polarity.toFixed(2)}`;
+
+interface BrandMentionsProps {
+  brandMentions: string | null; // JSON array as stored on the result row
+}
+
+/**
+ * How one video talked about each watchlist brand, flagging brands it never said
+ */
+export function BrandMentions({ brandMentions }: BrandMentionsProps) {
+  const mentions = useMemo<BrandMention[]>(() => {
+    try {
+      const parsed = JSON.parse(brandMentions || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }, [brandMentions]);
+
+  if (mentions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-neutral-800">Brand mentions:</h4>
+      <div className="space-y-1">
+        {mentions.map(mention => mention.mentioned && mention.polarity !== null ? (
+          <div
+            key={mention.brand}
+            className="text-xs"
+            title={mention.snippets.map(snippet => `${formatPolarity(snippet.polarity)}  ${snippet.text}`).join('\n')}
+          >
+            <span className="font-medium text-neutral-800">{mention.brand}</span>
+            <span className={`ml-2 ${getPolarityColor(mention.polarity)}`}>
+              {mention.sentiment?.toLowerCase()} ({formatPolarity(mention.polarity)})
+            </span>
+            <span className="ml-2 text-neutral-400">{mention.mentionCount}×</span>
+          </div>
+        ) : (
+          <div key={mention.brand} className="text-xs">
+            <span className="font-medium text-neutral-800">{mention.brand}</span>
+            <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded bg-red-100 text-red-700">
+              Not mentioned
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_WATCHLIST_ALIASES, MAX_WATCHLIST_TERMS, type WatchlistTerm, type WatchlistTermRequest } from "@shared/schema";
+
+const parseAliases = (value: string): string[] =>
+  value.split(',').map(alias => alias.trim()).filter(Boolean).slice(0, MAX_WATCHLIST_ALIASES);
+
+const formatAliases = (aliases: string): string => {
+  try {
+    const parsed = JSON.parse(aliases);
+    return Array.isArray(parsed) ? parsed.join(', ') : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * The account's brand watchlist; every analyzed video is checked for these brands
+ */
+export function BrandWatchlist() {
+  const [brand, setBrand] = useState('');
+  const [aliases, setAliases] = useState('');
+  const { toast } = useToast();
+
+  const { data: terms = [] } = useQuery<WatchlistTerm[]>({
+    queryKey: ['/api/watchlist'],
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (term: WatchlistTermRequest) => {
+      const response = await apiRequest("POST", "/api/watchlist", term);
+      return response.json();
+    },
+    onSuccess: () => {
+      setBrand('');
+      setAliases('');
+      queryClient.invalidateQueries({ queryKey: ['/api/watchlist'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not add brand",
+        description: error.message.includes('409') ? "That brand is already on your watchlist." : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/watchlist/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/watchlist'] });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!brand.trim()) return;
+    addMutation.mutate({ brand: brand.trim(), aliases: parseAliases(aliases) });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Brand watchlist</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {terms.length === 0 ? (
+          <p className="text-sm text-neutral-500">Add brands to see how often each video mentions them.</p>
+        ) : (
+          <ul className="space-y-1">
+            {terms.map(term => (
+              <li key={term.id} className="flex items-start justify-between text-sm">
+                <div>
+                  <span className="font-medium text-neutral-800">{term.brand}</span>
+                  {formatAliases(term.aliases) && (
+                    <span className="ml-2 text-xs text-neutral-500">{formatAliases(term.aliases)}</span>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeMutation.mutate(term.id)}
+                  className="text-neutral-400 hover:text-red-600"
+                  aria-label={`Remove ${term.brand}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {terms.length < MAX_WATCHLIST_TERMS && (
+          <div className="space-y-2">
+            <Input
+              value={brand}
+              onChange={(event) => setBrand(event.target.value)}
+              placeholder="Brand, e.g. Stanley"
+              aria-label="Brand to watch"
+            />
+            <Input
+              value={aliases}
+              onChange={(event) => setAliases(event.target.value)}
+              placeholder="Aliases, comma-separated (optional)"
+              aria-label="Brand aliases"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAdd}
+              disabled={!brand.trim() || addMutation.isPending}
+              className="w-full"
+            >
+              Add to watchlist
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useRef } from "react";
+import { EMOTIONS } from "@shared/schema";
+import { dominantEmotion, emotionScoresSchema, toPercent, type EmotionScores } from "@shared/sentiment-scale";
+
+interface EmotionRadarProps {
+  emotions: EmotionScores | string | null; // Object or JSON as stored on the result/batch row
+  title?: string;
+  height?: number;
+}
+
+const emotionLabels: Record<keyof EmotionScores, string> = {
+  joy: 'Joy',
+  anger: 'Anger',
+  sadness: 'Sadness',
+  fear: 'Fear',
+  surprise: 'Surprise',
+  disgust: 'Disgust',
+  trust: 'Trust',
+  anticipation: 'Anticipation',
+};
+
+export function EmotionRadar({ emotions, title = "Emotions:", height = 200 }: EmotionRadarProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const chartRef = useRef<any>(null);
+
+  const scores = useMemo<EmotionScores | null>(() => {
+    try {
+      const parsed = typeof emotions === 'string' ? JSON.parse(emotions) : emotions;
+      return parsed ? emotionScoresSchema.parse(parsed) : null;
+    } catch {
+      return null;
+    }
+  }, [emotions]);
+
+  const dominant = scores ? dominantEmotion(scores) : null;
+
+  useEffect(() => {
+    if (!scores || !dominant || !canvasRef.current) return;
+
+    const loadChart = async () => {
+      // Dynamically import Chart.js to avoid SSR issues
+      const { Chart, registerables } = await import('chart.js');
+      Chart.register(...registerables);
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+
+      if (chartRef.current) {
+        chartRef.current.destroy();
+      }
+
+      chartRef.current = new Chart(ctx, {
+        type: 'radar',
+        data: {
+          labels: EMOTIONS.map(emotion => emotionLabels[emotion]),
+          datasets: [{
+            data: EMOTIONS.map(emotion => toPercent(scores[emotion])),
+            borderColor: '#2563EB',
+            backgroundColor: 'rgba(37, 99, 235, 0.2)',
+            pointBackgroundColor: '#2563EB',
+            pointRadius: 2,
+          }],
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          scales: {
+            r: { min: 0, max: 100, ticks: { display: false, stepSize: 25 } },
+          },
+          plugins: {
+            legend: {
+              display: false,
+            },
+            tooltip: {
+              callbacks: {
+                label: (context) => `${context.parsed.r}%`,
+              }
+            }
+          },
+        },
+      });
+    };
+
+    loadChart();
+
+    return () => {
+      if (chartRef.current) {
+        chartRef.current.destroy();
+        chartRef.current = null;
+      }
+    };
+  }, [scores, dominant]);
+
+  // Nothing to chart when no emotion registered at all
+  if (!scores || !dominant) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between">
+        <h4 className="text-sm font-medium text-neutral-800">{title}</h4>
+        <span className="text-xs text-neutral-600">Mostly {emotionLabels[dominant].toLowerCase()}</span>
+      </div>
+      <div className="relative" style={{ height }}>
+        <canvas ref={canvasRef} className="max-w-full max-h-full" />
+      </div>
+    </div>
+  );
+}
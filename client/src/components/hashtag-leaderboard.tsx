@@ -0,0 +1,97 @@
+import { SENTIMENT_LABELS, type SentimentCounts, type TagLeaderboard, type TagStat } from "@shared/schema";
+
+// Same palette as the audience score bars
+const sentimentColors: Record<keyof SentimentCounts, string> = {
+  POSITIVE: 'bg-[#4CAF50]',
+  NEUTRAL: 'bg-[#FFB260]',
+  NEGATIVE: 'bg-[#FF5757]',
+  MIXED: 'bg-[#A855F7]',
+};
+
+const getPolarityColor = (polarity: number) => {
+  if (polarity > 0.1) return 'text-green-600';
+  if (polarity < -0.1) return 'text-red-600';
+  return 'text-orange-600';
+};
+
+const formatPolarity = (polarity: number) => `${polarity > 0 ? '+' : ''}${polarity.toFixed(2)}`;
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+function TagTable({ stats, prefix }: { stats: TagStat[]; prefix: '#' | '@' }) {
+  // Engagement columns only appear when some video had metadata
+  const hasEngagement = stats.some(stat => stat.avgViews !== null);
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-neutral-200 text-left text-neutral-700">
+          <th className="py-2 pr-4 font-medium">{prefix === '#' ? 'Hashtag' : 'Mention'}</th>
+          <th className="py-2 pr-4 font-medium">Videos</th>
+          <th className="py-2 pr-4 font-medium">Avg. polarity</th>
+          <th className="py-2 pr-4 font-medium">Sentiment</th>
+          {hasEngagement && <th className="py-2 pr-4 font-medium">Avg. views</th>}
+          {hasEngagement && <th className="py-2 font-medium">Engagement</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {stats.map(stat => (
+          <tr key={stat.tag} className="border-b border-neutral-100">
+            <td className="py-2 pr-4 text-neutral-800">{prefix}{stat.tag}</td>
+            <td className="py-2 pr-4 text-neutral-600">{stat.videoCount}</td>
+            <td className={`py-2 pr-4 font-medium ${getPolarityColor(stat.avgPolarity)}`}>
+              {formatPolarity(stat.avgPolarity)}
+            </td>
+            <td className="py-2 pr-4">
+              <div
+                className="flex h-2 w-24 overflow-hidden rounded-full bg-neutral-200"
+                title={SENTIMENT_LABELS.filter(label => stat.sentimentCounts[label] > 0)
+                  .map(label => `${stat.sentimentCounts[label]} ${label.toLowerCase()}`)
+                  .join(', ')}
+              >
+                {SENTIMENT_LABELS.map(label => (
+                  <div key={label} className={sentimentColors[label]} style={{ width: `${(stat.sentimentCounts[label] / stat.videoCount) * 100}%` }} />
+                ))}
+              </div>
+            </td>
+            {hasEngagement && (
+              <td className="py-2 pr-4 text-neutral-600">
+                {stat.avgViews !== null ? compactNumber.format(stat.avgViews) : '—'}
+              </td>
+            )}
+            {hasEngagement && (
+              <td className="py-2 text-neutral-600">
+                {stat.avgEngagementRate !== null ? `${(stat.avgEngagementRate * 100).toFixed(1)}%` : '—'}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface HashtagLeaderboardProps {
+  leaderboard: TagLeaderboard | null | undefined;
+  title?: string;
+  className?: string;
+}
+
+/**
+ * Most used hashtags and @mentions, with how the videos using each were received
+ */
+export function HashtagLeaderboard({ leaderboard, title = "Top hashtags and mentions:", className = "" }: HashtagLeaderboardProps) {
+  if (!leaderboard || (leaderboard.hashtags.length === 0 && leaderboard.mentions.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <h4 className="text-sm font-medium text-neutral-800">{title}</h4>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {leaderboard.hashtags.length > 0 && <TagTable stats={leaderboard.hashtags} prefix="#" />}
+        {leaderboard.mentions.length > 0 && <TagTable stats={leaderboard.mentions} prefix="@" />}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,23 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { ChevronDown, ChevronUp, Calendar, ExternalLink } from "lucide-react"
 import { SentimentCircle } from "@/components/sentiment-circle"
 import { HistoryResultsTable } from "@/components/history-results-table"
-import { useQuery } from "@tanstack/react-query"
+import { EmotionRadar } from "@/components/emotion-radar"
+import { AspectSummaryTable } from "@/components/aspect-sentiments"
+import { TopicGroups } from "@/components/topic-groups"
+import { useMutation, useQuery } from "@tanstack/react-query"
 import { useAuth } from "@/hooks/useAuth"
-import type { BatchAnalysis, AnalysisResult } from "@shared/schema"
+import { useToast } from "@/hooks/use-toast"
+import { queryClient } from "@/lib/queryClient"
+import { retryFailedUrls } from "@/lib/sentiment-api"
+import type { BatchAnalysis, AnalysisResult, BatchStatusResponse } from "@shared/schema"
+import { toPercent } from "@shared/sentiment-scale"
+
+const RETRYABLE_STATUSES = ['no_transcript', 'provider_error']
 
 interface HistoryListProps {
   batches: BatchAnalysis[] | undefined;
@@ -46,6 +55,7 @@ export function HistoryList({ batches }: HistoryListProps) {
       case 'tiktok': return 'TikTok'
       case 'reels': return 'Instagram Reels'
       case 'shorts': return 'YouTube Shorts'
+      case 'auto': return 'Mixed platforms'
       default: return contentType
     }
   }
@@ -53,7 +63,7 @@ export function HistoryList({ batches }: HistoryListProps) {
   const calculateOverallSentiment = (sentimentCounts: string) => {
     try {
       const counts = JSON.parse(sentimentCounts)
-      const total = counts.POSITIVE + counts.NEUTRAL + counts.NEGATIVE
+      const total = counts.POSITIVE + counts.NEUTRAL + counts.NEGATIVE + (counts.MIXED || 0)
       if (total === 0) return { value: "0%", color: "text-neutral-600" }
       
       const positivePercentage = (counts.POSITIVE / total) * 100
@@ -106,7 +116,7 @@ export function HistoryList({ batches }: HistoryListProps) {
                 <div className="flex items-center gap-6">
                   <div>
                     <p className="text-sm text-neutral-dark">Average Score</p>
-                    <p className="text-2xl font-bold text-neutral-darkest">{Math.round(batch.avgConfidence)}</p>
+                    <p className="text-2xl font-bold text-neutral-darkest">{toPercent(batch.avgConfidence)}%</p>
                   </div>
                   <div>
                     <p className="text-sm text-neutral-dark">Overall Sentiment</p>
@@ -126,7 +136,12 @@ export function HistoryList({ batches }: HistoryListProps) {
               </div>
 
               {expandedItems.includes(batch.id) && (
-                <BatchDetails batchId={batch.id} />
+                <>
+                  <div className="mt-6 max-w-md">
+                    <EmotionRadar emotions={batch.emotionScores} title="Emotions across this batch:" />
+                  </div>
+                  <BatchDetails batchId={batch.id} />
+                </>
               )}
             </CardContent>
           </Card>
@@ -138,10 +153,41 @@ export function HistoryList({ batches }: HistoryListProps) {
 
 function BatchDetails({ batchId }: { batchId: number }) {
   const { isAuthenticated, isLoading: authLoading } = useAuth()
+  const { toast } = useToast()
+  const batchQueryKey = [`/api/batch/${batchId}`]
   
-  const { data: batchData, isLoading } = useQuery({
-    queryKey: [`/api/batch/${batchId}`],
+  const { data: batchData, isLoading } = useQuery<BatchStatusResponse>({
+    queryKey: batchQueryKey,
     enabled: isAuthenticated && !authLoading, // Only fetch when authenticated
+    // Keep polling while a retry is queued or running
+    refetchInterval: (query) => {
+      const status = query.state.data?.batch.status
+      return status === 'queued' || status === 'running' ? 2000 : false
+    },
+  })
+
+  const batchStatus = batchData?.batch.status
+  const isProcessing = batchStatus === 'queued' || batchStatus === 'running'
+
+  useEffect(() => {
+    if (batchStatus === 'completed' || batchStatus === 'failed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/history'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/insights/hashtags'] })
+    }
+  }, [batchStatus])
+
+  const retryMutation = useMutation({
+    mutationFn: () => retryFailedUrls(batchId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: batchQueryKey })
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Retry Failed",
+        description: error.message || "Could not retry the failed URLs",
+        variant: "destructive",
+      })
+    },
   })
 
   if (authLoading || isLoading) {
@@ -160,11 +206,19 @@ function BatchDetails({ batchId }: { batchId: number }) {
     )
   }
 
-  const { batch, results }: { batch: BatchAnalysis, results: any[] } = batchData
+  const { results } = batchData
+  const retryableCount = results.filter(result => RETRYABLE_STATUSES.includes(result.status)).length
 
   return (
     <div className="mt-6 space-y-6">
-      <HistoryResultsTable results={results} />
+      <HistoryResultsTable
+        results={results}
+        retryableCount={retryableCount}
+        isRetrying={retryMutation.isPending || isProcessing}
+        onRetryFailed={() => retryMutation.mutate()}
+      />
+      <TopicGroups topics={batchData.topics ?? []} />
+      <AspectSummaryTable summaries={batchData.aspectSummaries ?? []} />
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,14 +1,20 @@
 "use client"
 
 import { Card, CardContent } from "@/components/ui/card"
+import { HashtagLeaderboard } from "@/components/hashtag-leaderboard"
 import { useQuery } from "@tanstack/react-query"
-import type { BatchAnalysis } from "@shared/schema"
+import type { BatchAnalysis, TagLeaderboard } from "@shared/schema"
 
 interface HistoryOverviewProps {
   batches: BatchAnalysis[] | undefined;
 }
 
 export function HistoryOverview({ batches }: HistoryOverviewProps) {
+  const { data: tagLeaderboard } = useQuery<TagLeaderboard>({
+    queryKey: ['/api/insights/hashtags'],
+    enabled: !!batches && batches.length > 0,
+  })
+
   if (!batches || batches.length === 0) {
     return (
       <Card className="bg-neutral-lightest border-neutral-lighter">
@@ -26,7 +32,7 @@ export function HistoryOverview({ batches }: HistoryOverviewProps) {
   const totalVideos = batches.reduce((sum, batch) => sum + batch.totalVideos, 0)
   
   // Calculate average sentiment scores across all batches
-  let totalPositive = 0, totalNeutral = 0, totalNegative = 0
+  let totalPositive = 0, totalNeutral = 0, totalNegative = 0, totalMixed = 0
   let batchesWithScores = 0
   
   batches.forEach(batch => {
@@ -36,6 +42,7 @@ export function HistoryOverview({ batches }: HistoryOverviewProps) {
         totalPositive += counts.POSITIVE
         totalNeutral += counts.NEUTRAL || 0
         totalNegative += counts.NEGATIVE || 0
+        totalMixed += counts.MIXED || 0
         batchesWithScores++
       }
     } catch (e) {
@@ -46,9 +53,10 @@ export function HistoryOverview({ batches }: HistoryOverviewProps) {
   const avgPositive = batchesWithScores > 0 ? Math.round((totalPositive / batchesWithScores)) : 0
   const avgNeutral = batchesWithScores > 0 ? Math.round((totalNeutral / batchesWithScores)) : 0
   const avgNegative = batchesWithScores > 0 ? Math.round((totalNegative / batchesWithScores)) : 0
+  const avgMixed = batchesWithScores > 0 ? Math.round((totalMixed / batchesWithScores)) : 0
   
-  // Calculate overall sentiment score (simplified)
-  const sentimentScore = Math.round((avgPositive * 1 + avgNeutral * 0.5 + avgNegative * 0) / (avgPositive + avgNeutral + avgNegative) * 100) || 0
+  // Calculate overall sentiment score (simplified); mixed weighs like neutral
+  const sentimentScore = Math.round((avgPositive * 1 + (avgNeutral + avgMixed) * 0.5 + avgNegative * 0) / (avgPositive + avgNeutral + avgNegative + avgMixed) * 100) || 0
   
   // For now, showing neutral trend - could be enhanced with historical comparison
   const overallTrend = "+3.2%"
@@ -120,6 +128,8 @@ export function HistoryOverview({ batches }: HistoryOverviewProps) {
             </div>
           </div>
         </div>
+
+        <HashtagLeaderboard leaderboard={tagLeaderboard} title="Top hashtags and mentions across your history:" className="mt-6" />
       </CardContent>
     </Card>
   )
@@ -1,7 +1,16 @@
+import { Fragment } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Play, ExternalLink } from "lucide-react";
+import { SentimentTimeline } from "@/components/sentiment-timeline";
+import { AudienceComparison } from "@/components/audience-comparison";
+import { EmotionRadar } from "@/components/emotion-radar";
+import { AspectSentiments } from "@/components/aspect-sentiments";
+import { BrandMentions } from "@/components/brand-mentions";
+import { VideoMetadataSummary, type VideoMetadataView } from "@/components/video-metadata-summary";
+import { Play, ExternalLink, RotateCcw, Loader2 } from "lucide-react";
+import { sentimentScoresSchema, toPercent, type SentimentScores } from "@shared/sentiment-scale";
+import { LANGUAGE_NAMES, type Language } from "@shared/schema";
 
 interface HistoryResult {
   id: number;
@@ -11,24 +20,42 @@ interface HistoryResult {
   confidence: number;
   transcript: string;
   wordCount: number;
-  sentimentScores: string;
-  commonPositivePhrases: string;
-  commonNegativePhrases: string;
-  batchId: number;
-  createdAt: string;
+  sentimentScores: string | null;
+  emotions: string | null;
+  commonPositivePhrases: string | null;
+  commonNegativePhrases: string | null;
+  status: string;
+  errorCode: string | null;
+  errorMessage: string | null;
+  sentimentTimeline: string | null;
+  audienceSentiment: string | null;
+  aspectSentiments: string | null;
+  brandMentions: string | null;
+  source: string | null;
+  language: string | null;
+  sentimentProvider: string | null;
+  sentimentModel: string | null;
+  metadata?: VideoMetadataView | null;
+  batchId: number | null;
+  createdAt: string | Date;
 }
 
 interface HistoryResultsTableProps {
   results: HistoryResult[];
+  retryableCount?: number;
+  isRetrying?: boolean;
+  onRetryFailed?: () => void;
 }
 
-export function HistoryResultsTable({ results }: HistoryResultsTableProps) {
+export function HistoryResultsTable({ results, retryableCount = 0, isRetrying = false, onRetryFailed }: HistoryResultsTableProps) {
   const getSentimentColor = (sentiment: string) => {
     switch (sentiment.toUpperCase()) {
       case 'POSITIVE':
         return 'bg-green-50 text-green-600 border-green-200';
       case 'NEGATIVE':
         return 'bg-red-50 text-red-600 border-red-200';
+      case 'MIXED':
+        return 'bg-purple-50 text-purple-600 border-purple-200';
       default:
         return 'bg-gray-50 text-gray-600 border-gray-200';
     }
@@ -47,11 +74,22 @@ export function HistoryResultsTable({ results }: HistoryResultsTableProps) {
     }
   };
 
-  const getSentimentScores = (sentimentScores: string) => {
+  const getFailureLabel = (status: string) => {
+    switch (status) {
+      case 'no_transcript':
+        return 'No transcript';
+      case 'invalid_url':
+        return 'Invalid URL';
+      default:
+        return 'Provider error';
+    }
+  };
+
+  const getSentimentScores = (sentimentScores: string | null): SentimentScores => {
     try {
-      return JSON.parse(sentimentScores);
+      return sentimentScoresSchema.parse(JSON.parse(sentimentScores || ''));
     } catch {
-      return { positive: 0, neutral: 0, negative: 0 };
+      return { positive: 0, neutral: 0, negative: 0, mixed: 0 };
     }
   };
 
@@ -84,10 +122,28 @@ export function HistoryResultsTable({ results }: HistoryResultsTableProps) {
       <CardContent className="p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold text-neutral-800">Detailed Analysis Results</h3>
-          <Button variant="outline" size="sm" className="gap-1">
-            <ExternalLink className="h-4 w-4" />
-            Export All
-          </Button>
+          <div className="flex items-center gap-2">
+            {onRetryFailed && (retryableCount > 0 || isRetrying) && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1"
+                disabled={isRetrying}
+                onClick={onRetryFailed}
+              >
+                {isRetrying ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4" />
+                )}
+                {isRetrying ? "Retrying..." : `Retry failed (${retryableCount})`}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" className="gap-1">
+              <ExternalLink className="h-4 w-4" />
+              Export All
+            </Button>
+          </div>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full">
@@ -95,6 +151,7 @@ export function HistoryResultsTable({ results }: HistoryResultsTableProps) {
               <tr className="border-b border-neutral-200">
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Video</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Platform</th>
+                <th className="text-left py-3 px-4 font-medium text-neutral-700">Creator &amp; Engagement</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Sentiment</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Confidence</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Positive %</th>
@@ -107,75 +164,122 @@ export function HistoryResultsTable({ results }: HistoryResultsTableProps) {
             <tbody>
               {results.map((result, index) => {
                 const scores = getSentimentScores(result.sentimentScores);
+                const failed = result.status !== 'ok';
                 return (
-                  <tr key={result.id} className="border-b border-neutral-100 hover:bg-neutral-50">
-                    <td className="py-3 px-4">
-                      <div className="flex items-center space-x-2">
-                        <Play className="w-4 h-4 text-blue-ribbon" />
-                        <div className="flex flex-col">
-                          <span className="text-sm font-medium text-neutral-800">Video {index + 1}</span>
-                          <span className="text-xs text-neutral-500">{shortenUrl(result.url)}</span>
+                  <Fragment key={result.id}>
+                    <tr className="border-b border-neutral-100 hover:bg-neutral-50">
+                      <td className="py-3 px-4">
+                        <div className="flex items-center space-x-2">
+                          <Play className="w-4 h-4 text-blue-ribbon" />
+                          <div className="flex flex-col">
+                            <span className="text-sm font-medium text-neutral-800">Video {index + 1}</span>
+                            <span className="text-xs text-neutral-500">{shortenUrl(result.url)}</span>
+                          </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex items-center space-x-2">
-                        <span>{getPlatformIcon(result.platform)}</span>
-                        <span className="text-sm text-neutral-600 capitalize">{result.platform}</span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <Badge
-                        variant="secondary"
-                        className={`${getSentimentColor(result.sentiment)} border`}
-                      >
-                        {result.sentiment.toLowerCase()}
-                      </Badge>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex items-center space-x-2">
-                        <div className="w-16 bg-neutral-200 rounded-full h-2">
-                          <div
-                            className="bg-blue-ribbon h-2 rounded-full transition-all"
-                            style={{ width: `${result.confidence}%` }}
-                          />
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center space-x-2">
+                          <span>{getPlatformIcon(result.platform)}</span>
+                          <span className="text-sm text-neutral-600 capitalize">{result.platform}</span>
                         </div>
-                        <span className="text-sm text-neutral-600">{Math.round(result.confidence)}%</span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex items-center space-x-2">
-                        <span className="w-3 h-3 rounded-full bg-[#4CAF50]"></span>
-                        <span className="text-sm font-medium text-green-600">{scores.positive}%</span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex items-center space-x-2">
-                        <span className="w-3 h-3 rounded-full bg-[#FFB260]"></span>
-                        <span className="text-sm font-medium text-orange-600">{scores.neutral}%</span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="flex items-center space-x-2">
-                        <span className="w-3 h-3 rounded-full bg-[#FF5757]"></span>
-                        <span className="text-sm font-medium text-red-600">{scores.negative}%</span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="max-w-[200px]">
-                        <span className="text-sm text-green-700 font-medium">
-                          {formatPhrases(result.commonPositivePhrases || '[]')}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="py-3 px-4">
-                      <div className="max-w-[200px]">
-                        <span className="text-sm text-red-700 font-medium">
-                          {formatPhrases(result.commonNegativePhrases || '[]')}
-                        </span>
-                      </div>
-                    </td>
-                  </tr>
+                      </td>
+                      <td className="py-3 px-4">
+                        <VideoMetadataSummary metadata={result.metadata} />
+                      </td>
+                      {failed ? (
+                        <td colSpan={7} className="py-3 px-4">
+                          <div className="flex items-center space-x-2">
+                            <Badge variant="secondary" className="bg-red-50 text-red-600 border-red-200 border">
+                              {getFailureLabel(result.status)}
+                            </Badge>
+                            <span className="text-sm text-neutral-600" title={result.errorCode || undefined}>
+                              {result.errorMessage || 'Error processing video'}
+                            </span>
+                          </div>
+                        </td>
+                      ) : (
+                        <>
+                          <td className="py-3 px-4">
+                            <Badge
+                              variant="secondary"
+                              className={`${getSentimentColor(result.sentiment)} border`}
+                            >
+                              {result.sentiment.toLowerCase()}
+                            </Badge>
+                            {result.source && result.source !== 'transcript' && (
+                              <div className="text-xs text-neutral-500 mt-1">from {result.source}</div>
+                            )}
+                            {result.sentimentProvider && (
+                              <div className="text-xs text-neutral-400 mt-1" title={result.sentimentModel || undefined}>
+                                via {result.sentimentProvider}
+                                {result.language && ` in ${LANGUAGE_NAMES[result.language as Language] ?? result.language}`}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-2">
+                              <div className="w-16 bg-neutral-200 rounded-full h-2">
+                                <div
+                                  className="bg-blue-ribbon h-2 rounded-full transition-all"
+                                  style={{ width: `${toPercent(result.confidence)}%` }}
+                                />
+                              </div>
+                              <span className="text-sm text-neutral-600">{toPercent(result.confidence)}%</span>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-2">
+                              <span className="w-3 h-3 rounded-full bg-[#4CAF50]"></span>
+                              <span className="text-sm font-medium text-green-600">{toPercent(scores.positive)}%</span>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-2">
+                              <span className="w-3 h-3 rounded-full bg-[#FFB260]"></span>
+                              <span className="text-sm font-medium text-orange-600">{toPercent(scores.neutral)}%</span>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center space-x-2">
+                              <span className="w-3 h-3 rounded-full bg-[#FF5757]"></span>
+                              <span className="text-sm font-medium text-red-600">{toPercent(scores.negative)}%</span>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="max-w-[200px]">
+                              <span className="text-sm text-green-700 font-medium">
+                                {formatPhrases(result.commonPositivePhrases || '[]')}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="max-w-[200px]">
+                              <span className="text-sm text-red-700 font-medium">
+                                {formatPhrases(result.commonNegativePhrases || '[]')}
+                              </span>
+                            </div>
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                    {!failed && (result.sentimentTimeline || result.audienceSentiment || result.emotions || result.aspectSentiments || result.brandMentions) && (
+                      <tr className="border-b border-neutral-100">
+                        <td colSpan={10} className="py-3 px-4">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                            <div className="md:col-span-2 space-y-4">
+                              <SentimentTimeline timeline={result.sentimentTimeline} />
+                              <AspectSentiments aspectSentiments={result.aspectSentiments} />
+                              <BrandMentions brandMentions={result.brandMentions} />
+                            </div>
+                            <div className="space-y-4">
+                              <EmotionRadar emotions={result.emotions} height={160} />
+                              <AudienceComparison creatorScores={scores} audienceSentiment={result.audienceSentiment} />
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 );
               })}
             </tbody>
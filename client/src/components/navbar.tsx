@@ -1,7 +1,7 @@
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { History, BarChart3, User, LogOut, CreditCard } from "lucide-react";
+import { History, BarChart3, User, LogOut, CreditCard, TrendingUp } from "lucide-react";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import logoImage from "@assets/icon-name-small.png";
@@ -53,6 +53,12 @@ export function Navbar() {
                 <span>History</span>
               </Button>
             </Link>
+            <Link href="/insights">
+              <Button variant="ghost" className="flex items-center space-x-2">
+                <TrendingUp className="h-4 w-4" />
+                <span>Insights</span>
+              </Button>
+            </Link>
           </div>
         </div>
 
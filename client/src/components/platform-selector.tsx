@@ -2,16 +2,18 @@
 
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
+import type { ContentType } from "@shared/schema"
 
-const platforms: Array<{ value: 'tiktok' | 'reels' | 'shorts'; label: string; icon: string }> = [
+const platforms: Array<{ value: ContentType; label: string; icon: string }> = [
+  { value: "auto", label: "Auto-detect", icon: "✨" },
   { value: "tiktok", label: "TikTok", icon: "🎵" },
   { value: "reels", label: "Instagram Reels", icon: "📸" },
   { value: "shorts", label: "YouTube Shorts", icon: "📺" },
 ]
 
 interface PlatformSelectorProps {
-  contentType: 'tiktok' | 'reels' | 'shorts';
-  onContentTypeChange: (type: 'tiktok' | 'reels' | 'shorts') => void;
+  contentType: ContentType;
+  onContentTypeChange: (type: ContentType) => void;
 }
 
 export function PlatformSelector({ contentType, onContentTypeChange }: PlatformSelectorProps) {
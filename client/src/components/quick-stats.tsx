@@ -1,5 +1,6 @@
 import { Card, CardContent } from "@/components/ui/card";
 import type { AnalyzeVideosResponse } from "@shared/schema";
+import { toPercent } from "@shared/sentiment-scale";
 
 interface QuickStatsProps {
   analysisResults: AnalyzeVideosResponse | null;
@@ -37,7 +38,7 @@ export default function QuickStats({ analysisResults }: QuickStatsProps) {
           <div className="flex justify-between items-center">
             <span className="text-sm text-neutral-600">Avg. Confidence</span>
             <span className="text-sm font-semibold text-neutral-800">
-              {Math.round(stats.avgConfidence)}%
+              {toPercent(stats.avgConfidence)}%
             </span>
           </div>
           <div className="flex justify-between items-center">
@@ -2,10 +2,12 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Play } from "lucide-react";
-import type { AnalysisResult } from "@shared/schema";
+import { VideoMetadataSummary } from "@/components/video-metadata-summary";
+import type { AnalysisResultWithMetadata } from "@shared/schema";
+import { toPercent } from "@shared/sentiment-scale";
 
 interface ResultsTableProps {
-  results: AnalysisResult[];
+  results: AnalysisResultWithMetadata[];
 }
 
 export default function ResultsTable({ results }: ResultsTableProps) {
@@ -15,6 +17,8 @@ export default function ResultsTable({ results }: ResultsTableProps) {
         return 'bg-green-50 text-green-600 border-green-200';
       case 'NEGATIVE':
         return 'bg-red-50 text-red-600 border-red-200';
+      case 'MIXED':
+        return 'bg-purple-50 text-purple-600 border-purple-200';
       default:
         return 'bg-gray-50 text-gray-600 border-gray-200';
     }
@@ -43,6 +47,7 @@ export default function ResultsTable({ results }: ResultsTableProps) {
               <tr className="border-b border-neutral-200">
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Video</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Platform</th>
+                <th className="text-left py-3 px-4 font-medium text-neutral-700">Creator &amp; Engagement</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Sentiment</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Confidence</th>
                 <th className="text-left py-3 px-4 font-medium text-neutral-700">Transcript</th>
@@ -63,6 +68,9 @@ export default function ResultsTable({ results }: ResultsTableProps) {
                       <span className="text-sm text-neutral-600 capitalize">{result.platform}</span>
                     </div>
                   </td>
+                  <td className="py-3 px-4">
+                    <VideoMetadataSummary metadata={result.metadata} />
+                  </td>
                   <td className="py-3 px-4">
                     <Badge
                       variant="secondary"
@@ -70,16 +78,21 @@ export default function ResultsTable({ results }: ResultsTableProps) {
                     >
                       {result.sentiment.toLowerCase()}
                     </Badge>
+                    {result.sentimentProvider && (
+                      <div className="text-xs text-neutral-400 mt-1" title={result.sentimentModel || undefined}>
+                        via {result.sentimentProvider}
+                      </div>
+                    )}
                   </td>
                   <td className="py-3 px-4">
                     <div className="flex items-center space-x-2">
                       <div className="w-16 bg-neutral-200 rounded-full h-2">
                         <div
                           className="bg-blue-ribbon h-2 rounded-full transition-all"
-                          style={{ width: `${result.confidence}%` }}
+                          style={{ width: `${toPercent(result.confidence)}%` }}
                         />
                       </div>
-                      <span className="text-sm text-neutral-600">{Math.round(result.confidence)}%</span>
+                      <span className="text-sm text-neutral-600">{toPercent(result.confidence)}%</span>
                     </div>
                   </td>
                   <td className="py-3 px-4">
@@ -28,7 +28,9 @@ export default function SentimentChart({ analysisResults }: SentimentChartProps)
       }
 
       const { sentimentCounts } = analysisResults.summary;
-      const total = sentimentCounts.POSITIVE + sentimentCounts.NEUTRAL + sentimentCounts.NEGATIVE;
+      // Batches stored before MIXED existed have no MIXED count
+      const mixed = sentimentCounts.MIXED ?? 0;
+      const total = sentimentCounts.POSITIVE + sentimentCounts.NEUTRAL + sentimentCounts.NEGATIVE + mixed;
 
       if (total === 0) return;
 
@@ -36,15 +38,16 @@ export default function SentimentChart({ analysisResults }: SentimentChartProps)
         sentimentCounts.POSITIVE,
         sentimentCounts.NEUTRAL,
         sentimentCounts.NEGATIVE,
+        mixed,
       ];
 
       chartRef.current = new Chart(ctx, {
         type: 'doughnut',
         data: {
-          labels: ['Positive', 'Neutral', 'Negative'],
+          labels: ['Positive', 'Neutral', 'Negative', 'Mixed'],
           datasets: [{
             data,
-            backgroundColor: ['#10B981', '#6B7280', '#EF4444'],
+            backgroundColor: ['#10B981', '#6B7280', '#EF4444', '#A855F7'],
             borderWidth: 0,
             cutout: '60%',
           }],
@@ -79,17 +82,19 @@ export default function SentimentChart({ analysisResults }: SentimentChartProps)
   }, [analysisResults]);
 
   const getSentimentPercentages = () => {
-    if (!analysisResults) return { positive: 0, neutral: 0, negative: 0 };
+    if (!analysisResults) return { positive: 0, neutral: 0, negative: 0, mixed: 0 };
     
     const { sentimentCounts } = analysisResults.summary;
-    const total = sentimentCounts.POSITIVE + sentimentCounts.NEUTRAL + sentimentCounts.NEGATIVE;
+    const mixed = sentimentCounts.MIXED ?? 0;
+    const total = sentimentCounts.POSITIVE + sentimentCounts.NEUTRAL + sentimentCounts.NEGATIVE + mixed;
     
-    if (total === 0) return { positive: 0, neutral: 0, negative: 0 };
+    if (total === 0) return { positive: 0, neutral: 0, negative: 0, mixed: 0 };
     
     return {
       positive: Math.round((sentimentCounts.POSITIVE / total) * 100),
       neutral: Math.round((sentimentCounts.NEUTRAL / total) * 100),
       negative: Math.round((sentimentCounts.NEGATIVE / total) * 100),
+      mixed: Math.round((mixed / total) * 100),
     };
   };
 
@@ -132,6 +137,13 @@ export default function SentimentChart({ analysisResults }: SentimentChartProps)
               </div>
               <span className="text-sm font-medium text-neutral-800">{percentages.negative}%</span>
             </div>
+            <div className="flex justify-between items-center">
+              <div className="flex items-center">
+                <div className="w-3 h-3 bg-purple-500 rounded-full mr-2"></div>
+                <span className="text-sm text-neutral-700">Mixed</span>
+              </div>
+              <span className="text-sm font-medium text-neutral-800">{percentages.mixed}%</span>
+            </div>
           </div>
         )}
       </CardContent>
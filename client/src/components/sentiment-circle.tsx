@@ -1,16 +1,19 @@
 "use client"
 
 import { useEffect, useRef } from "react"
+import { toPercent } from "@shared/sentiment-scale"
 
+// Probabilities in 0–1 summing to 1, as stored on analysis results
 interface SentimentCircleProps {
   positive: number
   neutral: number
   negative: number
+  mixed?: number
   size?: number
   strokeWidth?: number
 }
 
-export function SentimentCircle({ positive, neutral, negative, size = 120, strokeWidth = 12 }: SentimentCircleProps) {
+export function SentimentCircle({ positive, neutral, negative, mixed = 0, size = 120, strokeWidth = 12 }: SentimentCircleProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
 
   useEffect(() => {
@@ -42,12 +45,13 @@ export function SentimentCircle({ positive, neutral, negative, size = 120, strok
     ctx.stroke()
 
     // Calculate angles for each segment
-    const total = positive + neutral + negative
+    const total = positive + neutral + negative + mixed
     if (total === 0) return
 
     const positiveAngle = (positive / total) * (2 * Math.PI)
     const neutralAngle = (neutral / total) * (2 * Math.PI)
     const negativeAngle = (negative / total) * (2 * Math.PI)
+    const mixedAngle = (mixed / total) * (2 * Math.PI)
 
     // Draw negative segment (red)
     let startAngle = -Math.PI / 2 // Start from top
@@ -72,21 +76,33 @@ export function SentimentCircle({ positive, neutral, negative, size = 120, strok
     ctx.lineWidth = strokeWidth
     ctx.strokeStyle = "#4CAF50" // Green for positive
     ctx.stroke()
-  }, [positive, neutral, negative, size, strokeWidth])
+
+    // Draw mixed segment (purple)
+    startAngle += positiveAngle
+    ctx.beginPath()
+    ctx.arc(centerX, centerY, radius, startAngle, startAngle + mixedAngle)
+    ctx.lineWidth = strokeWidth
+    ctx.strokeStyle = "#A855F7" // Purple for mixed
+    ctx.stroke()
+  }, [positive, neutral, negative, mixed, size, strokeWidth])
 
   const getDominantSentiment = () => {
-    if (positive > neutral && positive > negative) return "Positive"
-    if (neutral > positive && neutral > negative) return "Neutral"
-    return "Negative"
+    if (mixed > positive && mixed > neutral && mixed > negative) return { label: "Mixed", probability: mixed }
+    if (positive > neutral && positive > negative) return { label: "Positive", probability: positive }
+    if (neutral > positive && neutral > negative) return { label: "Neutral", probability: neutral }
+    return { label: "Negative", probability: negative }
   }
 
+  const dominant = getDominantSentiment()
+
   return (
     <div className="relative flex items-center justify-center">
       <canvas ref={canvasRef} width={size} height={size} style={{ width: size, height: size }} />
-      <div className="absolute inset-0 flex items-center justify-center">
+      <div className="absolute inset-0 flex flex-col items-center justify-center">
         <span className="text-lg font-medium">
-          {getDominantSentiment()}
+          {dominant.label}
         </span>
+        <span className="text-xs text-neutral-600">{toPercent(dominant.probability)}%</span>
       </div>
     </div>
   )
@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { SentimentTimelinePoint } from "@shared/schema";
+
+interface SentimentTimelineProps {
+  timeline: string | null; // JSON array as stored on the result row
+  height?: number;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const getPointColor = (point: SentimentTimelinePoint) => {
+  const { polarity } = point;
+  if (point.sentiment === 'MIXED') return '#A855F7';
+  if (polarity > 0.1) return '#4CAF50';
+  if (polarity < -0.1) return '#FF5757';
+  return '#FFB260';
+};
+
+export function SentimentTimeline({ timeline, height = 120 }: SentimentTimelineProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const chartRef = useRef<any>(null);
+  const pieceRefs = useRef<Array<HTMLSpanElement | null>>([]);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  const points = useMemo<SentimentTimelinePoint[]>(() => {
+    try {
+      const parsed = JSON.parse(timeline || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }, [timeline]);
+
+  useEffect(() => {
+    if (points.length === 0 || !canvasRef.current) return;
+
+    const loadChart = async () => {
+      // Dynamically import Chart.js to avoid SSR issues
+      const { Chart, registerables } = await import('chart.js');
+      Chart.register(...registerables);
+
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+
+      if (chartRef.current) {
+        chartRef.current.destroy();
+      }
+
+      chartRef.current = new Chart(ctx, {
+        type: 'line',
+        data: {
+          labels: points.map((point, index) => point.start !== null ? formatTime(point.start) : `#${index + 1}`),
+          datasets: [{
+            data: points.map(point => point.polarity),
+            borderColor: '#2563EB',
+            backgroundColor: 'rgba(37, 99, 235, 0.1)',
+            pointBackgroundColor: points.map(getPointColor),
+            pointRadius: 4,
+            pointHoverRadius: 6,
+            fill: 'origin',
+            tension: 0.3,
+          }],
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          scales: {
+            y: { min: -1, max: 1, ticks: { stepSize: 1 } },
+            x: { ticks: { maxRotation: 0, autoSkip: true } },
+          },
+          plugins: {
+            legend: {
+              display: false,
+            },
+            tooltip: {
+              callbacks: {
+                label: (context) => points[context.dataIndex].sentiment.toLowerCase(),
+              }
+            }
+          },
+          // Clicking a point scrolls the matching transcript piece into view
+          onClick: (_event, elements) => {
+            const index = elements[0]?.index;
+            if (index === undefined) return;
+            setActiveIndex(index);
+            pieceRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+          },
+        },
+      });
+    };
+
+    loadChart();
+
+    return () => {
+      if (chartRef.current) {
+        chartRef.current.destroy();
+        chartRef.current = null;
+      }
+    };
+  }, [points]);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-neutral-800">Sentiment over time:</h4>
+      <div className="relative" style={{ height }}>
+        <canvas ref={canvasRef} className="max-w-full max-h-full cursor-pointer" />
+      </div>
+      <div className="max-h-32 overflow-y-auto rounded border border-neutral-200 bg-white p-2 text-xs leading-relaxed text-neutral-600">
+        {points.map((point, index) => (
+          <span
+            key={index}
+            ref={(element) => { pieceRefs.current[index] = element; }}
+            className={`rounded px-0.5 cursor-pointer ${activeIndex === index ? 'bg-yellow-100 text-neutral-900' : ''}`}
+            onClick={() => setActiveIndex(index)}
+          >
+            {point.start !== null && (
+              <span className="text-neutral-400 mr-1">[{formatTime(point.start)}]</span>
+            )}
+            {point.text}{' '}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
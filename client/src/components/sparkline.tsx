@@ -0,0 +1,49 @@
+interface SparklineProps {
+  values: Array<number | null>; // Null leaves a gap, e.g. a week nobody mentioned the term
+  min?: number; // Domain of the y axis; defaults to the range of the values
+  max?: number;
+  color?: string;
+  width?: number;
+  height?: number;
+  label?: string;
+}
+
+/**
+ * Tiny inline trend line for table cells; too small to need chart.js
+ */
+export function Sparkline({ values, min, max, color = '#2563EB', width = 120, height = 28, label }: SparklineProps) {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) {
+    return <span className="text-xs text-neutral-400">—</span>;
+  }
+
+  const low = min ?? Math.min(...present);
+  const high = max ?? Math.max(...present);
+  const span = high - low || 1;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const x = (index: number) => (values.length > 1 ? index * step : width / 2);
+  const y = (value: number) => height - 2 - ((value - low) / span) * (height - 4);
+
+  // Consecutive non-null values form one line segment each
+  const segments: string[] = [];
+  let current: string[] = [];
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+    } else {
+      current.push(`${x(index).toFixed(1)},${y(value).toFixed(1)}`);
+    }
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} role="img" aria-label={label}>
+      {segments.map((points, index) => points.includes(' ') ? (
+        <polyline key={index} points={points} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+      ) : (
+        <circle key={index} cx={points.split(',')[0]} cy={points.split(',')[1]} r={1.5} fill={color} />
+      ))}
+    </svg>
+  );
+}
@@ -1,13 +1,17 @@
 "use client"
 
 import { Card, CardContent } from "@/components/ui/card"
-import type { AnalyzeVideosResponse } from "@shared/schema"
+import { EmotionRadar } from "@/components/emotion-radar"
+import { HashtagLeaderboard } from "@/components/hashtag-leaderboard"
+import type { AnalyzeVideosResponse, TagLeaderboard } from "@shared/schema"
+import { toPercent } from "@shared/sentiment-scale"
 
 interface SummaryStatsProps {
   analysisResults: AnalyzeVideosResponse | null;
+  tagLeaderboard?: TagLeaderboard | null;
 }
 
-export function SummaryStats({ analysisResults }: SummaryStatsProps) {
+export function SummaryStats({ analysisResults, tagLeaderboard }: SummaryStatsProps) {
   if (!analysisResults) {
     return (
       <Card className="bg-neutral-100 border-neutral-200">
@@ -21,13 +25,13 @@ export function SummaryStats({ analysisResults }: SummaryStatsProps) {
   }
 
   const { summary } = analysisResults
-  const { sentimentCounts, sentimentScores, avgConfidence, totalVideos, totalWords } = summary
+  const { sentimentCounts, sentimentScores, emotionScores, avgConfidence, totalVideos, totalWords, failedVideos, cacheHits } = summary
 
-  // Use the new sentiment score averages if available, fallback to counts
-  // Format to 1 decimal place to prevent container overflow
-  const positivePercentage = Number((sentimentScores?.positive ?? 0).toFixed(1))
-  const neutralPercentage = Number((sentimentScores?.neutral ?? 0).toFixed(1))
-  const negativePercentage = Number((sentimentScores?.negative ?? 0).toFixed(1))
+  // Scores are 0–1 probabilities; shown as percentages with 1 decimal place to prevent container overflow
+  const positivePercentage = Number(((sentimentScores?.positive ?? 0) * 100).toFixed(1))
+  const neutralPercentage = Number(((sentimentScores?.neutral ?? 0) * 100).toFixed(1))
+  const negativePercentage = Number(((sentimentScores?.negative ?? 0) * 100).toFixed(1))
+  const mixedPercentage = Number(((sentimentScores?.mixed ?? 0) * 100).toFixed(1))
 
   return (
     <Card className="bg-neutral-100 border-neutral-200">
@@ -38,33 +42,53 @@ export function SummaryStats({ analysisResults }: SummaryStatsProps) {
             <p className="text-xs text-neutral-600">Sentiment scores across analyzed videos</p>
           </div>
           
-          <div className="grid grid-cols-4 gap-4">
-            <div className="col-span-4 md:col-span-1 bg-blue-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
+          <div className="grid grid-cols-5 gap-4">
+            <div className="col-span-5 md:col-span-1 bg-blue-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
               <h3 className="text-sm font-medium text-neutral-800 text-center mb-2 break-words">Videos Analyzed:</h3>
               <p className="text-3xl md:text-4xl font-bold text-blue-600 break-words text-center">{totalVideos}</p>
+              {failedVideos > 0 && (
+                <p className="text-xs text-red-600 text-center mt-1">{failedVideos} failed</p>
+              )}
+              {cacheHits > 0 && (
+                <p className="text-xs text-neutral-600 text-center mt-1">{cacheHits} from cache</p>
+              )}
+              {totalVideos - failedVideos > 0 && (
+                <p className="text-xs text-neutral-600 text-center mt-1">{toPercent(avgConfidence)}% avg. confidence</p>
+              )}
             </div>
 
-            <div className="col-span-4 md:col-span-1 bg-green-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
+            <div className="col-span-5 md:col-span-1 bg-green-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
               <h3 className="text-sm font-medium text-neutral-800 text-center mb-2 break-words">Positive:</h3>
               <p className="text-3xl md:text-4xl font-bold text-[#4CAF50] break-words text-center">
                 {positivePercentage}%
               </p>
             </div>
 
-            <div className="col-span-4 md:col-span-1 bg-yellow-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
+            <div className="col-span-5 md:col-span-1 bg-yellow-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
               <h3 className="text-sm font-medium text-neutral-800 text-center mb-2 break-words">Neutral:</h3>
               <p className="text-3xl md:text-4xl font-bold text-[#FFB260] break-words text-center">
                 {neutralPercentage}%
               </p>
             </div>
 
-            <div className="col-span-4 md:col-span-1 bg-red-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
+            <div className="col-span-5 md:col-span-1 bg-red-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
               <h3 className="text-sm font-medium text-neutral-800 text-center mb-2 break-words">Negative:</h3>
               <p className="text-3xl md:text-4xl font-bold text-[#FF5757] break-words text-center">
                 {negativePercentage}%
               </p>
             </div>
+
+            <div className="col-span-5 md:col-span-1 bg-purple-50 rounded-lg p-4 flex flex-col justify-center items-center min-h-[120px]">
+              <h3 className="text-sm font-medium text-neutral-800 text-center mb-2 break-words">Mixed:</h3>
+              <p className="text-3xl md:text-4xl font-bold text-[#A855F7] break-words text-center">
+                {mixedPercentage}%
+              </p>
+            </div>
           </div>
+
+          <EmotionRadar emotions={emotionScores ?? null} title="Emotions across videos:" height={240} />
+
+          <HashtagLeaderboard leaderboard={tagLeaderboard} />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,44 @@
+import { useMemo } from "react";
+import type { TranscriptSegment } from "@shared/schema";
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+interface TimedTranscriptProps {
+  segments: string | null; // JSON array as stored on the result row
+}
+
+/**
+ * The transcript line by line with start times, for results analyzed with includeTimestamps
+ */
+export function TimedTranscript({ segments }: TimedTranscriptProps) {
+  const lines = useMemo<TranscriptSegment[]>(() => {
+    try {
+      const parsed = JSON.parse(segments || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }, [segments]);
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-sm font-medium text-neutral-800">Timed transcript</summary>
+      <div className="mt-2 max-h-48 space-y-1 overflow-y-auto">
+        {lines.map((line, index) => (
+          <div key={index} className="flex gap-2">
+            <span className="shrink-0 tabular-nums text-neutral-400">{formatTime(line.start)}</span>
+            <span className="text-neutral-600">{line.text}</span>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,98 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { SENTIMENT_LABELS, type SentimentCounts, type TopicWithMembers } from "@shared/schema";
+
+// Same palette as the audience score bars
+const sentimentColors: Record<keyof SentimentCounts, string> = {
+  POSITIVE: 'bg-[#4CAF50]',
+  NEUTRAL: 'bg-[#FFB260]',
+  NEGATIVE: 'bg-[#FF5757]',
+  MIXED: 'bg-[#A855F7]',
+};
+
+// Videos listed per topic before the rest are summarised as "+N more"
+const VISIBLE_MEMBERS = 5;
+
+const parseJson = <T,>(json: string, fallback: T): T => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return fallback;
+  }
+};
+
+function SentimentDistribution({ counts, total }: { counts: SentimentCounts; total: number }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-neutral-200">
+        {SENTIMENT_LABELS.map(label => (
+          <div key={label} className={sentimentColors[label]} style={{ width: `${total > 0 ? (counts[label] / total) * 100 : 0}%` }} />
+        ))}
+      </div>
+      <div className="flex gap-3 text-xs text-neutral-600">
+        {SENTIMENT_LABELS.filter(label => counts[label] > 0).map(label => (
+          <span key={label}>{counts[label]} {label.toLowerCase()}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface TopicGroupsProps {
+  topics: TopicWithMembers[];
+  title?: string;
+}
+
+/**
+ * Videos grouped by the themes they cover, with how each theme was received
+ */
+export function TopicGroups({ topics, title = "Topics:" }: TopicGroupsProps) {
+  if (topics.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-neutral-100 border-neutral-200">
+      <CardContent className="p-6 space-y-4">
+        <h4 className="text-sm font-medium text-neutral-800">{title}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {topics.map(topic => {
+            const terms = parseJson<string[]>(topic.terms, []);
+            const counts = parseJson<SentimentCounts>(topic.sentimentCounts, { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 });
+            return (
+              <div key={topic.id} className="rounded-md border border-neutral-200 bg-white p-4 space-y-3">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="font-medium text-neutral-800">{terms.slice(0, 3).join(' · ') || 'Untitled topic'}</span>
+                  <span className="text-xs text-neutral-500 whitespace-nowrap">
+                    {topic.videoCount} video{topic.videoCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {terms.length > 3 && (
+                  <p className="text-xs text-neutral-500">Also: {terms.slice(3).join(', ')}</p>
+                )}
+                <SentimentDistribution counts={counts} total={topic.videoCount} />
+                <ul className="space-y-0.5">
+                  {topic.members.slice(0, VISIBLE_MEMBERS).map(member => (
+                    <li key={member.resultId} className="truncate text-xs">
+                      <a
+                        href={member.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                        title={`${member.sentiment.toLowerCase()} · ${Math.round(member.similarity * 100)}% match`}
+                      >
+                        {member.url}
+                      </a>
+                    </li>
+                  ))}
+                  {topic.members.length > VISIBLE_MEMBERS && (
+                    <li className="text-xs text-neutral-500">+{topic.members.length - VISIBLE_MEMBERS} more</li>
+                  )}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
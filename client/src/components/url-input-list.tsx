@@ -13,11 +13,12 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
+import type { ContentType } from "@shared/schema"
 
 interface UrlInputListProps {
   urls: string[];
   onUrlsChange: (urls: string[]) => void;
-  contentType: 'tiktok' | 'reels' | 'shorts';
+  contentType: ContentType;
 }
 
 export function UrlInputList({ urls, onUrlsChange, contentType }: UrlInputListProps) {
@@ -55,7 +56,7 @@ export function UrlInputList({ urls, onUrlsChange, contentType }: UrlInputListPr
       case 'shorts':
         return 'https://www.youtube.com/shorts/...'
       default:
-        return 'url: https://bestreelev...'
+        return 'TikTok, Instagram Reels or YouTube Shorts URL'
     }
   }
 
@@ -0,0 +1,70 @@
+import { Eye, Heart, MessageCircle, Share2 } from "lucide-react";
+import type { VideoMetadata } from "@shared/schema";
+
+// Dates arrive as strings once the row has been through JSON
+export type VideoMetadataView = Omit<VideoMetadata, 'publishedAt' | 'fetchedAt'> & { publishedAt: string | Date | null };
+
+interface VideoMetadataSummaryProps {
+  metadata: VideoMetadataView | null | undefined;
+}
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 });
+
+const formatCount = (value: number | null) => value === null ? '–' : compactNumber.format(value);
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const parseHashtags = (hashtags: string | null): string[] => {
+  try {
+    const parsed = JSON.parse(hashtags || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export function VideoMetadataSummary({ metadata }: VideoMetadataSummaryProps) {
+  if (!metadata) {
+    return <span className="text-xs text-neutral-400">No metadata</span>;
+  }
+
+  const hashtags = parseHashtags(metadata.hashtags);
+  const details = [
+    metadata.durationSeconds !== null ? formatDuration(metadata.durationSeconds) : null,
+    metadata.publishedAt ? new Date(metadata.publishedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-1 min-w-[180px] max-w-[240px]">
+      {metadata.creatorHandle && (
+        <div className="text-sm font-medium text-neutral-800">
+          @{metadata.creatorHandle}
+          {metadata.followerCount !== null && (
+            <span className="ml-1 text-xs font-normal text-neutral-500">{formatCount(metadata.followerCount)} followers</span>
+          )}
+        </div>
+      )}
+      <div className="flex items-center gap-3 text-xs text-neutral-600">
+        <span className="flex items-center gap-1" title="Views"><Eye className="w-3 h-3" />{formatCount(metadata.viewCount)}</span>
+        <span className="flex items-center gap-1" title="Likes"><Heart className="w-3 h-3" />{formatCount(metadata.likeCount)}</span>
+        <span className="flex items-center gap-1" title="Comments"><MessageCircle className="w-3 h-3" />{formatCount(metadata.commentCount)}</span>
+        <span className="flex items-center gap-1" title="Shares"><Share2 className="w-3 h-3" />{formatCount(metadata.shareCount)}</span>
+      </div>
+      {details.length > 0 && (
+        <div className="text-xs text-neutral-500">{details.join(' • ')}</div>
+      )}
+      {metadata.caption && (
+        <p className="text-xs text-neutral-600 truncate" title={metadata.caption}>{metadata.caption}</p>
+      )}
+      {hashtags.length > 0 && (
+        <div className="text-xs text-blue-600 truncate" title={hashtags.map(tag => `#${tag}`).join(' ')}>
+          {hashtags.slice(0, 4).map(tag => `#${tag}`).join(' ')}
+        </div>
+      )}
+    </div>
+  );
+}
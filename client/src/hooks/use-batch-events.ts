@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+import { getAuthHeaders } from "@/lib/queryClient";
+import type { BatchProgressEvent } from "@shared/schema";
+
+// EventSource cannot send the Firebase bearer token, so the stream is read through fetch
+async function readEventStream(
+  batchId: number,
+  signal: AbortSignal,
+  onEvent: (event: BatchProgressEvent) => void,
+) {
+  const authHeaders = await getAuthHeaders();
+  const res = await fetch(`/api/batch/${batchId}/events`, {
+    headers: { ...authHeaders, Accept: "text/event-stream" },
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    throw new Error(`${res.status}: ${res.statusText}`);
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // SSE frames are separated by a blank line; comment frames carry no data
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    }
+  }
+}
+
+export function useBatchEvents(batchId: number | null, onEvent: (event: BatchProgressEvent) => void) {
+  const [streamFailed, setStreamFailed] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (batchId === null) return;
+
+    const controller = new AbortController();
+    setStreamFailed(false);
+
+    readEventStream(batchId, controller.signal, (event) => onEventRef.current(event)).catch((error) => {
+      if (!controller.signal.aborted) {
+        console.error("Batch event stream error:", error);
+        setStreamFailed(true);
+      }
+    });
+
+    return () => controller.abort();
+  }, [batchId]);
+
+  return { streamFailed };
+}
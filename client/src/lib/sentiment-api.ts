@@ -1,12 +1,17 @@
 import { apiRequest } from "./queryClient";
-import type { AnalyzeVideosRequest, AnalyzeVideosResponse } from "@shared/schema";
+import type { AnalyzeVideosRequest, AnalysisJobResponse, BatchStatusResponse } from "@shared/schema";
 
-export async function analyzeVideos(request: AnalyzeVideosRequest): Promise<AnalyzeVideosResponse> {
+export async function analyzeVideos(request: AnalyzeVideosRequest): Promise<AnalysisJobResponse> {
   const response = await apiRequest("POST", "/api/analyze", request);
   return response.json();
 }
 
-export async function getBatchAnalysis(batchId: number) {
+export async function getBatchAnalysis(batchId: number): Promise<BatchStatusResponse> {
   const response = await apiRequest("GET", `/api/batch/${batchId}`);
   return response.json();
 }
+
+export async function retryFailedUrls(batchId: number): Promise<AnalysisJobResponse> {
+  const response = await apiRequest("POST", `/api/batch/${batchId}/retry`);
+  return response.json();
+}
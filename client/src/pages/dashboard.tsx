@@ -1,31 +1,135 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { useMutation } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
 import { Navbar } from "@/components/navbar";
 import { PlatformSelector } from "@/components/platform-selector";
 import { UrlInputList } from "@/components/url-input-list";
-import { AnalysisResults } from "@/components/analysis-results";
+import { AnalysisResults, type UrlProgress } from "@/components/analysis-results";
 import { SummaryStats } from "@/components/summary-stats";
+import { AspectSummaryTable } from "@/components/aspect-sentiments";
+import { TopicGroups } from "@/components/topic-groups";
 import { UsageDisplay } from "@/components/usage-display";
+import { BrandWatchlist } from "@/components/brand-watchlist";
 import { analyzeVideos } from "@/lib/sentiment-api";
+import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { AnalyzeVideosResponse } from "@shared/schema";
+import { useBatchEvents } from "@/hooks/use-batch-events";
+import { LANGUAGE_NAMES, LANGUAGES, MAX_ASPECTS, SENTIMENT_PROVIDERS, type BatchProgressEvent, type BatchStatusResponse, type ContentType, type Language, type SentimentProviderName } from "@shared/schema";
+
+const BATCH_POLL_INTERVAL_MS = 2000;
+
+const providerLabels: Record<SentimentProviderName, string> = {
+  openai: "OpenAI",
+  'aws-comprehend': "AWS Comprehend",
+  local: "Local lexicon",
+};
+
+const isBatchInProgress = (data: BatchStatusResponse | undefined) =>
+  !data || data.batch.status === 'queued' || data.batch.status === 'running';
+
+// Comma-separated aspects from the dashboard input; empty means detect them automatically
+const parseAspectList = (value: string): string[] | undefined => {
+  const aspects = value.split(',').map(aspect => aspect.trim()).filter(Boolean).slice(0, MAX_ASPECTS);
+  return aspects.length > 0 ? aspects : undefined;
+};
 
 export default function Dashboard() {
-  const [contentType, setContentType] = useState<'tiktok' | 'reels' | 'shorts'>('shorts');
+  const [contentType, setContentType] = useState<ContentType>('auto');
   const [urls, setUrls] = useState<string[]>(['', '', '', '', '']);
-  const [analysisResults, setAnalysisResults] = useState<AnalyzeVideosResponse | null>(null);
+  const [includeTimestamps, setIncludeTimestamps] = useState(false);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [analyzeComments, setAnalyzeComments] = useState(false);
+  const [analyzeAspects, setAnalyzeAspects] = useState(false);
+  const [aspectList, setAspectList] = useState('');
+  const [sentimentProvider, setSentimentProvider] = useState<SentimentProviderName | 'auto'>('auto');
+  const [language, setLanguage] = useState<Language | 'auto'>('auto');
+  const [activeBatchId, setActiveBatchId] = useState<number | null>(null);
+  const [urlProgress, setUrlProgress] = useState<UrlProgress[]>([]);
   const { toast } = useToast();
+  // Providers outside the plan are shown but cannot be picked
+  const { data: planInfo } = useQuery<{ planLimits: { sentimentProviders: SentimentProviderName[] } }>({
+    queryKey: ['/api/user/plan'],
+  });
+  const isProviderAllowed = (provider: SentimentProviderName) =>
+    !planInfo || planInfo.planLimits.sentimentProviders.includes(provider);
+  const batchQueryKey = [`/api/batch/${activeBatchId}`];
 
-  const analysisMutation = useMutation({
-    mutationFn: analyzeVideos,
-    onSuccess: (data) => {
-      setAnalysisResults(data);
+  const handleBatchEvent = (event: BatchProgressEvent) => {
+    if (event.type === 'url') {
+      setUrlProgress(prev => prev.map(item =>
+        item.index === event.index
+          ? { ...item, stage: event.stage, reason: event.reason, settled: !!event.result }
+          : item
+      ));
+
+      // Fill in the finished row without waiting for the batch to complete
+      const { result } = event;
+      if (result) {
+        queryClient.setQueryData<BatchStatusResponse>(batchQueryKey, (data) =>
+          data && !data.results.some(existing => existing.id === result.id)
+            ? { ...data, results: [...data.results, result] }
+            : data
+        );
+      }
+    } else if (event.status === 'completed' || event.status === 'failed') {
+      // Refetch once so the summary reflects every stored result
+      queryClient.invalidateQueries({ queryKey: batchQueryKey });
+    } else {
+      queryClient.setQueryData<BatchStatusResponse>(batchQueryKey, (data) =>
+        data && {
+          ...data,
+          batch: { ...data.batch, status: event.status, processedVideos: event.processedVideos },
+          progress: { processedVideos: event.processedVideos, totalVideos: event.totalVideos },
+        }
+      );
+    }
+  };
+
+  const { streamFailed } = useBatchEvents(activeBatchId, handleBatchEvent);
+
+  // Progress arrives over the event stream; fall back to polling if the stream drops
+  const { data: analysisResults } = useQuery<BatchStatusResponse>({
+    queryKey: batchQueryKey,
+    enabled: activeBatchId !== null,
+    staleTime: 0,
+    refetchInterval: (query) =>
+      streamFailed && isBatchInProgress(query.state.data) ? BATCH_POLL_INTERVAL_MS : false,
+  });
+
+  const batchStatus = analysisResults?.batch.status;
+  const isAnalyzing = activeBatchId !== null && isBatchInProgress(analysisResults);
+
+  useEffect(() => {
+    if (!analysisResults) return;
+
+    if (batchStatus === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/plan'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/insights/hashtags'] });
       toast({
         title: "Analysis Complete",
-        description: `Successfully analyzed ${data.results.length} videos`,
+        description: analysisResults.summary.failedVideos > 0
+          ? `Analyzed ${analysisResults.results.length - analysisResults.summary.failedVideos} videos, ${analysisResults.summary.failedVideos} failed`
+          : `Successfully analyzed ${analysisResults.results.length} videos`,
       });
+    } else if (batchStatus === 'failed') {
+      toast({
+        title: "Analysis Failed",
+        description: analysisResults.batch.errorMessage || "An error occurred while analyzing the videos",
+        variant: "destructive",
+      });
+    }
+  }, [batchStatus]);
+
+  const analysisMutation = useMutation({
+    mutationFn: analyzeVideos,
+    onSuccess: (data, request) => {
+      setUrlProgress(request.urls.map((url, index) => ({ url, index })));
+      setActiveBatchId(data.batchId);
     },
     onError: (error: any) => {
       console.error("Analysis error:", error);
@@ -70,7 +174,15 @@ export default function Dashboard() {
     analysisMutation.mutate({
       urls: validUrls,
       contentType,
-      includeTimestamps: false,
+      includeTimestamps,
+      forceRefresh,
+      analyzeComments,
+      commentLimit: 20,
+      sentimentProvider: sentimentProvider === 'auto' ? undefined : sentimentProvider,
+      analyzeAspects,
+      aspects: analyzeAspects ? parseAspectList(aspectList) : undefined,
+      keyphraseCount: 10,
+      language: language === 'auto' ? undefined : language,
     });
   };
 
@@ -90,16 +202,107 @@ export default function Dashboard() {
               onUrlsChange={setUrls}
               contentType={contentType}
             />
+            <BrandWatchlist />
             <div className="space-y-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="include-timestamps"
+                  checked={includeTimestamps}
+                  onCheckedChange={(checked) => setIncludeTimestamps(checked === true)}
+                />
+                <Label htmlFor="include-timestamps" className="text-sm text-neutral-700">
+                  Keep the timed transcript
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="force-refresh"
+                  checked={forceRefresh}
+                  onCheckedChange={(checked) => setForceRefresh(checked === true)}
+                />
+                <Label htmlFor="force-refresh" className="text-sm text-neutral-700">
+                  Fetch fresh transcripts instead of cached ones
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="analyze-comments"
+                  checked={analyzeComments}
+                  onCheckedChange={(checked) => setAnalyzeComments(checked === true)}
+                />
+                <Label htmlFor="analyze-comments" className="text-sm text-neutral-700">
+                  Also analyze top comments
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="analyze-aspects"
+                  checked={analyzeAspects}
+                  onCheckedChange={(checked) => setAnalyzeAspects(checked === true)}
+                />
+                <Label htmlFor="analyze-aspects" className="text-sm text-neutral-700">
+                  Break sentiment down by aspect
+                </Label>
+              </div>
+              {analyzeAspects && (
+                <Input
+                  value={aspectList}
+                  onChange={(event) => setAspectList(event.target.value)}
+                  placeholder="price, shipping, a competitor... (blank to detect)"
+                  aria-label="Aspects to analyze"
+                />
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="sentiment-provider" className="text-sm text-neutral-700">
+                  Sentiment engine
+                </Label>
+                <Select
+                  value={sentimentProvider}
+                  onValueChange={(value) => setSentimentProvider(value as SentimentProviderName | 'auto')}
+                >
+                  <SelectTrigger id="sentiment-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatic</SelectItem>
+                    {SENTIMENT_PROVIDERS.map(provider => (
+                      <SelectItem key={provider} value={provider} disabled={!isProviderAllowed(provider)}>
+                        {providerLabels[provider]}{isProviderAllowed(provider) ? '' : ' (upgrade)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="video-language" className="text-sm text-neutral-700">
+                  Video language
+                </Label>
+                <Select
+                  value={language}
+                  onValueChange={(value) => setLanguage(value as Language | 'auto')}
+                >
+                  <SelectTrigger id="video-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect automatically</SelectItem>
+                    {LANGUAGES.map(code => (
+                      <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <Button
                 onClick={handleAnalyze}
-                disabled={analysisMutation.isPending}
+                disabled={analysisMutation.isPending || isAnalyzing}
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white"
               >
-                {analysisMutation.isPending ? (
+                {analysisMutation.isPending || isAnalyzing ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Analyzing...
+                    {analysisResults
+                      ? `Analyzing... (${analysisResults.progress.processedVideos}/${analysisResults.progress.totalVideos})`
+                      : "Analyzing..."}
                   </>
                 ) : (
                   "Analyze Videos"
@@ -108,8 +311,13 @@ export default function Dashboard() {
             </div>
           </div>
           <div className="lg:col-span-3 space-y-6">
-            <AnalysisResults results={analysisResults?.results || []} />
-            <SummaryStats analysisResults={analysisResults} />
+            <AnalysisResults
+              results={analysisResults?.results || []}
+              progress={isAnalyzing ? urlProgress : []}
+            />
+            <SummaryStats analysisResults={analysisResults ?? null} tagLeaderboard={analysisResults?.tagLeaderboard} />
+            <TopicGroups topics={analysisResults?.topics ?? []} />
+            <AspectSummaryTable summaries={analysisResults?.aspectSummaries ?? []} />
           </div>
         </div>
       </main>
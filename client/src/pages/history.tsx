@@ -1,19 +1,46 @@
 import { Navbar } from "@/components/navbar"
 import { HistoryOverview } from "@/components/history-overview"
 import { HistoryList } from "@/components/history-list"
-import { useQuery } from "@tanstack/react-query"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { useState } from "react"
 import { useAuth } from "@/hooks/useAuth"
-import type { BatchAnalysis } from "@shared/schema"
+import { apiRequest } from "@/lib/queryClient"
+import { LANGUAGE_NAMES, LANGUAGES, type BatchAnalysis, type Language, type WatchlistTerm } from "@shared/schema"
+
+const ALL_LANGUAGES = 'all'
+// Brand options are keyed by watchlist term ID, so no brand name can collide with this
+const ALL_BRANDS = 'all'
 
 export default function HistoryPage() {
   const { isAuthenticated, isLoading: authLoading } = useAuth()
-  
-  const { data: batches, isLoading, error } = useQuery({
-    queryKey: ['/api/history'],
+  const [brand, setBrand] = useState<string | undefined>(undefined)
+  const [language, setLanguage] = useState<Language | typeof ALL_LANGUAGES>(ALL_LANGUAGES)
+
+  const { data: batches, isLoading, error } = useQuery<BatchAnalysis[]>({
+    queryKey: ['/api/history', brand, language],
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (brand) params.set('brand', brand)
+      if (language !== ALL_LANGUAGES) params.set('language', language)
+      const query = params.toString()
+      const response = await apiRequest("GET", query ? `/api/history?${query}` : '/api/history')
+      return response.json()
+    },
+    placeholderData: keepPreviousData, // Keep the list on screen while switching filters
     enabled: isAuthenticated && !authLoading, // Only fetch when fully authenticated
   })
 
+  const { data: watchlist = [] } = useQuery<WatchlistTerm[]>({
+    queryKey: ['/api/watchlist'],
+    enabled: isAuthenticated && !authLoading,
+  })
 
+  const selectedTerm = watchlist.find(term => term.brand === brand)
+  const selectBrand = (value: string) => {
+    setBrand(watchlist.find(term => String(term.id) === value)?.brand)
+  }
 
   if (authLoading || isLoading) {
     return (
@@ -52,7 +79,41 @@ export default function HistoryPage() {
       <Navbar />
       <main className="container mx-auto p-6">
         <div className="space-y-6">
-          <h1 className="text-2xl font-bold text-neutral-darkest">Analysis History</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-neutral-darkest">Analysis History</h1>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="language-filter" className="text-sm text-neutral-700">Language</Label>
+                <Select value={language} onValueChange={(value) => setLanguage(value as Language | typeof ALL_LANGUAGES)}>
+                  <SelectTrigger id="language-filter" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_LANGUAGES}>Any language</SelectItem>
+                    {LANGUAGES.map(code => (
+                      <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {watchlist.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="brand-filter" className="text-sm text-neutral-700">Mentions</Label>
+                  <Select value={selectedTerm ? String(selectedTerm.id) : ALL_BRANDS} onValueChange={selectBrand}>
+                    <SelectTrigger id="brand-filter" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_BRANDS}>Any brand</SelectItem>
+                      {watchlist.map(term => (
+                        <SelectItem key={term.id} value={String(term.id)}>{term.brand}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
           <HistoryOverview batches={batches} />
           <HistoryList batches={batches} />
         </div>
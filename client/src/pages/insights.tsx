@@ -0,0 +1,235 @@
+import { useEffect, useRef, useState } from "react";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Navbar } from "@/components/navbar";
+import { Sparkline } from "@/components/sparkline";
+import { TopicGroups } from "@/components/topic-groups";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Platform, PhraseInsightsResponse, TopicClusteringStatus, TopicWithMembers } from "@shared/schema";
+
+const ALL_PLATFORMS = 'all';
+
+const TOPIC_POLL_INTERVAL_MS = 1000;
+
+const platformNames: Record<Platform, string> = {
+  tiktok: 'TikTok',
+  reels: 'Instagram Reels',
+  shorts: 'YouTube Shorts',
+};
+
+const getPolarityColor = (polarity: number) => {
+  if (polarity > 0.1) return 'text-green-600';
+  if (polarity < -0.1) return 'text-red-600';
+  return 'text-orange-600';
+};
+
+const formatPolarity = (polarity: number) => `${polarity > 0 ? '+' : ''}${polarity.toFixed(2)}`;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function InsightsPage() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [platform, setPlatform] = useState<Platform | typeof ALL_PLATFORMS>(ALL_PLATFORMS);
+
+  const { data: insights, isLoading, error } = useQuery<PhraseInsightsResponse>({
+    queryKey: ['/api/insights/phrases', from, to, platform],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      // The end date is inclusive, so ask for everything up to the end of that day
+      if (to) params.set('to', `${to}T23:59:59.999Z`);
+      if (platform !== ALL_PLATFORMS) params.set('platform', platform);
+      const response = await apiRequest("GET", `/api/insights/phrases?${params}`);
+      return response.json();
+    },
+    placeholderData: keepPreviousData, // Keep the table on screen while filters change
+    enabled: isAuthenticated && !authLoading,
+  });
+
+  const { data: historyTopics = [] } = useQuery<TopicWithMembers[]>({
+    queryKey: ['/api/insights/topics'],
+    enabled: isAuthenticated && !authLoading,
+  });
+
+  // Clustering the whole history is on demand and runs in the background;
+  // poll its status while it runs, then re-read the themes
+  const { data: clusteringStatus } = useQuery<TopicClusteringStatus>({
+    queryKey: ['/api/insights/topics/status'],
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 0,
+    refetchInterval: (query) => (query.state.data?.clustering ? TOPIC_POLL_INTERVAL_MS : false),
+  });
+
+  const clusterMutation = useMutation({
+    mutationFn: async (): Promise<TopicClusteringStatus> => {
+      const response = await apiRequest("POST", "/api/insights/topics");
+      return response.json();
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(['/api/insights/topics/status'], status);
+    },
+  });
+
+  const isClustering = clusterMutation.isPending || clusteringStatus?.clustering === true;
+  const [hasClustered, setHasClustered] = useState(false);
+  const wasClustering = useRef(false);
+
+  useEffect(() => {
+    if (wasClustering.current && clusteringStatus?.clustering === false) {
+      queryClient.invalidateQueries({ queryKey: ['/api/insights/topics'] });
+      setHasClustered(true);
+    }
+    wasClustering.current = clusteringStatus?.clustering === true;
+  }, [clusteringStatus]);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Navbar />
+      <main className="container mx-auto p-6">
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <h1 className="text-2xl font-bold text-neutral-darkest">Insights</h1>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="insights-from" className="text-sm text-neutral-700">From</Label>
+                <Input id="insights-from" type="date" value={from} max={to} onChange={(event) => setFrom(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="insights-to" className="text-sm text-neutral-700">To</Label>
+                <Input id="insights-to" type="date" value={to} min={from} onChange={(event) => setTo(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="insights-platform" className="text-sm text-neutral-700">Platform</Label>
+                <Select value={platform} onValueChange={(value) => setPlatform(value as Platform | typeof ALL_PLATFORMS)}>
+                  <SelectTrigger id="insights-platform" className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PLATFORMS}>All platforms</SelectItem>
+                    {Object.entries(platformNames).map(([value, name]) => (
+                      <SelectItem key={value} value={value}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {authLoading || isLoading ? (
+            <div className="text-center py-8">
+              <p className="text-neutral-500">Loading insights...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-red-500">Failed to load insights. Please try again.</p>
+            </div>
+          ) : !insights || insights.trends.length === 0 ? (
+            <div className="text-center text-neutral-500 py-8">
+              <p>No recurring phrases in this range yet. Analyze more videos to see trends here.</p>
+            </div>
+          ) : (
+            <Card className="bg-neutral-100 border-neutral-200">
+              <CardContent className="p-6 space-y-2">
+                <h4 className="text-sm font-medium text-neutral-800">
+                  Recurring phrases and aspects across {insights.totalVideos} videos, by {insights.bucket}:
+                </h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-neutral-200 text-left text-neutral-700">
+                      <th className="py-2 pr-4 font-medium">Phrase</th>
+                      <th className="py-2 pr-4 font-medium">Videos</th>
+                      <th className="py-2 pr-4 font-medium">Frequency</th>
+                      <th className="py-2 pr-4 font-medium">Avg. polarity</th>
+                      <th className="py-2 pr-4 font-medium">Sentiment</th>
+                      <th className="py-2 font-medium">From</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {insights.trends.map(trend => (
+                      <tr key={`${trend.kind}:${trend.term}`} className="border-b border-neutral-100 align-top">
+                        <td className="py-2 pr-4 text-neutral-800">
+                          {trend.term}
+                          {trend.kind === 'aspect' && (
+                            <span className="ml-2 text-xs text-neutral-500">aspect</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 text-neutral-600">{trend.videoCount}</td>
+                        <td className="py-2 pr-4">
+                          <Sparkline
+                            values={trend.points.map(point => point.videoCount)}
+                            min={0}
+                            label={`Videos mentioning ${trend.term} per ${insights.bucket}`}
+                          />
+                        </td>
+                        <td className={`py-2 pr-4 font-medium ${getPolarityColor(trend.avgPolarity)}`}>
+                          {formatPolarity(trend.avgPolarity)}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <Sparkline
+                            values={trend.points.map(point => point.avgPolarity)}
+                            min={-1}
+                            max={1}
+                            color={trend.avgPolarity < -0.1 ? '#DC2626' : '#16A34A'}
+                            label={`Polarity of ${trend.term} per ${insights.bucket}`}
+                          />
+                        </td>
+                        <td className="py-2">
+                          <div className="flex flex-col gap-0.5">
+                            {trend.videos.map(video => (
+                              <a
+                                key={video.resultId}
+                                href={video.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-blue-600 hover:underline truncate max-w-[220px]"
+                                title={`${new Date(video.analyzedAt).toLocaleDateString()} · ${video.sentiment.toLowerCase()}`}
+                              >
+                                {video.url}
+                              </a>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-neutral-darkest">Themes across your history</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => clusterMutation.mutate()}
+                disabled={isClustering}
+              >
+                {isClustering && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {historyTopics.length > 0 ? "Refresh themes" : "Find themes"}
+              </Button>
+            </div>
+            {historyTopics.length > 0 ? (
+              <TopicGroups topics={historyTopics} title={`${historyTopics.length} themes:`} />
+            ) : (
+              <p className="text-sm text-neutral-500">
+                {hasClustered
+                  ? "Not enough analyzed videos to find themes yet."
+                  : "Group every video you have analyzed by the themes it covers."}
+              </p>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -72,22 +72,37 @@ const analysisLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Stricter rate limiting for re-clustering history topics; status polls are not counted
+const topicsLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // Limit each IP to 5 re-clusterings per windowMs
+  skip: (req) => req.method !== 'POST',
+  message: {
+    error: "Topic clustering rate limit exceeded",
+    message: "Please wait before finding themes again"
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Special handling for Stripe webhook - needs raw body
 app.use('/api/stripe/webhook', express.raw({ type: 'application/json' }));
 
 // Apply analysis rate limiter to analysis endpoint
 app.use('/api/analyze', analysisLimiter);
 
+// Apply topics rate limiter to re-clustering requests
+app.use('/api/insights/topics', topicsLimiter);
+
 // JSON parsing for all other routes
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
 
 // CSRF protection for all routes except webhooks and health checks
 app.use((req, res, next) => {
-  // Skip CSRF for webhooks, health checks, and admin routes
+  // Skip CSRF for webhooks and health checks
   if (req.path.startsWith('/api/stripe/webhook') || 
-      req.path === '/api/health' ||
-      req.path.startsWith('/api/admin/')) {
+      req.path === '/api/health') {
     return next();
   }
   csrfMiddleware(req, res, next);
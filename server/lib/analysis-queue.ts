@@ -0,0 +1,100 @@
+import { storage } from "../storage";
+import { BatchProcessor } from "./batch-processor";
+import { batchEventBus } from "./batch-events";
+
+type AnalysisJobKind = 'analyze' | 'retry' | 'resume';
+
+interface AnalysisJob {
+  batchId: number;
+  kind: AnalysisJobKind;
+}
+
+/**
+ * In-process job queue for batch analyses.
+ * POST /api/analyze only records a queued batch; the queue works through
+ * batches in the background so long batches never hold an HTTP request open.
+ */
+export class AnalysisQueue {
+  private pending: AnalysisJob[] = [];
+  private activeJobs = 0;
+  private concurrency: number;
+  private processor: BatchProcessor;
+
+  constructor() {
+    this.concurrency = Math.max(1, parseInt(process.env.ANALYSIS_WORKER_CONCURRENCY || '2', 10) || 1);
+    this.processor = new BatchProcessor();
+  }
+
+  enqueue(batchId: number, kind: AnalysisJobKind = 'analyze'): void {
+    this.pending.push({ batchId, kind });
+    this.drain();
+  }
+
+  /**
+   * Picks up batches left behind by a previous process.
+   * Queued batches are re-enqueued; running batches resume with the URLs
+   * that have no result row yet, keeping the results already written.
+   */
+  async recoverInterruptedJobs(): Promise<void> {
+    const batches = await storage.getBatchAnalysesByStatus(['queued', 'running']);
+
+    for (const batch of batches) {
+      if (batch.status === 'running') {
+        console.warn(`Resuming interrupted batch ${batch.id}`);
+        this.enqueue(batch.id, 'resume');
+      } else {
+        // A queued batch that already has rows was waiting on a retry of its failed URLs
+        const results = await storage.getAnalysisResultsByBatchId(batch.id);
+        this.enqueue(batch.id, results.length > 0 ? 'retry' : 'analyze');
+      }
+    }
+  }
+
+  private drain(): void {
+    while (this.activeJobs < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.activeJobs++;
+
+      this.runJob(job).finally(() => {
+        this.activeJobs--;
+        this.drain();
+      });
+    }
+  }
+
+  private async runJob({ batchId, kind }: AnalysisJob): Promise<void> {
+    try {
+      const batch = await storage.getBatchAnalysis(batchId);
+      if (!batch) {
+        console.warn(`Queued batch ${batchId} no longer exists, skipping`);
+        return;
+      }
+
+      if (kind === 'retry') {
+        await this.processor.retryFailed(batch);
+      } else if (kind === 'resume') {
+        await this.processor.resume(batch);
+      } else {
+        await this.processor.process(batch);
+      }
+    } catch (error) {
+      console.error(`Analysis job for batch ${batchId} failed:`, error);
+      const errorMessage = 'Analysis failed unexpectedly';
+      try {
+        const batch = await storage.updateBatchAnalysis(batchId, { status: 'failed', errorMessage });
+        batchEventBus.publish({
+          type: 'status',
+          batchId,
+          status: 'failed',
+          processedVideos: batch.processedVideos,
+          totalVideos: batch.totalVideos,
+          errorMessage
+        });
+      } catch (updateError) {
+        console.error(`Failed to mark batch ${batchId} as failed:`, updateError);
+      }
+    }
+  }
+}
+
+export const analysisQueue = new AnalysisQueue();
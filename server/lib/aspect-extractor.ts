@@ -0,0 +1,88 @@
+/**
+ * Aspect extraction utility for aspect-based sentiment
+ * Finds the sentences of a transcript that talk about a given product or brand aspect
+ */
+
+import { DEFAULT_LANGUAGE, MAX_ASPECTS, type Language } from "@shared/schema";
+import { getLexicon } from "./sentiment-providers/lexicons";
+import { splitIntoSentences, wholeWords } from "./sentiment-providers/text";
+
+export interface AspectMentions {
+  aspect: string;
+  sentences: string[]; // Sentences that mention the aspect, in transcript order
+}
+
+// Filler that gets capitalised in any language, never brand names; each language's stopwords are skipped too
+const NON_BRAND_WORDS = new Set(['im', 'ok', 'okay', 'oh', 'omg', 'lol', 'wow', 'guys', 'yes', 'hey', 'honestly']);
+
+// Languages that capitalise every noun, where capitals say nothing about brands
+const CAPITALISED_NOUNS: Language[] = ['de'];
+
+// A brand must be mentioned this many times before it is treated as an aspect
+const MIN_BRAND_MENTIONS = 2;
+
+// Letters of any script, with the apostrophes, ampersands and hyphens of names like "L'Oréal", "H&M" or "Coca-Cola"
+const NAME_CHARACTERS = "\\p{L}\\p{M}\\p{N}_'’&-";
+const NON_NAME_CHARACTERS = new RegExp(`[^${NAME_CHARACTERS}]`, 'gu');
+const CAPITALISED_NAME = new RegExp(`^\\p{Lu}[${NAME_CHARACTERS}]+$`, 'u');
+
+/**
+ * Brand or product names: capitalised words that recur mid-sentence,
+ * e.g. "Sephora" or "Stanley" in "honestly the Stanley cup is ..."
+ */
+function extractBrandMentions(sentences: string[], language: Language): string[] {
+  if (CAPITALISED_NOUNS.includes(language)) {
+    return [];
+  }
+
+  const stopwords = new Set(getLexicon(language).stopwords);
+  const counts = new Map<string, number>();
+  for (const sentence of sentences) {
+    const words = sentence.split(/\s+/).slice(1); // The first word is capitalised anyway
+    for (const word of words) {
+      const clean = word.replace(NON_NAME_CHARACTERS, '');
+      const lower = clean.toLowerCase();
+      if (!CAPITALISED_NAME.test(clean) || stopwords.has(lower) || NON_BRAND_WORDS.has(lower)) continue;
+      counts.set(clean, (counts.get(clean) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= MIN_BRAND_MENTIONS)
+    .sort((a, b) => b[1] - a[1])
+    .map(([brand]) => brand);
+}
+
+/**
+ * Groups transcript sentences by the aspect they mention. A user-supplied
+ * aspect list is matched literally; otherwise the default aspects of the
+ * language and any recurring brand names are looked for. Aspects that are
+ * never mentioned are left out.
+ */
+export function extractAspects(
+  transcript: string,
+  requestedAspects?: string[],
+  language: Language = DEFAULT_LANGUAGE
+): AspectMentions[] {
+  const sentences = splitIntoSentences(transcript, language);
+
+  const aspectTerms: Array<[string, string[]]> = requestedAspects && requestedAspects.length > 0
+    ? requestedAspects.map(aspect => [aspect.toLowerCase(), [aspect]])
+    : [
+      ...Object.entries(getLexicon(language).aspects),
+      ...extractBrandMentions(sentences, language).map((brand): [string, string[]] => [brand.toLowerCase(), [brand]])
+    ];
+
+  const mentions: AspectMentions[] = [];
+  for (const [aspect, terms] of aspectTerms) {
+    const pattern = wholeWords(terms, 'iu');
+    const matching = sentences.filter(sentence => pattern.test(sentence));
+    if (matching.length > 0 && !mentions.some(existing => existing.aspect === aspect)) {
+      mentions.push({ aspect, sentences: matching });
+    }
+  }
+
+  // Most discussed aspects first
+  return mentions
+    .sort((a, b) => b.sentences.length - a.sentences.length)
+    .slice(0, MAX_ASPECTS);
+}
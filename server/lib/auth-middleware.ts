@@ -67,6 +67,28 @@ export async function authenticateFirebaseToken(
   }
 }
 
+/**
+ * Admits only users listed in ADMIN_EMAILS (comma separated). Runs after
+ * authenticateFirebaseToken; with no admins configured every request is refused.
+ */
+export function requireAdmin(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  const email = typeof req.user?.email === 'string' ? req.user.email.toLowerCase() : '';
+  if (!email || !adminEmails.includes(email)) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+
+  next();
+}
+
 export function optionalAuth(
   req: AuthenticatedRequest,
   res: Response,
@@ -0,0 +1,33 @@
+import { EventEmitter } from "events";
+import type { BatchProgressEvent } from "@shared/schema";
+
+/**
+ * In-process pub/sub for batch progress.
+ * The batch processor publishes pipeline events; SSE connections subscribe per batch.
+ */
+export class BatchEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection, so the default cap of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: BatchProgressEvent): void {
+    this.emitter.emit(this.channel(event.batchId), event);
+  }
+
+  subscribe(batchId: number, listener: (event: BatchProgressEvent) => void): () => void {
+    const channel = this.channel(batchId);
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  private channel(batchId: number): string {
+    return `batch:${batchId}`;
+  }
+}
+
+export const batchEventBus = new BatchEventBus();
@@ -0,0 +1,528 @@
+import { DEFAULT_LANGUAGE, type AnalysisOptions, type AnalysisResult, type AnalysisResultWithMetadata, type AnalysisSource, type AudienceSentiment, type InsertAnalysisResult, type BatchAnalysis, type BatchUrlStage, type Language, type Platform, type ResultStatus, type TranscriptSegment, type VideoMetadata, type WatchlistTerm } from "@shared/schema";
+import { storage } from "../storage";
+import { TranscriptService, type VideoMetadataResult } from "./transcript-service";
+import { TranscriptProviderError, type ProviderVideoMetadata } from "./transcript-providers/types";
+import { SentimentService } from "./sentiment-service";
+import { planLimitsService } from "./plan-limits-service";
+import { InputSanitizer } from "./input-sanitizer";
+import { splitByPolarity } from "./phrase-extractor";
+import { buildPhraseIndexEntries } from "./phrase-insights";
+import { buildVideoTagEntries } from "./social-tags";
+import { detectLanguage, isLanguage } from "./language-detector";
+import { batchEventBus } from "./batch-events";
+import { mapWithConcurrency, urlConcurrency } from "./concurrency";
+import { UrlCanonicalizer } from "./url-canonicalizer";
+
+// Result statuses worth re-running; invalid URLs would only fail again
+export const RETRYABLE_RESULT_STATUSES: ResultStatus[] = ['no_transcript', 'provider_error'];
+
+// Transcripts shorter than this (music-only clips with a few recognised lyrics)
+// are analyzed together with the caption
+const MIN_TRANSCRIPT_WORDS = 10;
+
+interface UrlJob {
+  url: string; // As submitted
+  index: number;
+  existingResultId?: number; // Set when re-running a stored failed row in place
+}
+
+interface PreparedUrlJob extends UrlJob {
+  canonicalUrl: string | null; // Null when the submitted URL failed validation
+  platform: Platform | null;
+  invalidReason?: string;
+}
+
+/**
+ * Runs the transcript → sentiment → phrase pipeline for every URL of a queued batch
+ */
+export class BatchProcessor {
+  private transcriptService = new TranscriptService();
+  private sentimentService = new SentimentService();
+  private canonicalizer = new UrlCanonicalizer();
+
+  async process(batch: BatchAnalysis): Promise<void> {
+    const urls: string[] = JSON.parse(batch.urls || '[]');
+    const jobs = urls.map((url, index) => ({ url, index }));
+
+    await this.run(batch, jobs, 0, batch.processingTime);
+  }
+
+  /**
+   * Re-runs only the failed rows of a finished batch, updating them in place
+   */
+  async retryFailed(batch: BatchAnalysis): Promise<void> {
+    const results = await storage.getAnalysisResultsByBatchId(batch.id);
+    const jobs: UrlJob[] = [];
+    results.forEach((result, index) => {
+      if (RETRYABLE_RESULT_STATUSES.includes(result.status as ResultStatus)) {
+        jobs.push({ url: result.submittedUrl ?? result.url, index, existingResultId: result.id });
+      }
+    });
+
+    await this.run(batch, jobs, results.length - jobs.length, batch.processingTime);
+  }
+
+  /**
+   * Picks up a batch that was running when the server stopped: URLs that already
+   * have a result row are kept, the rest are analyzed now
+   */
+  async resume(batch: BatchAnalysis): Promise<void> {
+    const urls: string[] = JSON.parse(batch.urls || '[]');
+    const results = await storage.getAnalysisResultsByBatchId(batch.id);
+    const storedUrls = new Set(results.map(result => result.submittedUrl));
+    const jobs = urls
+      .map((url, index) => ({ url, index }))
+      .filter(job => !storedUrls.has(InputSanitizer.sanitizeHtml(job.url)));
+
+    await this.run(batch, jobs, results.length, batch.processingTime, results.map(result => result.url));
+  }
+
+  /**
+   * Every job holds one video of the quota reserved when the batch was queued.
+   * A video that ends up not analyzed gives its reservation back as soon as it settles.
+   */
+  private async run(
+    batch: BatchAnalysis,
+    jobs: UrlJob[],
+    alreadyProcessed: number,
+    previousProcessingTime: number,
+    storedUrls: string[] = []
+  ): Promise<void> {
+    const startTime = Date.now();
+    let unsettledVideos = jobs.length;
+    let aborted = false;
+    const releaseVideos = async (count: number) => {
+      const released = Math.min(count, unsettledVideos);
+      unsettledVideos -= released;
+      await this.releaseReservation(batch, released);
+    };
+
+    try {
+      const options = this.parseOptions(batch);
+      // Brands are looked for as the watchlist stands when the batch runs
+      const watchlist = await storage.getWatchlistTerms(batch.userId);
+      // Fallbacks stay within the sentiment providers of the user's plan, like the requested provider
+      const sentimentService = this.sentimentService.restrictedTo(await planLimitsService.getAllowedSentimentProviders(batch.userId));
+
+      await storage.updateBatchAnalysis(batch.id, { status: 'running', processedVideos: alreadyProcessed, errorMessage: null });
+      this.publishStatus(batch, 'running', alreadyProcessed);
+
+      const preparedJobs = await mapWithConcurrency(jobs, urlConcurrency, (job) => this.prepareJob(job));
+      const uniqueJobs = this.dropDuplicates(batch, preparedJobs, storedUrls);
+      unsettledVideos -= preparedJobs.length - uniqueJobs.length;
+      const totalVideos = alreadyProcessed + uniqueJobs.length;
+      if (totalVideos !== batch.totalVideos) {
+        // Duplicates give their reservation back once, when they first shrink the total
+        const droppedVideos = batch.totalVideos - totalVideos;
+        batch = await storage.updateBatchAnalysis(batch.id, { totalVideos });
+        await this.releaseReservation(batch, droppedVideos);
+      }
+
+      // URLs run side by side; provider limiters keep outbound calls within their ceilings
+      let processedVideos = alreadyProcessed;
+      let progressWrite = Promise.resolve();
+      await mapWithConcurrency(uniqueJobs, urlConcurrency, async (job) => {
+        if (aborted) {
+          return;
+        }
+
+        const result = await this.processUrl(batch, job, options, watchlist, sentimentService);
+        if (result?.status === 'ok') {
+          unsettledVideos--;
+        } else {
+          await releaseVideos(1);
+        }
+
+        // Persist progress after every URL so pollers see results as they arrive.
+        // Writes are chained so a slower update never overwrites a newer count.
+        processedVideos++;
+        const count = processedVideos;
+        progressWrite = progressWrite.then(async () => {
+          await storage.updateBatchAnalysis(batch.id, { processedVideos: count });
+          this.publishStatus(batch, 'running', count);
+        });
+        await progressWrite;
+      });
+
+      await storage.recalculateBatchSummary(batch.id);
+      await storage.updateBatchAnalysis(batch.id, {
+        status: 'completed',
+        processingTime: previousProcessingTime + (Date.now() - startTime)
+      });
+
+      this.publishStatus(batch, 'completed', processedVideos);
+    } catch (error) {
+      // URLs the failed run never got to are not analyzed, so their quota is given back
+      aborted = true;
+      await releaseVideos(unsettledVideos);
+      throw error;
+    }
+  }
+
+  // Releasing quota is best effort; it never fails the batch
+  private async releaseReservation(batch: BatchAnalysis, videoCount: number): Promise<void> {
+    try {
+      await planLimitsService.releaseVideoUsage(batch.userId, videoCount);
+    } catch (error) {
+      console.error(`Failed to release ${videoCount} reserved videos of batch ${batch.id}:`, error);
+    }
+  }
+
+  /**
+   * Validates the submitted URL, detects its platform and reduces it to the canonical video URL
+   */
+  private async prepareJob(job: UrlJob): Promise<PreparedUrlJob> {
+    let sanitizedUrl: string;
+    try {
+      sanitizedUrl = InputSanitizer.sanitizeUrl(job.url);
+    } catch (error) {
+      return {
+        ...job,
+        canonicalUrl: null,
+        platform: null,
+        invalidReason: error instanceof Error ? error.message : 'Invalid URL'
+      };
+    }
+
+    // sanitizeUrl only passes allowlisted hosts, so detection always succeeds here
+    const platform = InputSanitizer.detectPlatform(sanitizedUrl)!;
+    const canonical = await this.canonicalizer.canonicalize(sanitizedUrl, platform);
+    return { ...job, canonicalUrl: canonical.url, platform };
+  }
+
+  // Later submissions of a video already in the batch are reported and skipped
+  private dropDuplicates(batch: BatchAnalysis, jobs: PreparedUrlJob[], storedUrls: string[]): PreparedUrlJob[] {
+    const firstByUrl = new Map<string, PreparedUrlJob>();
+    const stored = new Set(storedUrls);
+
+    return jobs.filter(job => {
+      if (!job.canonicalUrl) {
+        return true;
+      }
+
+      if (stored.has(job.canonicalUrl)) {
+        this.publishUrlStage(batch, job, 'duplicate', { reason: 'Same video as a URL analyzed earlier in this batch' });
+        return false;
+      }
+
+      const first = firstByUrl.get(job.canonicalUrl);
+      if (first) {
+        this.publishUrlStage(batch, job, 'duplicate', { reason: `Same video as URL ${first.index + 1}` });
+        return false;
+      }
+
+      firstByUrl.set(job.canonicalUrl, job);
+      return true;
+    });
+  }
+
+  private async processUrl(
+    batch: BatchAnalysis,
+    job: PreparedUrlJob,
+    options: AnalysisOptions,
+    watchlist: WatchlistTerm[],
+    sentimentService: SentimentService
+  ): Promise<AnalysisResultWithMetadata | null> {
+    // Invalid and mismatched URLs fail in analyzeUrl without calling any provider
+    const metadata = this.isAnalyzable(batch, job)
+      ? await this.transcriptService.getMetadata(job.canonicalUrl, job.platform, { forceRefresh: options.forceRefresh })
+      : null;
+    const analysis = await this.analyzeUrl(batch, job, options, watchlist, sentimentService, metadata);
+
+    try {
+      const row = job.existingResultId
+        ? await storage.updateAnalysisResult(job.existingResultId, analysis)
+        : await storage.createAnalysisResult(analysis);
+      const result = { ...row, metadata: metadata ? await this.storeMetadata(row.id, metadata) : null };
+      await this.indexPhrases(batch, row);
+      await this.indexTags(batch, result);
+
+      if (result.status === 'ok') {
+        this.publishUrlStage(batch, job, 'phrases_extracted', { result });
+      } else {
+        this.publishUrlStage(batch, job, 'failed', { reason: result.errorMessage || undefined, result });
+      }
+      return result;
+    } catch (error) {
+      console.error(`Failed to store result for URL ${job.url}:`, error);
+      this.publishUrlStage(batch, job, 'failed', { reason: 'Failed to store result' });
+      return null;
+    }
+  }
+
+  private isAnalyzable(batch: BatchAnalysis, job: PreparedUrlJob): job is PreparedUrlJob & { canonicalUrl: string; platform: Platform } {
+    return !!job.canonicalUrl && !!job.platform && (batch.contentType === 'auto' || job.platform === batch.contentType);
+  }
+
+  // A metadata write failure never fails the URL itself
+  private async storeMetadata(resultId: number, metadata: VideoMetadataResult): Promise<VideoMetadata | null> {
+    try {
+      return await storage.upsertVideoMetadata({
+        resultId,
+        provider: metadata.provider,
+        creatorHandle: metadata.creatorHandle ? InputSanitizer.sanitizeText(metadata.creatorHandle) : null,
+        followerCount: metadata.followerCount ?? null,
+        caption: metadata.caption ? InputSanitizer.sanitizeText(metadata.caption) : null,
+        hashtags: JSON.stringify((metadata.hashtags || []).map(tag => InputSanitizer.sanitizeText(tag))),
+        viewCount: metadata.viewCount ?? null,
+        likeCount: metadata.likeCount ?? null,
+        commentCount: metadata.commentCount ?? null,
+        shareCount: metadata.shareCount ?? null,
+        durationSeconds: metadata.durationSeconds ?? null,
+        publishedAt: metadata.publishedAt ?? null,
+        fetchedAt: metadata.fetchedAt
+      });
+    } catch (error) {
+      console.error(`Failed to store video metadata for result ${resultId}:`, error);
+      return null;
+    }
+  }
+
+  // Like metadata, the cross-batch phrase index is best effort
+  private async indexPhrases(batch: BatchAnalysis, result: AnalysisResult): Promise<void> {
+    try {
+      await storage.replacePhraseIndexEntries(result.id, buildPhraseIndexEntries(batch.userId, result));
+    } catch (error) {
+      console.error(`Failed to index phrases for result ${result.id}:`, error);
+    }
+  }
+
+  // Hashtags and mentions are best effort too; caption tags come from the stored metadata
+  private async indexTags(batch: BatchAnalysis, result: AnalysisResultWithMetadata): Promise<void> {
+    try {
+      await storage.replaceVideoTags(result.id, buildVideoTagEntries(batch.userId, result, result.metadata));
+    } catch (error) {
+      console.error(`Failed to index hashtags and mentions for result ${result.id}:`, error);
+    }
+  }
+
+  /**
+   * Builds the result row for one URL. Failures become rows too, with placeholder
+   * sentiment values that batch aggregates skip.
+   */
+  private async analyzeUrl(
+    batch: BatchAnalysis,
+    job: PreparedUrlJob,
+    options: AnalysisOptions,
+    watchlist: WatchlistTerm[],
+    sentimentService: SentimentService,
+    metadata: ProviderVideoMetadata | null
+  ): Promise<InsertAnalysisResult> {
+    const failure = (
+      url: string,
+      status: ResultStatus,
+      errorCode: string,
+      errorMessage: string,
+      transcriptProvider: string | null = this.transcriptService.providerName
+    ): InsertAnalysisResult => ({
+      batchId: batch.id,
+      url,
+      submittedUrl: InputSanitizer.sanitizeHtml(job.url),
+      platform: job.platform ?? batch.contentType,
+      transcript: '',
+      sentiment: 'NEUTRAL',
+      confidence: 0,
+      wordCount: 0,
+      sentimentScores: null,
+      emotions: null,
+      commonPositivePhrases: JSON.stringify([]),
+      commonNegativePhrases: JSON.stringify([]),
+      keyphrases: null,
+      status,
+      errorCode,
+      errorMessage,
+      transcriptProvider,
+      transcriptSegments: null,
+      sentimentTimeline: null,
+      audienceSentiment: null,
+      aspectSentiments: null,
+      brandMentions: null,
+      source: null,
+      language: null,
+      sentimentProvider: null,
+      sentimentModel: null,
+      sentimentProviderVersion: null
+    });
+
+    const { canonicalUrl, platform } = job;
+    if (!canonicalUrl || !platform) {
+      return failure(InputSanitizer.sanitizeHtml(job.url), 'invalid_url', 'INVALID_URL', job.invalidReason || 'Invalid URL', null);
+    }
+    if (batch.contentType !== 'auto' && platform !== batch.contentType) {
+      return failure(canonicalUrl, 'invalid_url', 'PLATFORM_MISMATCH', `URL is not a ${batch.contentType} video`, null);
+    }
+
+    try {
+      // Get transcript
+      const transcriptResult = await this.transcriptService.getTranscript(canonicalUrl, platform, {
+        forceRefresh: options.forceRefresh,
+        language: options.language
+      });
+      // Fall back to the caption and hashtags when nothing (or almost nothing) was spoken
+      const content = this.selectContent(transcriptResult?.text ?? null, metadata);
+      if (!content) {
+        console.warn(`No transcript or caption available for ${canonicalUrl}`);
+        return failure(canonicalUrl, 'no_transcript', 'NO_TRANSCRIPT', 'No transcript or caption available');
+      }
+      const transcript = content.text;
+      const segments = content.source === 'transcript' ? transcriptResult?.segments ?? null : null;
+      const language = this.resolveLanguage(transcript, transcriptResult?.language ?? null, options);
+      this.publishUrlStage(batch, job, 'transcript_fetched');
+
+      // Analyze sentiment
+      const sentimentResult = await sentimentService.analyzeSentiment(transcript, options.sentimentProvider, language);
+      const timeline = await sentimentService.analyzeTimeline(transcript, segments, options.sentimentProvider, language);
+      const audience = options.analyzeComments ? await this.analyzeComments(canonicalUrl, platform, options, sentimentService, language) : null;
+      const aspects = options.analyzeAspects
+        ? await sentimentService.analyzeAspects(transcript, options.aspects, options.sentimentProvider, language)
+        : null;
+      const brandMentions = watchlist.length > 0
+        ? await sentimentService.analyzeBrandMentions(transcript, watchlist, options.sentimentProvider, language)
+        : null;
+      this.publishUrlStage(batch, job, 'sentiment_scored');
+
+      // Rank keyphrases and split them by the sentiment they were said with
+      const keyphrases = await sentimentService.analyzeKeyphrases(transcript, options.keyphraseCount, options.sentimentProvider, language);
+      const extractedPhrases = splitByPolarity(keyphrases);
+
+      return {
+        batchId: batch.id,
+        url: canonicalUrl,
+        submittedUrl: InputSanitizer.sanitizeHtml(job.url),
+        platform,
+        transcript: InputSanitizer.sanitizeText(transcript),
+        sentiment: sentimentResult.sentiment,
+        confidence: sentimentResult.confidence,
+        wordCount: transcript.split(' ').length,
+        sentimentScores: JSON.stringify(sentimentResult.scores),
+        emotions: sentimentResult.emotions ? JSON.stringify(sentimentResult.emotions) : null,
+        commonPositivePhrases: JSON.stringify(extractedPhrases.positivePhrases),
+        commonNegativePhrases: JSON.stringify(extractedPhrases.negativePhrases),
+        keyphrases: JSON.stringify(keyphrases),
+        status: 'ok',
+        errorCode: null,
+        errorMessage: null,
+        transcriptProvider: transcriptResult?.provider ?? this.transcriptService.providerName,
+        transcriptCacheHit: transcriptResult?.cached ?? false,
+        // Timed segments are only kept when the request asked for them
+        transcriptSegments: options.includeTimestamps && segments
+          ? JSON.stringify(this.sanitizeSegments(segments))
+          : null,
+        sentimentTimeline: JSON.stringify(timeline.map(point => ({ ...point, text: InputSanitizer.sanitizeText(point.text) }))),
+        audienceSentiment: audience ? JSON.stringify(audience) : null,
+        aspectSentiments: aspects
+          ? JSON.stringify(aspects.map(aspect => ({ ...aspect, snippets: aspect.snippets.map(snippet => InputSanitizer.sanitizeText(snippet)) })))
+          : null,
+        brandMentions: brandMentions
+          ? JSON.stringify(brandMentions.map(mention => ({
+            ...mention,
+            snippets: mention.snippets.map(snippet => ({ ...snippet, text: InputSanitizer.sanitizeText(snippet.text) }))
+          })))
+          : null,
+        source: content.source,
+        language,
+        sentimentProvider: sentimentResult.provider,
+        sentimentModel: sentimentResult.model,
+        sentimentProviderVersion: sentimentResult.providerVersion
+      };
+    } catch (error) {
+      console.error(`Error processing URL ${job.url}:`, error);
+      const isProviderError = error instanceof TranscriptProviderError;
+      return failure(
+        canonicalUrl,
+        'provider_error',
+        isProviderError ? error.code : 'PROCESSING_FAILED',
+        isProviderError ? error.message : 'Error processing video'
+      );
+    }
+  }
+
+  /**
+   * Picks the text to analyze: the spoken transcript, the caption and hashtags
+   * when there is no transcript, or both when the transcript is very short
+   */
+  private selectContent(
+    transcript: string | null,
+    metadata: ProviderVideoMetadata | null
+  ): { text: string; source: AnalysisSource } | null {
+    const caption = this.buildCaptionText(metadata);
+    const wordCount = transcript ? transcript.split(/\s+/).length : 0;
+
+    if (transcript && (wordCount >= MIN_TRANSCRIPT_WORDS || !caption)) {
+      return { text: transcript, source: 'transcript' };
+    }
+    if (transcript && caption) {
+      return { text: `${transcript} ${caption}`, source: 'combined' };
+    }
+    return caption ? { text: caption, source: 'caption' } : null;
+  }
+
+  // Hashtags missing from the caption text are appended so they are analyzed too
+  private buildCaptionText(metadata: ProviderVideoMetadata | null): string | null {
+    const caption = metadata?.caption?.trim() || '';
+    const extraHashtags = (metadata?.hashtags || [])
+      .filter(tag => !caption.toLowerCase().includes(`#${tag.toLowerCase()}`))
+      .map(tag => `#${tag}`);
+
+    const text = [caption, ...extraHashtags].filter(Boolean).join(' ');
+    return text || null;
+  }
+
+  /**
+   * The language to analyze the text in: what the detector recognises, else
+   * the language the request asked for, else what the provider reported
+   */
+  private resolveLanguage(text: string, transcriptLanguage: string | null, options: AnalysisOptions): Language {
+    return detectLanguage(text)
+      ?? options.language
+      ?? (isLanguage(transcriptLanguage) ? transcriptLanguage : DEFAULT_LANGUAGE);
+  }
+
+  private async analyzeComments(
+    url: string,
+    platform: Platform,
+    options: AnalysisOptions,
+    sentimentService: SentimentService,
+    language: Language
+  ): Promise<AudienceSentiment | null> {
+    const comments = await this.transcriptService.getComments(url, platform, options.commentLimit);
+    return sentimentService.analyzeAudience(
+      comments.map(comment => InputSanitizer.sanitizeText(comment.text)),
+      options.sentimentProvider,
+      language
+    );
+  }
+
+  private sanitizeSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+    return segments.map(segment => ({ ...segment, text: InputSanitizer.sanitizeText(segment.text) }));
+  }
+
+  private parseOptions(batch: BatchAnalysis): AnalysisOptions {
+    const defaults: AnalysisOptions = { includeTimestamps: false, forceRefresh: false, analyzeComments: false, commentLimit: 20, analyzeAspects: false, keyphraseCount: 10 };
+    try {
+      return { ...defaults, ...JSON.parse(batch.options || '{}') };
+    } catch (error) {
+      console.warn(`Failed to parse analysis options for batch ${batch.id}`);
+      return defaults;
+    }
+  }
+
+  private publishUrlStage(
+    batch: BatchAnalysis,
+    job: UrlJob,
+    stage: BatchUrlStage,
+    details: { reason?: string; result?: AnalysisResultWithMetadata } = {}
+  ): void {
+    batchEventBus.publish({ type: 'url', batchId: batch.id, url: job.url, index: job.index, stage, ...details });
+  }
+
+  private publishStatus(batch: BatchAnalysis, status: 'running' | 'completed', processedVideos: number): void {
+    batchEventBus.publish({
+      type: 'status',
+      batchId: batch.id,
+      status,
+      processedVideos,
+      totalVideos: batch.totalVideos
+    });
+  }
+}
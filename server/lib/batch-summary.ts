@@ -0,0 +1,174 @@
+import {
+  EMOTIONS,
+  type AnalysisResult,
+  type AnalyzeVideosResponse,
+  type AspectSentiment,
+  type InsertBatchAspectSummary,
+  type SentimentCounts,
+  type SentimentLabel
+} from "@shared/schema";
+import { emotionScoresSchema, normalizeEmotions, type EmotionScores } from "@shared/sentiment-scale";
+import { clusterTopics } from "./topic-model";
+import { isLanguage } from "./language-detector";
+
+/**
+ * Mean intensity of each emotion over the results that carry emotions,
+ * or null when none do
+ */
+function averageEmotions(results: AnalysisResult[]): EmotionScores | null {
+  const totals: Partial<Record<keyof EmotionScores, number>> = {};
+  let count = 0;
+
+  for (const result of results) {
+    if (!result.emotions) continue;
+    try {
+      const emotions = emotionScoresSchema.parse(JSON.parse(result.emotions));
+      EMOTIONS.forEach(emotion => {
+        totals[emotion] = (totals[emotion] ?? 0) + emotions[emotion];
+      });
+      count++;
+    } catch (error) {
+      console.warn(`Failed to parse emotions for result ${result.id}`);
+    }
+  }
+
+  if (count === 0) {
+    return null;
+  }
+  return normalizeEmotions(Object.fromEntries(EMOTIONS.map(emotion => [emotion, (totals[emotion] ?? 0) / count])));
+}
+
+export type BatchSummary = Omit<AnalyzeVideosResponse['summary'], 'totalVideos' | 'processingTime'>;
+
+/**
+ * Aggregates stored analysis results into the batch summary figures.
+ * Only successfully analyzed rows feed the sentiment math; failed rows are just counted.
+ */
+export function summarizeBatchResults(allResults: AnalysisResult[]): BatchSummary {
+  const results = allResults.filter(result => result.status === 'ok');
+  let totalWords = 0;
+  let totalConfidence = 0;
+  const sentimentCounts: SentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 };
+  const sentimentScores = { positive: 0, neutral: 0, negative: 0, mixed: 0 };
+
+  for (const result of results) {
+    totalWords += result.wordCount || 0;
+    totalConfidence += result.confidence || 0;
+
+    if (sentimentCounts.hasOwnProperty(result.sentiment)) {
+      sentimentCounts[result.sentiment as keyof typeof sentimentCounts]++;
+    }
+
+    if (result.sentimentScores) {
+      try {
+        const scores = JSON.parse(result.sentimentScores);
+        sentimentScores.positive += scores.positive || 0;
+        sentimentScores.neutral += scores.neutral || 0;
+        sentimentScores.negative += scores.negative || 0;
+        sentimentScores.mixed += scores.mixed || 0;
+      } catch (error) {
+        console.warn(`Failed to parse sentiment scores for result ${result.id}`);
+      }
+    }
+  }
+
+  // Average sentiment scores across all videos
+  if (results.length > 0) {
+    sentimentScores.positive = sentimentScores.positive / results.length;
+    sentimentScores.neutral = sentimentScores.neutral / results.length;
+    sentimentScores.negative = sentimentScores.negative / results.length;
+    sentimentScores.mixed = sentimentScores.mixed / results.length;
+  }
+
+  return {
+    failedVideos: allResults.length - results.length,
+    cacheHits: allResults.filter(result => result.transcriptCacheHit).length,
+    totalWords,
+    avgConfidence: results.length > 0 ? totalConfidence / results.length : 0,
+    sentimentCounts,
+    sentimentScores,
+    emotionScores: averageEmotions(results)
+  };
+}
+
+/**
+ * Rolls the per-video aspect sentiments of a batch up into one row per aspect.
+ * Polarity is averaged per video, so one long rant doesn't outweigh the rest.
+ */
+export function summarizeAspects(batchId: number, allResults: AnalysisResult[]): InsertBatchAspectSummary[] {
+  const byAspect = new Map<string, InsertBatchAspectSummary & { totalPolarity: number; counts: SentimentCounts }>();
+
+  for (const result of allResults) {
+    if (result.status !== 'ok' || !result.aspectSentiments) continue;
+
+    let aspects: AspectSentiment[];
+    try {
+      aspects = JSON.parse(result.aspectSentiments);
+    } catch (error) {
+      console.warn(`Failed to parse aspect sentiments for result ${result.id}`);
+      continue;
+    }
+
+    for (const aspect of aspects) {
+      const summary = byAspect.get(aspect.aspect) ?? {
+        batchId,
+        aspect: aspect.aspect,
+        videoCount: 0,
+        mentionCount: 0,
+        avgPolarity: 0,
+        sentimentCounts: '',
+        totalPolarity: 0,
+        counts: { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 }
+      };
+      summary.videoCount++;
+      summary.mentionCount += aspect.mentions;
+      summary.totalPolarity += aspect.polarity;
+      if (summary.counts.hasOwnProperty(aspect.sentiment)) {
+        summary.counts[aspect.sentiment]++;
+      }
+      byAspect.set(aspect.aspect, summary);
+    }
+  }
+
+  return Array.from(byAspect.values()).map(({ totalPolarity, counts, ...summary }) => ({
+    ...summary,
+    avgPolarity: Math.round((totalPolarity / summary.videoCount) * 100) / 100,
+    sentimentCounts: JSON.stringify(counts)
+  }));
+}
+
+// A clustered theme ready to be stored, before it has a topic id
+export interface TopicSummary {
+  terms: string[];
+  sentimentCounts: SentimentCounts;
+  members: Array<{ resultId: number; similarity: number }>;
+}
+
+/**
+ * Clusters the transcripts of successfully analyzed videos into themes and
+ * counts the sentiment of the videos in each
+ */
+export function summarizeTopics(allResults: AnalysisResult[]): TopicSummary[] {
+  const results = allResults.filter(result => result.status === 'ok' && result.transcript);
+  const sentimentById = new Map(results.map(result => [result.id, result.sentiment as SentimentLabel]));
+
+  const documents = results.map(result => ({
+    id: result.id,
+    text: result.transcript,
+    language: isLanguage(result.language) ? result.language : undefined
+  }));
+  return clusterTopics(documents).map(topic => {
+    const sentimentCounts: SentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 };
+    for (const member of topic.members) {
+      const sentiment = sentimentById.get(member.id);
+      if (sentiment && sentimentCounts.hasOwnProperty(sentiment)) {
+        sentimentCounts[sentiment]++;
+      }
+    }
+    return {
+      terms: topic.terms,
+      sentimentCounts,
+      members: topic.members.map(member => ({ resultId: member.id, similarity: member.similarity }))
+    };
+  });
+}
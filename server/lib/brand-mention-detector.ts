@@ -0,0 +1,54 @@
+/**
+ * Brand mention detection for account watchlists
+ * Finds every place a watched brand (or one of its aliases) is said in a transcript
+ */
+
+import type { WatchlistTerm } from "@shared/schema";
+import { wholeWords } from "./sentiment-providers/text";
+
+export interface BrandOccurrences {
+  brand: string;
+  snippets: string[]; // Text around each mention, in transcript order
+}
+
+// Words kept on either side of a mention. Transcripts are often unpunctuated,
+// so a fixed window is more reliable than the surrounding sentence.
+const CONTEXT_WORDS = 12;
+
+/**
+ * The brand name and its stored aliases, longest first so "Glossier You"
+ * wins over "Glossier" when both are listed
+ */
+function brandTerms(term: WatchlistTerm): string[] {
+  let aliases: unknown = [];
+  try {
+    aliases = JSON.parse(term.aliases);
+  } catch {
+    // Unreadable aliases just leave the brand name itself
+  }
+  const terms = [term.brand, ...(Array.isArray(aliases) ? aliases.filter((alias): alias is string => typeof alias === 'string') : [])];
+  return Array.from(new Set(terms.map(value => value.trim()).filter(Boolean)))
+    .sort((a, b) => b.length - a.length);
+}
+
+function surroundingText(text: string, start: number, end: number): string {
+  const before = text.slice(0, start).split(/\s+/).slice(-CONTEXT_WORDS).join(' ');
+  const after = text.slice(end).split(/\s+/).slice(0, CONTEXT_WORDS + 1).join(' ');
+  return `${before}${text.slice(start, end)}${after}`.trim();
+}
+
+/**
+ * Finds the mentions of each watchlist brand. Matching is case-insensitive on
+ * whole words, accented letters included, so "Nike" matches "nike" but not
+ * "Nikes" and "Café" not "Cafés". Every term gets an entry, with no snippets
+ * when the brand is never said.
+ */
+export function detectBrandMentions(transcript: string, watchlist: WatchlistTerm[]): BrandOccurrences[] {
+  return watchlist.map(term => {
+    const pattern = wholeWords(brandTerms(term), 'giu');
+    const snippets = Array.from(transcript.matchAll(pattern), match =>
+      surroundingText(transcript, match.index!, match.index! + match[0].length)
+    );
+    return { brand: term.brand, snippets };
+  });
+}
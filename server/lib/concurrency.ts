@@ -0,0 +1,102 @@
+/**
+ * Concurrency and rate limiting helpers for outbound provider calls
+ */
+
+const ONE_MINUTE_MS = 60 * 1000;
+
+function readLimit(envName: string, fallback: number): number {
+  const value = parseInt(process.env[envName] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Caps in-flight calls and calls started per minute for a single provider.
+ * Shared by every batch so limits hold across concurrent jobs.
+ */
+export class ProviderLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private recentStarts: number[] = [];
+
+  constructor(
+    readonly name: string,
+    private maxConcurrent: number,
+    private maxPerMinute: number
+  ) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    while (this.active >= this.maxConcurrent) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    // Hold the slot until the sliding one-minute window has room
+    while (true) {
+      const now = Date.now();
+      this.recentStarts = this.recentStarts.filter(start => now - start < ONE_MINUTE_MS);
+
+      if (this.recentStarts.length < this.maxPerMinute) {
+        this.recentStarts.push(now);
+        return;
+      }
+
+      const waitMs = ONE_MINUTE_MS - (now - this.recentStarts[0]);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+function createLimiter(name: string, envPrefix: string, defaultConcurrency: number, defaultPerMinute: number): ProviderLimiter {
+  return new ProviderLimiter(
+    name,
+    readLimit(`${envPrefix}_MAX_CONCURRENCY`, defaultConcurrency),
+    readLimit(`${envPrefix}_RATE_PER_MINUTE`, defaultPerMinute)
+  );
+}
+
+export const providerLimiters = {
+  scrapeCreators: createLimiter('scrapecreators', 'SCRAPECREATORS', 3, 60),
+  openai: createLimiter('openai', 'OPENAI', 4, 300),
+  awsComprehend: createLimiter('aws-comprehend', 'AWS_COMPREHEND', 5, 1200),
+};
+
+/**
+ * Number of URLs of one batch processed at the same time
+ */
+export const urlConcurrency = readLimit('ANALYSIS_URL_CONCURRENCY', 5);
+
+/**
+ * Runs worker over items with at most `limit` in flight, preserving input order in the output
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
@@ -1,10 +1,21 @@
 import DOMPurify from 'dompurify';
 import { JSDOM } from 'jsdom';
+import type { Platform } from '@shared/schema';
 
 // Create a DOMPurify instance for server-side use
 const window = new JSDOM('').window;
 const purify = DOMPurify(window as any);
 
+// Hosts accepted for each platform; together they form the URL allowlist
+const PLATFORM_DOMAINS: Record<Platform, string[]> = {
+  tiktok: ['tiktok.com', 'www.tiktok.com', 'vm.tiktok.com'],
+  reels: ['instagram.com', 'www.instagram.com'],
+  shorts: ['youtube.com', 'www.youtube.com', 'youtu.be', 'm.youtube.com'],
+};
+
+const matchesDomain = (hostname: string, domain: string) =>
+  hostname === domain || hostname.endsWith('.' + domain);
+
 export class InputSanitizer {
   /**
    * Sanitize HTML content to prevent XSS attacks
@@ -37,24 +48,8 @@ export class InputSanitizer {
       }
 
       // Validate against allowed domains
-      const allowedDomains = [
-        'tiktok.com',
-        'www.tiktok.com',
-        'vm.tiktok.com',
-        'instagram.com',
-        'www.instagram.com',
-        'youtube.com',
-        'www.youtube.com',
-        'youtu.be',
-        'm.youtube.com'
-      ];
-
       const hostname = urlObj.hostname.toLowerCase();
-      const isAllowed = allowedDomains.some(domain => 
-        hostname === domain || hostname.endsWith('.' + domain)
-      );
-
-      if (!isAllowed) {
+      if (!this.detectPlatformFromHost(hostname)) {
         throw new Error(`Domain not allowed: ${hostname}`);
       }
 
@@ -64,6 +59,24 @@ export class InputSanitizer {
     }
   }
 
+  /**
+   * Infer the platform of a URL from its host, or null for hosts outside the allowlist
+   */
+  static detectPlatform(url: string): Platform | null {
+    try {
+      return this.detectPlatformFromHost(new URL(url).hostname.toLowerCase());
+    } catch {
+      return null;
+    }
+  }
+
+  private static detectPlatformFromHost(hostname: string): Platform | null {
+    const match = Object.entries(PLATFORM_DOMAINS).find(([, domains]) =>
+      domains.some(domain => matchesDomain(hostname, domain))
+    );
+    return match ? match[0] as Platform : null;
+  }
+
   /**
    * Sanitize general text input
    */
@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectLanguage, isLanguage } from "./language-detector";
+
+describe("detectLanguage", () => {
+  it("tells apart every supported language", () => {
+    assert.equal(detectLanguage("honestly this is the best serum I have tried and it is so worth it"), 'en');
+    assert.equal(detectLanguage("la verdad es que estoy muy contento con el producto, lo uso todos los días"), 'es');
+    assert.equal(detectLanguage("eu adorei esse produto, é muito bom e você precisa ter um"), 'pt');
+    assert.equal(detectLanguage("je trouve que cette crème est très bien mais un peu chère pour nous"), 'fr');
+    assert.equal(detectLanguage("ich finde das Produkt sehr gut und die Lieferung war auch schnell"), 'de');
+  });
+
+  it("does not count words Spanish and Portuguese share as Spanish", () => {
+    assert.equal(detectLanguage("Eu acho que este produto é muito bom, por isso que eu recomendo para todo mundo"), 'pt');
+  });
+
+  it("uses distinctive letters as evidence", () => {
+    assert.equal(detectLanguage("ñam ñam, ¡qué rico mañana!"), 'es');
+  });
+
+  it("returns null when there is too little text", () => {
+    assert.equal(detectLanguage("wow"), null);
+    assert.equal(detectLanguage("🔥🔥🔥"), null);
+  });
+
+  it("returns null when no language clearly leads", () => {
+    assert.equal(detectLanguage("this is the moment, c'est très bien"), null);
+  });
+});
+
+describe("isLanguage", () => {
+  it("accepts supported language codes only", () => {
+    assert.equal(isLanguage('pt'), true);
+    assert.equal(isLanguage('it'), false);
+    assert.equal(isLanguage(undefined), false);
+  });
+});
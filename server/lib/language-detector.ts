@@ -0,0 +1,89 @@
+/**
+ * Offline language detection for transcripts and captions. Counts the most
+ * frequent function words of each supported language, which short and
+ * unpunctuated speech-to-text output still contains plenty of.
+ */
+
+import { LANGUAGES, type Language } from "@shared/schema";
+
+// Function words per language. Words that several languages use often ("a",
+// "de", "que", "por", "so") are left out, so every hit is evidence for one
+// language only.
+const FUNCTION_WORDS: Record<Language, string[]> = {
+  en: [
+    'the', 'and', 'is', 'it', 'this', 'that', 'you', 'of', 'to', 'with', 'for', 'have', 'are', 'there',
+    'my', 'i', 'would', 'just', 'but', 'what', 'they', 'be', 'not', 'at', 'your', 'if', 'all', 'really', 'we', 'about'
+  ],
+  es: [
+    'el', 'los', 'las', 'y', 'estoy', 'del', 'bueno', 'una', 'muy', 'pero', 'esto', 'mucho', 'hacer', 'con',
+    'mi', 'lo', 'yo', 'más', 'también', 'hay', 'tiene', 'están', 'cuando', 'pues', 'ahora', 'hoy', 'eso', 'usted', 'ellos', 'aquí'
+  ],
+  pt: [
+    'estou', 'os', 'e', 'é', 'coisa', 'uma', 'fazer', 'dos', 'não', 'muito', 'mas', 'isso', 'isto', 'com',
+    'meu', 'minha', 'eu', 'são', 'você', 'também', 'tem', 'tudo', 'quando', 'ele', 'ela', 'então', 'já', 'pra', 'né', 'agora'
+  ],
+  fr: [
+    'le', 'les', 'et', 'est', 'un', 'une', 'des', 'du', 'très', 'mais', 'ce', 'cette', 'c\'est', 'avec',
+    'pour', 'mon', 'je', 'vous', 'sont', 'comme', 'plus', 'aussi', 'parce', 'il', 'elle', 'nous', 'pas', 'tout', 'bien', 'quand'
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'ein', 'eine', 'nicht', 'sehr', 'aber', 'dieses', 'diese', 'mit', 'für',
+    'mein', 'ich', 'sie', 'sind', 'wie', 'mehr', 'auch', 'weil', 'wir', 'auf', 'zu', 'den', 'dem', 'ganz', 'wenn', 'heute'
+  ]
+};
+
+// Letters that only (or mostly) occur in one language, weighted like half a function word each
+const DISTINCTIVE_LETTERS: Partial<Record<Language, string>> = {
+  es: 'ñ¿¡',
+  pt: 'ãõ',
+  fr: 'èêëœ',
+  de: 'ßäöü'
+};
+
+// Below this many hits the text is too short to tell
+const MIN_EVIDENCE = 2;
+
+// The winner must lead the runner-up by this factor, otherwise the text is ambiguous
+const MIN_LEAD = 1.5;
+
+// A word listed for more than one language is no evidence either way, so it never scores
+const sharedWords = new Set(LANGUAGES.flatMap(language =>
+  FUNCTION_WORDS[language].filter(word => LANGUAGES.some(other => other !== language && FUNCTION_WORDS[other].includes(word)))
+));
+
+const wordSets = LANGUAGES.map(language => ({
+  language,
+  words: new Set(FUNCTION_WORDS[language].filter(word => !sharedWords.has(word)))
+}));
+
+const WORD_PATTERN = new RegExp('[\\p{L}\']+', 'gu');
+
+/**
+ * The language the text is most likely written in, or null when there is
+ * too little text (or too even a split) to say
+ */
+export function detectLanguage(text: string): Language | null {
+  const lower = text.toLowerCase();
+  const words = lower.match(WORD_PATTERN) || [];
+  if (words.length === 0) {
+    return null;
+  }
+
+  const evidence = wordSets.map(({ language, words: functionWords }) => {
+    let score = words.filter(word => functionWords.has(word)).length;
+    for (const letter of DISTINCTIVE_LETTERS[language] || '') {
+      score += (lower.split(letter).length - 1) * 0.5;
+    }
+    return { language, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = evidence;
+  if (best.score < MIN_EVIDENCE || best.score < runnerUp.score * MIN_LEAD) {
+    return null;
+  }
+  return best.language;
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (LANGUAGES as readonly string[]).includes(value);
+}
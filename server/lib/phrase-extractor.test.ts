@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Keyphrase } from "@shared/schema";
+import { contentWords, getBestNegativePhrase, getBestPositivePhrase, rankKeyphrases, splitByPolarity } from "./phrase-extractor";
+
+const keyphrase = (phrase: string, polarity: number): Keyphrase => ({
+  phrase,
+  score: 1,
+  occurrences: 1,
+  sentiment: polarity > 0 ? 'POSITIVE' : polarity < 0 ? 'NEGATIVE' : 'NEUTRAL',
+  polarity
+});
+
+describe("contentWords", () => {
+  it("drops stopwords, filler, numbers and single letters", () => {
+    assert.deepEqual(contentWords("Um, so I literally bought 2 of these wireless earbuds, you know"), ['bought', 'wireless', 'earbuds']);
+  });
+
+  it("keeps accented words whole and uses the stopwords of the language", () => {
+    assert.deepEqual(contentWords("La crème hydratante de L’Oréal, c’est très douce", 'fr'), ['crème', 'hydratante', "l'oréal", 'douce']);
+    assert.deepEqual(contentWords("eu acho que a máscara é ótima", 'pt'), ['máscara', 'ótima']);
+  });
+});
+
+describe("rankKeyphrases", () => {
+  const transcript = [
+    'The battery life on these earbuds is amazing.',
+    'Honestly the battery life is fine all week.',
+    'The case is cheap though.',
+    'And the battery life is better than my old pair.'
+  ].join(' ');
+
+  it("ranks repeated multi-word phrases first and scores relative to the top phrase", () => {
+    const ranked = rankKeyphrases(transcript, 3);
+    assert.equal(ranked.length, 3);
+    assert.equal(ranked[0].phrase, 'battery life');
+    assert.equal(ranked[0].score, 1);
+    assert.equal(ranked[0].occurrences, 3);
+    assert.ok(ranked.every(phrase => phrase.score > 0 && phrase.score <= 1));
+  });
+
+  it("keeps the sentences each phrase was said in", () => {
+    const [top] = rankKeyphrases(transcript, 1);
+    assert.deepEqual(top.sentences, [
+      'The battery life on these earbuds is amazing',
+      'Honestly the battery life is fine all week',
+      'And the battery life is better than my old pair'
+    ]);
+  });
+
+  it("splits phrases at commas and dashes as well as stopwords", () => {
+    const phrases = rankKeyphrases('Great sound, tiny case - solid hinge', 10).map(ranked => ranked.phrase);
+    assert.deepEqual(phrases.sort(), ['great sound', 'solid hinge', 'tiny case']);
+  });
+
+  it("drops run-on candidates longer than four words", () => {
+    const phrases = rankKeyphrases('premium aluminium unibody chassis design looks nice', 10).map(ranked => ranked.phrase);
+    assert.ok(phrases.every(phrase => phrase.split(' ').length <= 4));
+  });
+
+  it("ranks phrases in other languages", () => {
+    const phrases = rankKeyphrases('El protector solar es increíble. Pero el protector solar es caro. ¿Y la textura?', 2, 'es');
+    assert.equal(phrases[0].phrase, 'protector solar');
+    assert.equal(phrases[0].occurrences, 2);
+  });
+
+  it("returns nothing for a transcript of only stopwords", () => {
+    assert.deepEqual(rankKeyphrases('um so like yeah you know', 5), []);
+  });
+});
+
+describe("phrase polarity helpers", () => {
+  const keyphrases = [keyphrase('case', -0.1), keyphrase('battery life', 0.6), keyphrase('hinge', -0.5), keyphrase('sound', 0.3)];
+
+  it("picks the top-ranked phrase past the threshold on each side", () => {
+    assert.equal(getBestPositivePhrase(keyphrases), 'battery life');
+    assert.equal(getBestNegativePhrase(keyphrases), 'hinge');
+    assert.equal(getBestNegativePhrase([keyphrase('case', -0.1)]), null);
+  });
+
+  it("splits phrases by polarity and leaves near-neutral ones out", () => {
+    assert.deepEqual(splitByPolarity(keyphrases), { positivePhrases: ['battery life', 'sound'], negativePhrases: ['hinge'] });
+  });
+});
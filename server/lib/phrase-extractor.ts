@@ -1,150 +1,164 @@
 /**
- * Phrase extraction utility for sentiment analysis
- * Extracts meaningful positive and negative phrases from transcripts
+ * Keyphrase extraction utility for sentiment analysis
+ * Ranks the phrases a transcript is about with RAKE, weighted by TF-IDF across its sentences
  */
 
-interface ExtractedPhrases {
-  positivePhrases: string[];
-  negativePhrases: string[];
+import { DEFAULT_LANGUAGE, type Keyphrase, type Language } from "@shared/schema";
+import { getLexicon } from "./sentiment-providers/lexicons";
+
+export interface RankedPhrase {
+  phrase: string;
+  score: number; // Relevance in 0–1, relative to the top phrase
+  occurrences: number;
+  sentences: string[]; // Sentences containing the phrase, in transcript order
+}
+
+// Longer candidates are run-on transcript text rather than phrases
+const MAX_PHRASE_WORDS = 4;
+
+// Unpunctuated transcripts are cut into pieces of this many words to serve as sentences
+const MAX_SENTENCE_WORDS = 30;
+
+// Polarity beyond which a ranked phrase counts as positive or negative
+const POLARITY_THRESHOLD = 0.2;
+
+// Words, including accented and non-Latin ones, with elisions such as "don't" or "c'est" kept whole
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{M}\\p{N}]+(?:['’][\\p{L}\\p{M}]+)*", 'gu');
+
+const NUMBER = new RegExp('^\\p{N}+$', 'u');
+
+// Built on first use per language
+const stopwordSets = new Map<Language, Set<string>>();
+
+function stopwordsFor(language: Language): Set<string> {
+  let stopwords = stopwordSets.get(language);
+  if (!stopwords) {
+    stopwords = new Set(getLexicon(language).stopwords);
+    stopwordSets.set(language, stopwords);
+  }
+  return stopwords;
 }
 
-// Common positive words and phrases to look for
-const POSITIVE_INDICATORS = [
-  'love', 'amazing', 'awesome', 'great', 'excellent', 'fantastic', 'wonderful', 
-  'perfect', 'beautiful', 'incredible', 'impressive', 'outstanding', 'brilliant',
-  'good', 'nice', 'cool', 'sweet', 'solid', 'quality', 'recommend', 'best',
-  'worth it', 'happy', 'satisfied', 'pleased', 'excited', 'thrilled',
-  // Social media specific positive terms
-  'fire', 'slaps', 'hits different', 'no cap', 'bussin', 'chef\'s kiss', 'obsessed',
-  'iconic', 'legendary', 'goated', 'clean', 'smooth', 'crisp', 'fresh', 'stunning',
-  'gorgeous', 'flawless', 'genius', 'mindblowing', 'game changer', 'must have',
-  'super excited', 'totally worth', 'highly recommend', 'absolutely love'
-];
-
-// Common negative words and phrases to look for
-const NEGATIVE_INDICATORS = [
-  'bad', 'terrible', 'awful', 'horrible', 'disappointing', 'worst', 'hate',
-  'annoying', 'frustrating', 'useless', 'waste', 'broken', 'cheap', 'poor',
-  'fail', 'problem', 'issue', 'wrong', 'boring', 'overpriced', 'expensive',
-  'not worth', 'regret', 'disappointed', 'angry', 'upset', 'confused',
-  // Social media specific negative terms
-  'cringe', 'yikes', 'oof', 'mid', 'trash', 'sus', 'cap', 'fake', 'basic',
-  'awkward', 'messy', 'chaotic', 'disaster', 'fail', 'flop', 'rough', 'sketchy',
-  'not it', 'pass', 'nope', 'hard pass', 'red flag', 'toxic', 'problematic'
-];
+// Lowercased words, with typographic apostrophes straightened to match the stopword lists
+const tokenize = (text: string) => (text.toLowerCase().match(WORD_PATTERN) ?? []).map(word => word.replace(/’/g, "'"));
+
+const isContentWord = (word: string, stopwords: Set<string>) => !stopwords.has(word) && !NUMBER.test(word) && word.length >= 2;
 
 /**
- * Extracts positive and negative phrases from a transcript
+ * The words of a text that carry meaning, lowercased and in order
  */
-export function extractPhrases(transcript: string): ExtractedPhrases {
-  const text = transcript.toLowerCase();
-  
-  // Use simpler sentence splitting to ensure we get meaningful segments
-  const sentences = text.split(/[.!?]+/)
-    .map(s => s.trim())
-    .filter(s => s.length > 5);
-  
-  const positivePhrases: string[] = [];
-  const negativePhrases: string[] = [];
-  
-  console.log(`Processing transcript with ${sentences.length} sentences`);
-  
-  for (const sentence of sentences) {
-    const trimmedSentence = sentence.trim();
-    
-    // Skip very short sentences but allow longer ones (we'll truncate them later)
-    if (trimmedSentence.length < 5) continue;
-    
-    // Check for positive indicators
-    const positiveIndicator = POSITIVE_INDICATORS.find(indicator => 
-      trimmedSentence.includes(indicator)
-    );
-    
-    // Check for negative indicators  
-    const negativeIndicator = NEGATIVE_INDICATORS.find(indicator => 
-      trimmedSentence.includes(indicator)
-    );
-    
-    // Process positive phrases
-    if (positiveIndicator && positivePhrases.length < 2) {
-      const processedPhrase = extractSentencePortion(trimmedSentence, positiveIndicator);
-      if (processedPhrase) {
-        positivePhrases.push(capitalizeFirstLetter(processedPhrase));
-        console.log(`Added positive phrase: "${processedPhrase}"`);
-      }
+export function contentWords(text: string, language: Language = DEFAULT_LANGUAGE): string[] {
+  const stopwords = stopwordsFor(language);
+  return tokenize(text).filter(word => isContentWord(word, stopwords));
+}
+
+/**
+ * Splits on sentence punctuation only, since auto-generated transcripts are
+ * often lowercase, and chunks run-on text so no "sentence" spans the whole video
+ */
+function splitSentences(transcript: string): string[] {
+  return transcript.split(/[.!?…\n]+/).flatMap(sentence => {
+    const words = sentence.trim().split(/\s+/).filter(Boolean);
+    const chunks: string[] = [];
+    for (let i = 0; i < words.length; i += MAX_SENTENCE_WORDS) {
+      chunks.push(words.slice(i, i + MAX_SENTENCE_WORDS).join(' '));
     }
-    
-    // Process negative phrases (prioritize over positive if both exist)
-    else if (negativeIndicator && negativePhrases.length < 2) {
-      const processedPhrase = extractSentencePortion(trimmedSentence, negativeIndicator);
-      if (processedPhrase) {
-        negativePhrases.push(capitalizeFirstLetter(processedPhrase));
-        console.log(`Added negative phrase: "${processedPhrase}"`);
+    return chunks;
+  });
+}
+
+/**
+ * Candidate phrases of a sentence: the runs of words between stopwords
+ * and punctuation, as RAKE defines them
+ */
+function candidatePhrases(sentence: string, stopwords: Set<string>): string[][] {
+  const candidates: string[][] = [];
+  // Commas, dashes, quotes and the like end a phrase just as stopwords do
+  for (const clause of sentence.split(/[,;:()"«»„“”¿¡–—]+|\s-\s/)) {
+    let current: string[] = [];
+    for (const word of tokenize(clause)) {
+      if (!isContentWord(word, stopwords)) {
+        if (current.length > 0) candidates.push(current);
+        current = [];
+      } else {
+        current.push(word);
       }
     }
+    if (current.length > 0) candidates.push(current);
   }
-  
-  console.log(`Final extraction - Positive: ${positivePhrases.length}, Negative: ${negativePhrases.length}`);
-  console.log(`Positive phrases:`, positivePhrases);
-  console.log(`Negative phrases:`, negativePhrases);
-  
-  return {
-    positivePhrases,
-    negativePhrases
-  };
+  return candidates.filter(words => words.length <= MAX_PHRASE_WORDS);
 }
 
 /**
- * Extracts a meaningful portion of a sentence around a sentiment indicator
+ * Ranks the keyphrases of a transcript. Each candidate gets its RAKE score
+ * (the sum of degree/frequency over its words, favouring words that occur in
+ * longer phrases) multiplied by a TF-IDF weight that treats sentences as
+ * documents, so phrases repeated in every sentence are damped.
  */
-function extractSentencePortion(sentence: string, indicator: string): string | null {
-  // If sentence is short enough, return as-is
-  if (sentence.length <= 80) {
-    return sentence;
-  }
-  
-  // Find where the indicator appears
-  const indicatorIndex = sentence.indexOf(indicator);
-  if (indicatorIndex === -1) return sentence.substring(0, 80);
-  
-  // Extract a window around the indicator (about 40 chars each side)
-  const windowSize = 40;
-  const start = Math.max(0, indicatorIndex - windowSize);
-  const end = Math.min(sentence.length, indicatorIndex + indicator.length + windowSize);
-  
-  let portion = sentence.substring(start, end).trim();
-  
-  // Clean up word boundaries
-  if (start > 0) {
-    const firstSpace = portion.indexOf(' ');
-    if (firstSpace > 0) portion = portion.substring(firstSpace + 1);
-  }
-  
-  if (end < sentence.length) {
-    const lastSpace = portion.lastIndexOf(' ');
-    if (lastSpace > 0) portion = portion.substring(0, lastSpace);
-  }
-  
-  return portion.trim() || sentence.substring(0, 80);
+export function rankKeyphrases(transcript: string, topN: number, language: Language = DEFAULT_LANGUAGE): RankedPhrase[] {
+  const stopwords = stopwordsFor(language);
+  const sentences = splitSentences(transcript);
+  const sentenceCandidates = sentences.map(sentence => candidatePhrases(sentence, stopwords));
+
+  const wordFrequency = new Map<string, number>();
+  const wordDegree = new Map<string, number>();
+  const phraseFrequency = new Map<string, number>();
+  const phraseSentences = new Map<string, number[]>();
+
+  sentenceCandidates.forEach((candidates, sentenceIndex) => {
+    for (const words of candidates) {
+      for (const word of words) {
+        wordFrequency.set(word, (wordFrequency.get(word) || 0) + 1);
+        wordDegree.set(word, (wordDegree.get(word) || 0) + words.length);
+      }
+
+      const phrase = words.join(' ');
+      phraseFrequency.set(phrase, (phraseFrequency.get(phrase) || 0) + 1);
+      const seenIn = phraseSentences.get(phrase) || [];
+      if (seenIn[seenIn.length - 1] !== sentenceIndex) seenIn.push(sentenceIndex);
+      phraseSentences.set(phrase, seenIn);
+    }
+  });
+
+  const scored = Array.from(phraseFrequency.entries()).map(([phrase, frequency]) => {
+    const rake = phrase.split(' ').reduce((sum, word) => sum + wordDegree.get(word)! / wordFrequency.get(word)!, 0);
+    const sentenceIndexes = phraseSentences.get(phrase)!;
+    const idf = Math.log((1 + sentences.length) / (1 + sentenceIndexes.length)) + 1;
+    return {
+      phrase,
+      rawScore: rake * (1 + Math.log(frequency)) * idf,
+      occurrences: frequency,
+      sentences: sentenceIndexes.map(index => sentences[index])
+    };
+  }).sort((a, b) => b.rawScore - a.rawScore);
+
+  const topScore = scored[0]?.rawScore || 1;
+  return scored.slice(0, topN).map(({ rawScore, ...phrase }) => ({
+    ...phrase,
+    score: Math.round((rawScore / topScore) * 1000) / 1000
+  }));
 }
 
 /**
- * Capitalizes the first letter of a sentence
+ * Gets the top-ranked phrase the speaker was positive about
  */
-function capitalizeFirstLetter(sentence: string): string {
-  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+export function getBestPositivePhrase(keyphrases: Keyphrase[]): string | null {
+  return keyphrases.find(keyphrase => keyphrase.polarity > POLARITY_THRESHOLD)?.phrase ?? null;
 }
 
 /**
- * Gets a single best positive phrase from the extracted phrases
+ * Gets the top-ranked phrase the speaker was negative about
  */
-export function getBestPositivePhrase(phrases: string[]): string | null {
-  return phrases.length > 0 ? phrases[0] : null;
+export function getBestNegativePhrase(keyphrases: Keyphrase[]): string | null {
+  return keyphrases.find(keyphrase => keyphrase.polarity < -POLARITY_THRESHOLD)?.phrase ?? null;
 }
 
 /**
- * Gets a single best negative phrase from the extracted phrases
+ * Ranked phrases on each side of the polarity threshold, best first
  */
-export function getBestNegativePhrase(phrases: string[]): string | null {
-  return phrases.length > 0 ? phrases[0] : null;
-}
\ No newline at end of file
+export function splitByPolarity(keyphrases: Keyphrase[]): { positivePhrases: string[]; negativePhrases: string[] } {
+  return {
+    positivePhrases: keyphrases.filter(keyphrase => keyphrase.polarity > POLARITY_THRESHOLD).map(keyphrase => keyphrase.phrase),
+    negativePhrases: keyphrases.filter(keyphrase => keyphrase.polarity < -POLARITY_THRESHOLD).map(keyphrase => keyphrase.phrase)
+  };
+}
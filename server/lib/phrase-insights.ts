@@ -0,0 +1,167 @@
+import type {
+  AnalysisResult,
+  AspectSentiment,
+  InsertPhraseIndexEntry,
+  Keyphrase,
+  PhraseIndexEntry,
+  PhraseInsightsResponse,
+  PhraseTrend,
+  PhraseTrendPoint,
+  SentimentCounts,
+  SentimentLabel
+} from "@shared/schema";
+
+// Terms returned per request, most widespread first
+const MAX_TRENDS = 25;
+
+// Source videos listed per term
+const MAX_TREND_VIDEOS = 5;
+
+// Ranges longer than this are bucketed by week instead of by day
+const MAX_DAILY_BUCKETS = 31;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An index row together with the URL of the video it came from
+export type PhraseIndexRow = PhraseIndexEntry & { url: string };
+
+const parseArray = <T>(json: string | null, resultId: number, field: string): T[] => {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    console.warn(`Failed to parse ${field} for result ${resultId}`);
+    return [];
+  }
+};
+
+/**
+ * Index rows for one stored result: its ranked keyphrases and its aspects.
+ * Failed results and results from before keyphrase ranking have none.
+ */
+export function buildPhraseIndexEntries(userId: string, result: AnalysisResult): InsertPhraseIndexEntry[] {
+  if (result.status !== 'ok' || result.batchId === null) {
+    return [];
+  }
+
+  const base = {
+    userId,
+    resultId: result.id,
+    batchId: result.batchId,
+    platform: result.platform,
+    analyzedAt: result.createdAt
+  };
+  const keyphrases = parseArray<Keyphrase>(result.keyphrases, result.id, 'keyphrases');
+  const aspects = parseArray<AspectSentiment>(result.aspectSentiments, result.id, 'aspect sentiments');
+
+  return [
+    ...keyphrases.map(keyphrase => ({
+      ...base,
+      kind: 'phrase',
+      term: keyphrase.phrase.toLowerCase(),
+      sentiment: keyphrase.sentiment,
+      polarity: keyphrase.polarity
+    })),
+    ...aspects.map(aspect => ({
+      ...base,
+      kind: 'aspect',
+      term: aspect.aspect.toLowerCase(),
+      sentiment: aspect.sentiment,
+      polarity: aspect.polarity
+    }))
+  ];
+}
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Weeks start on Monday
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const addTo = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const roundPolarity = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rolls index rows up into per-term trends over the range. A term counts once
+ * per video, however many times it was said there, so trends reflect how
+ * widespread a term is rather than how talkative one creator was.
+ */
+export function summarizePhraseTrends(rows: PhraseIndexRow[], from: Date, to: Date): PhraseInsightsResponse {
+  const bucket = (to.getTime() - from.getTime()) / DAY_MS > MAX_DAILY_BUCKETS ? 'week' : 'day';
+  const bucketStart = bucket === 'week' ? startOfWeek : startOfDay;
+  const bucketLength = bucket === 'week' ? 7 * DAY_MS : DAY_MS;
+
+  const buckets: string[] = [];
+  for (let time = bucketStart(from).getTime(); time <= to.getTime(); time += bucketLength) {
+    buckets.push(toDateKey(new Date(time)));
+  }
+
+  const byTerm = new Map<string, PhraseIndexRow[]>();
+  for (const row of rows) {
+    addTo(byTerm, `${row.kind}:${row.term}`, row);
+  }
+
+  // Rank terms first, so bucketed points are only built for the ones returned
+  const ranked = Array.from(byTerm.values()).map(termRows => {
+    // Keep one row per video
+    const perVideo = Array.from(new Map(termRows.map(row => [row.resultId, row])).values())
+      .sort((a, b) => new Date(b.analyzedAt).getTime() - new Date(a.analyzedAt).getTime());
+    return { perVideo, avgPolarity: roundPolarity(mean(perVideo.map(row => row.polarity))) };
+  })
+    .sort((a, b) => b.perVideo.length - a.perVideo.length || Math.abs(b.avgPolarity) - Math.abs(a.avgPolarity))
+    .slice(0, MAX_TRENDS);
+
+  const trends = ranked.map(({ perVideo, avgPolarity }): PhraseTrend => {
+    const sentimentCounts: SentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 };
+    const polaritiesByBucket = new Map<string, number[]>();
+    for (const row of perVideo) {
+      sentimentCounts[row.sentiment as SentimentLabel]++;
+      addTo(polaritiesByBucket, toDateKey(bucketStart(new Date(row.analyzedAt))), row.polarity);
+    }
+
+    const points: PhraseTrendPoint[] = buckets.map(key => {
+      const polarities = polaritiesByBucket.get(key) || [];
+      return {
+        bucket: key,
+        videoCount: polarities.length,
+        avgPolarity: polarities.length > 0 ? roundPolarity(mean(polarities)) : null
+      };
+    });
+
+    return {
+      term: perVideo[0].term,
+      kind: perVideo[0].kind as PhraseTrend['kind'],
+      videoCount: perVideo.length,
+      avgPolarity,
+      sentimentCounts,
+      points,
+      videos: perVideo.slice(0, MAX_TREND_VIDEOS).map(row => ({
+        resultId: row.resultId,
+        batchId: row.batchId,
+        url: row.url,
+        platform: row.platform,
+        sentiment: row.sentiment as SentimentLabel,
+        analyzedAt: new Date(row.analyzedAt).toISOString()
+      }))
+    };
+  });
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket,
+    totalVideos: new Set(rows.map(row => row.resultId)).size,
+    trends
+  };
+}
@@ -1,4 +1,4 @@
-import { PLAN_LIMITS, type PlanType } from "@shared/schema";
+import { PLAN_LIMITS, type PlanType, type SentimentProviderName } from "@shared/schema";
 import { storage } from "../storage";
 
 export interface UsageLimitCheck {
@@ -11,6 +11,7 @@ export interface UsageLimitCheck {
   planLimits: {
     maxBatchSize: number;
     monthlyVideoLimit: number;
+    sentimentProviders: readonly SentimentProviderName[];
   };
 }
 
@@ -25,7 +26,7 @@ export class PlanLimitsService {
         canProceed: false,
         errorMessage: "User not found",
         currentUsage: { monthlyVideoCount: 0, remainingVideos: 0 },
-        planLimits: { maxBatchSize: 0, monthlyVideoLimit: 0 }
+        planLimits: { maxBatchSize: 0, monthlyVideoLimit: 0, sentimentProviders: [] }
       };
     }
 
@@ -72,6 +73,19 @@ export class PlanLimitsService {
     };
   }
 
+  async canUseSentimentProvider(userId: string, provider: SentimentProviderName): Promise<boolean> {
+    return (await this.getAllowedSentimentProviders(userId)).includes(provider);
+  }
+
+  // Sentiment backends the user's plan includes, for the requested provider and its fallbacks alike
+  async getAllowedSentimentProviders(userId: string): Promise<readonly SentimentProviderName[]> {
+    const userUsage = await storage.getUserUsage(userId);
+    if (!userUsage) return [];
+
+    const planType = this.getEffectivePlan(userUsage.subscriptionPlan, userUsage.subscriptionStatus);
+    return PLAN_LIMITS[planType].sentimentProviders;
+  }
+
   private getEffectivePlan(subscriptionPlan: string | null, subscriptionStatus: string | null): PlanType {
     // If user has an active subscription, use their plan
     if (subscriptionStatus === 'active' && subscriptionPlan && subscriptionPlan in PLAN_LIMITS) {
@@ -82,8 +96,34 @@ export class PlanLimitsService {
     return 'starter';
   }
 
-  async recordVideoUsage(userId: string, videoCount: number): Promise<void> {
-    await storage.incrementUserVideoCount(userId, videoCount);
+  /**
+   * Checks the limits and, when they pass, charges the videos to this month's usage
+   * up front so batches still in the queue count against the quota too.
+   * Videos that end up not analyzed are given back with releaseVideoUsage.
+   */
+  async reserveVideoUsage(userId: string, requestedVideoCount: number): Promise<UsageLimitCheck> {
+    const limitCheck = await this.checkUserLimits(userId, requestedVideoCount);
+    if (!limitCheck.canProceed) {
+      return limitCheck;
+    }
+
+    const reserved = await storage.reserveUserVideos(userId, requestedVideoCount, limitCheck.planLimits.monthlyVideoLimit);
+    if (!reserved) {
+      // Another request used up the remaining quota since the check
+      const current = await this.checkUserLimits(userId, requestedVideoCount);
+      return {
+        ...current,
+        canProceed: false,
+        errorMessage: current.errorMessage ?? 'Monthly limit exceeded by analyses that are already queued.'
+      };
+    }
+    return limitCheck;
+  }
+
+  async releaseVideoUsage(userId: string, videoCount: number): Promise<void> {
+    if (videoCount > 0) {
+      await storage.releaseUserVideos(userId, videoCount);
+    }
   }
 
   async getUserPlanInfo(userId: string) {
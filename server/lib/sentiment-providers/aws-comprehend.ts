@@ -0,0 +1,157 @@
+import { DEFAULT_LANGUAGE, type Language } from "@shared/schema";
+import { providerLimiters } from "../concurrency";
+import { confidenceFor, normalizeScores } from "@shared/sentiment-scale";
+import { scoreEmotions } from "./emotion-lexicon";
+import { splitIntoSentences } from "./text";
+import type { SentimentProvider, SentimentResult } from "./types";
+
+// Most documents BatchDetectSentiment accepts per request
+const COMPREHEND_BATCH_SIZE = 25;
+
+/**
+ * Sentiment from AWS Comprehend, scored sentence by sentence and averaged
+ */
+export class AwsComprehendSentimentProvider implements SentimentProvider {
+  readonly name = 'aws-comprehend';
+  readonly model = 'comprehend-detect-sentiment';
+  readonly version = '5';
+  private awsAccessKey: string;
+  private awsSecretKey: string;
+  private awsRegion: string;
+
+  constructor() {
+    this.awsAccessKey = process.env.AWS_ACCESS_KEY_ID || "";
+    this.awsSecretKey = process.env.AWS_SECRET_ACCESS_KEY || "";
+    this.awsRegion = process.env.AWS_REGION || "us-east-1";
+  }
+
+  isConfigured(): boolean {
+    return !!(this.awsAccessKey && this.awsSecretKey);
+  }
+
+  // Every supported language is also a Comprehend language code
+  async analyze(text: string, language: Language = DEFAULT_LANGUAGE): Promise<SentimentResult> {
+    const sentences = splitIntoSentences(text, language);
+
+    try {
+      // AWS Comprehend implementation
+      const AWS = await import('@aws-sdk/client-comprehend');
+      const client = this.createClient(AWS);
+
+      const sentimentResults = [];
+      
+      for (const sentence of sentences) {
+        if (sentence.length < 3) continue; // Skip very short sentences
+        
+        const command = new AWS.DetectSentimentCommand({
+          Text: sentence,
+          LanguageCode: language
+        });
+        
+        const result = await providerLimiters.awsComprehend.run(() => client.send(command));
+        sentimentResults.push(result);
+      }
+
+      // Comprehend has no emotion model, so emotions come from the lexicon
+      return { ...this.aggregateAWSSentiments(sentimentResults), emotions: scoreEmotions(text, language) };
+    } catch (error) {
+      console.error("AWS Comprehend error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scores several texts with BatchDetectSentiment: the sentences of all texts
+   * share requests of up to COMPREHEND_BATCH_SIZE documents, then each text
+   * averages its own sentences as in analyze
+   */
+  async analyzeBatch(texts: string[], language: Language = DEFAULT_LANGUAGE): Promise<SentimentResult[]> {
+    const sentences = texts.flatMap((text, textIndex) =>
+      splitIntoSentences(text, language)
+        .filter(sentence => sentence.length >= 3) // Skip very short sentences
+        .map(sentence => ({ textIndex, sentence }))
+    );
+
+    try {
+      const AWS = await import('@aws-sdk/client-comprehend');
+      const client = this.createClient(AWS);
+      const resultsByText: any[][] = texts.map(() => []);
+
+      for (let i = 0; i < sentences.length; i += COMPREHEND_BATCH_SIZE) {
+        const chunk = sentences.slice(i, i + COMPREHEND_BATCH_SIZE);
+        const command = new AWS.BatchDetectSentimentCommand({
+          TextList: chunk.map(({ sentence }) => sentence),
+          LanguageCode: language
+        });
+
+        const response = await providerLimiters.awsComprehend.run(() => client.send(command));
+        if (response.ErrorList && response.ErrorList.length > 0) {
+          throw new Error(`AWS Comprehend rejected ${response.ErrorList.length} of ${chunk.length} sentences`);
+        }
+        for (const result of response.ResultList || []) {
+          resultsByText[chunk[result.Index!].textIndex].push(result);
+        }
+      }
+
+      return texts.map((text, textIndex) => ({
+        ...this.aggregateAWSSentiments(resultsByText[textIndex]),
+        emotions: scoreEmotions(text, language)
+      }));
+    } catch (error) {
+      console.error("AWS Comprehend error:", error);
+      throw error;
+    }
+  }
+
+  private createClient(AWS: typeof import('@aws-sdk/client-comprehend')) {
+    return new AWS.ComprehendClient({
+      region: this.awsRegion,
+      credentials: {
+        accessKeyId: this.awsAccessKey,
+        secretAccessKey: this.awsSecretKey
+      }
+    });
+  }
+
+  private aggregateAWSSentiments(results: any[]): SentimentResult {
+    if (results.length === 0) {
+      const scores = normalizeScores({ positive: 0, neutral: 0, negative: 0 });
+      return { sentiment: 'NEUTRAL', confidence: confidenceFor('NEUTRAL', scores), scores };
+    }
+
+    const sentimentCounts = { POSITIVE: 0, NEGATIVE: 0, NEUTRAL: 0, MIXED: 0 };
+    let totalPositive = 0;
+    let totalNeutral = 0;
+    let totalNegative = 0;
+    let totalMixed = 0;
+
+    results.forEach(result => {
+      const sentiment = result.Sentiment;
+      sentimentCounts[sentiment as keyof typeof sentimentCounts]++;
+
+      // AWS already returns 0-1 probabilities per sentence
+      const scores = result.SentimentScore;
+      totalPositive += scores.Positive;
+      totalNeutral += scores.Neutral;
+      totalNegative += scores.Negative;
+      totalMixed += scores.Mixed || 0;
+    });
+
+    // Find dominant sentiment
+    const dominantSentiment = Object.entries(sentimentCounts)
+      .reduce((a, b) => sentimentCounts[a[0] as keyof typeof sentimentCounts] > sentimentCounts[b[0] as keyof typeof sentimentCounts] ? a : b)[0];
+
+    const scores = normalizeScores({
+      positive: totalPositive / results.length,
+      neutral: totalNeutral / results.length,
+      negative: totalNegative / results.length,
+      mixed: totalMixed / results.length
+    });
+
+    return {
+      sentiment: dominantSentiment,
+      confidence: confidenceFor(dominantSentiment, scores),
+      scores
+    };
+  }
+}
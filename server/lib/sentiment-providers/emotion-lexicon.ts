@@ -0,0 +1,36 @@
+import { DEFAULT_LANGUAGE, EMOTIONS, type Emotion, type Language } from "@shared/schema";
+import { normalizeEmotions, type EmotionScores } from "@shared/sentiment-scale";
+import { getLexicon } from "./lexicons";
+import { wholeWords } from "./text";
+
+// Emotion words per 100 words at which an emotion reads as fully present
+const SATURATION_RATE = 3;
+
+// Compiled on first use per language
+const emotionPatterns = new Map<Language, Array<{ emotion: Emotion; pattern: RegExp }>>();
+
+function patternsFor(language: Language) {
+  let patterns = emotionPatterns.get(language);
+  if (!patterns) {
+    const { emotions } = getLexicon(language);
+    patterns = EMOTIONS.map(emotion => ({ emotion, pattern: wholeWords(emotions[emotion], 'gu') }));
+    emotionPatterns.set(language, patterns);
+  }
+  return patterns;
+}
+
+/**
+ * Lexicon-based emotion model: the intensity of each emotion grows with how
+ * often its words appear, relative to the length of the text
+ */
+export function scoreEmotions(text: string, language: Language = DEFAULT_LANGUAGE): EmotionScores {
+  const lowerText = text.toLowerCase();
+  const wordCount = Math.max(1, lowerText.split(/\s+/).filter(Boolean).length);
+
+  const raw: Partial<Record<Emotion, number>> = {};
+  for (const { emotion, pattern } of patternsFor(language)) {
+    const hits = lowerText.match(pattern)?.length ?? 0;
+    raw[emotion] = (hits / wordCount) * 100 / SATURATION_RATE;
+  }
+  return normalizeEmotions(raw);
+}
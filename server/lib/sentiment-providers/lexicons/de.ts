@@ -0,0 +1,80 @@
+import type { SentimentLexicon } from "./types";
+
+// German, with social media slang
+export const germanLexicon: SentimentLexicon = {
+  language: 'de',
+  strongPositive: [
+    'unglaublich', 'fantastisch', 'wunderbar', 'hervorragend', 'perfekt', 'genial', 'großartig',
+    'ausgezeichnet', 'spitze', 'traumhaft', 'phänomenal', 'liebe', 'wahnsinn',
+    // Social media positive
+    'krass', 'mega', 'geil', 'ehrenmann', 'ehrenfrau', 'lit'
+  ],
+  moderatePositive: [
+    'gut', 'schön', 'toll', 'super', 'nett', 'lecker', 'froh', 'glücklich', 'zufrieden', 'mag',
+    'empfehlen', 'empfehle', 'nützlich', 'angenehm', 'cool', 'lustig', 'praktisch', 'hübsch'
+  ],
+  mildPositive: [
+    'okay', 'ordentlich', 'brauchbar', 'solide', 'vielversprechend', 'interessant', 'passt'
+  ],
+  strongNegative: [
+    'schrecklich', 'furchtbar', 'ekelhaft', 'grauenhaft', 'katastrophe', 'hasse', 'müll', 'schlechteste',
+    'abzocke', 'nutzlos', 'katastrophal', 'scheiße', 'mist'
+  ],
+  moderateNegative: [
+    'schlecht', 'enttäuschend', 'enttäuschung', 'langweilig', 'nervig', 'teuer', 'problem', 'traurig',
+    'wütend', 'sauer', 'falsch', 'hässlich', 'kaputt', 'cringe'
+  ],
+  mildNegative: [
+    'naja', 'mittelmäßig', 'langsam', 'schwierig', 'müde', 'meh', 'geht so'
+  ],
+  negations: ['nicht', 'nie', 'niemals', 'kein', 'keine', 'keinen', 'nichts'],
+  intensifiers: ['sehr', 'echt', 'richtig', 'total', 'voll', 'extrem', 'so'],
+  affirmations: ['ehrlich', 'wirklich', 'auf jeden fall'],
+  dismissals: ['egal', 'naja', 'whatever'],
+  emotions: {
+    joy: ['glücklich', 'freude', 'liebe', 'lustig', 'haha', 'lachen', 'froh', 'dankbar', 'süß'],
+    anger: ['wütend', 'sauer', 'hasse', 'nervig', 'abzocke', 'genervt', 'wut'],
+    sadness: ['traurig', 'weinen', 'vermisse', 'allein', 'leider', 'schmerz', 'schade'],
+    fear: ['angst', 'nervös', 'besorgt', 'panik', 'gefährlich', 'risiko', 'gruselig'],
+    surprise: ['wow', 'krass', 'überrascht', 'überraschung', 'unglaublich', 'wahnsinn', 'echt jetzt'],
+    disgust: ['ekelhaft', 'igitt', 'eklig', 'widerlich'],
+    trust: ['vertrauen', 'zuverlässig', 'empfehle', 'ehrlich', 'echt', 'qualität', 'lohnt sich'],
+    anticipation: ['gespannt', 'bald', 'warte', 'nächste', 'nächstes', 'vorfreude', 'freue mich']
+  },
+  slang: {
+    'lol': 'lachen',
+    'hdl': 'hab dich lieb',
+    'ka': 'keine ahnung',
+    'vllt': 'vielleicht',
+    'mmn': 'meiner meinung nach',
+    'nice': 'schön',
+    'digga': 'freund'
+  },
+  // Function words and the filler of spoken transcripts; never keyphrases, topic terms or brands
+  stopwords: [
+    'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'da', 'dann', 'das',
+    'dass', 'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'dieses', 'doch', 'du', 'ein', 'eine',
+    'einem', 'einen', 'einer', 'er', 'es', 'für', 'gibt', 'hab', 'habe', 'haben', 'hat', 'hier', 'ich', 'ihr',
+    'im', 'in', 'ist', 'ja', 'kann', 'man', 'mein', 'meine', 'mich', 'mir', 'mit', 'nach', 'nicht', 'noch',
+    'nur', 'oder', 'schon', 'sehr', 'sein', 'sich', 'sie', 'sind', 'so', 'über', 'um', 'und', 'uns', 'unter',
+    'von', 'vor', 'war', 'was', 'weil', 'wenn', 'wie', 'wir', 'wird', 'zu', 'zum', 'zur',
+    'äh', 'ähm', 'halt', 'eben', 'mal', 'einfach', 'eigentlich', 'irgendwie', 'quasi', 'leute', 'ding',
+    'dinge', 'sache', 'sachen', 'jetzt', 'machen', 'gemacht', 'sagen', 'finde', 'glaube', 'okay', 'genau'
+  ],
+  // Aspects influencer-marketing clients ask about, with the words that signal them
+  aspects: {
+    price: ['preis', 'preise', 'kostet', 'kosten', 'teuer', 'günstig', 'billig', 'preiswert', 'angebot', 'euro', 'lohnt sich'],
+    quality: ['qualität', 'verarbeitung', 'gut verarbeitet', 'robust', 'stabil', 'wackelig', 'material', 'materialien'],
+    shipping: ['versand', 'lieferung', 'geliefert', 'angekommen', 'paket', 'verpackung', 'verschickt'],
+    'customer service': ['kundenservice', 'kundendienst', 'support', 'erstattung', 'rückgabe', 'umtausch'],
+    design: ['design', 'aussehen', 'optik', 'farbe', 'farben', 'stil'],
+    taste: ['geschmack', 'schmeckt', 'lecker', 'köstlich', 'fad'],
+    size: ['größe', 'größen', 'passform', 'passt', 'klein', 'groß', 'eng', 'weit'],
+    performance: ['leistung', 'akku', 'geschwindigkeit', 'schnell', 'langsam', 'funktioniert', 'ruckelt']
+  },
+  emphasis: {
+    intensifier: 'sehr',
+    excitement: 'mit begeisterung',
+    confusion: 'mit verwirrung'
+  }
+};
@@ -0,0 +1,143 @@
+import type { SentimentLexicon } from "./types";
+
+// Weighted lexicon with social media slang
+export const englishLexicon: SentimentLexicon = {
+  language: 'en',
+  strongPositive: [
+    'amazing', 'awesome', 'fantastic', 'incredible', 'outstanding', 'brilliant', 'perfect',
+    'excellent', 'wonderful', 'superb', 'marvelous', 'terrific', 'fabulous', 'phenomenal',
+    'breathtaking', 'magnificent', 'spectacular', 'extraordinary', 'exceptional', 'flawless',
+    // Social media positive
+    'fire', 'slay', 'slaps', 'banger', 'iconic', 'legendary', 'goat', 'chef', 'kiss'
+  ],
+  moderatePositive: [
+    'good', 'nice', 'great', 'cool', 'sweet', 'solid', 'decent', 'fine', 'okay', 'alright',
+    'happy', 'pleased', 'satisfied', 'glad', 'excited', 'thrilled', 'delighted', 'enjoy',
+    'like', 'appreciate', 'recommend', 'impressive', 'helpful', 'useful', 'effective',
+    // Social media moderate positive
+    'vibes', 'mood', 'valid', 'bet', 'facts', 'real', 'true', 'based', 'w', 'dub'
+  ],
+  mildPositive: [
+    'kinda', 'somewhat', 'pretty', 'quite', 'fairly', 'rather', 'not bad', 'could be worse',
+    'getting better', 'improving', 'progress', 'potential', 'promising', 'hopeful',
+    // Social media mild positive
+    'lowkey', 'ngl', 'tbh', 'fr', 'periodt', 'no cap', 'stan', 'support'
+  ],
+  strongNegative: [
+    'terrible', 'awful', 'horrible', 'disgusting', 'pathetic', 'worst', 'hate', 'despise',
+    'atrocious', 'appalling', 'dreadful', 'abysmal', 'catastrophic', 'disastrous', 'nightmare',
+    'garbage', 'trash', 'worthless', 'useless', 'hopeless', 'devastating', 'crushing',
+    // Social media strong negative
+    'cringe', 'yikes', 'oof', 'rip', 'dead', 'cancelled', 'toxic', 'sus'
+  ],
+  moderateNegative: [
+    'bad', 'poor', 'disappointing', 'frustrating', 'annoying', 'boring', 'dull', 'stupid',
+    'ridiculous', 'silly', 'pointless', 'waste', 'problem', 'issue', 'concern', 'worry',
+    'sad', 'angry', 'upset', 'mad', 'confused', 'lost', 'stuck', 'failed', 'wrong',
+    // Social media moderate negative
+    'meh', 'nah', 'cap', 'fake', 'mid', 'basic', 'cringe', 'awkward'
+  ],
+  mildNegative: [
+    'whatever', 'meh', 'okay', 'fine', 'could be better', 'not great', 'not good',
+    'lacking', 'missing', 'weak', 'slow', 'difficult', 'hard', 'challenge', 'struggle',
+    // Social media mild negative
+    'bruh', 'smh', 'facepalm', 'sigh', 'ugh', 'tired', 'done', 'over it'
+  ],
+  negations: ['not', 'never', "don't", "doesn't", "didn't", "won't", "can't", "shouldn't"],
+  intensifiers: ['very', 'really', 'so', 'super', 'extremely'],
+  affirmations: ['no cap', 'for real', 'periodt'],
+  dismissals: ['whatever', 'meh', 'bruh'],
+  // Small NRC-style emotion lexicon, extended with social media slang
+  emotions: {
+    joy: [
+      'happy', 'joy', 'love', 'loving', 'glad', 'delighted', 'fun', 'smile', 'laugh', 'lol', 'lmao',
+      'yay', 'blessed', 'grateful', 'vibes', 'wholesome', 'fire', 'slaps', 'obsessed', 'cute'
+    ],
+    anger: [
+      'angry', 'mad', 'furious', 'hate', 'rage', 'annoyed', 'annoying', 'pissed', 'outraged', 'livid',
+      'ridiculous', 'scam', 'wtf', 'triggered', 'salty'
+    ],
+    sadness: [
+      'sad', 'cry', 'crying', 'depressed', 'heartbroken', 'miss', 'lonely', 'sorry', 'unfortunately',
+      'tragic', 'loss', 'hurt', 'rip', 'sobbing'
+    ],
+    fear: [
+      'scared', 'afraid', 'fear', 'terrified', 'anxious', 'nervous', 'worried', 'panic', 'creepy',
+      'dangerous', 'risk', 'scary', 'shook'
+    ],
+    surprise: [
+      'wow', 'omg', 'shocked', 'surprised', 'unexpected', 'unbelievable', 'whoa', 'insane', 'crazy',
+      'suddenly', 'plot twist', 'no way'
+    ],
+    disgust: [
+      'gross', 'disgusting', 'nasty', 'ew', 'eww', 'yuck', 'vile', 'cringe', 'sick of', 'revolting'
+    ],
+    trust: [
+      'trust', 'reliable', 'honest', 'recommend', 'legit', 'authentic', 'genuine', 'safe', 'proven',
+      'quality', 'worth it', 'no cap'
+    ],
+    anticipation: [
+      'excited', 'waiting', 'soon', 'upcoming', 'hype', 'hyped', 'ready', 'expect', 'coming',
+      'cant wait', "can't wait", 'stay tuned', 'next'
+    ]
+  },
+  slang: {
+    'lol': 'laughing out loud',
+    'lmao': 'laughing very hard',
+    'omg': 'oh my god',
+    'wtf': 'what the hell',
+    'tbh': 'to be honest',
+    'ngl': 'not going to lie',
+    'fr': 'for real',
+    'no cap': 'no lie',
+    'periodt': 'period emphasis',
+    'slay': 'amazing performance',
+    'fire': 'excellent',
+    'lowkey': 'somewhat',
+    'highkey': 'definitely',
+    'sus': 'suspicious',
+    'bet': 'yes definitely',
+    'fam': 'friend',
+    'bruh': 'disappointed expression',
+    'oop': 'awkward moment',
+    'stan': 'really support',
+    'slaps': 'is really good',
+    'hits different': 'is uniquely good',
+    'vibes': 'feeling',
+    'mood': 'relatable feeling'
+  },
+  // Function words and the filler of spoken transcripts; never keyphrases, topic terms or brands
+  stopwords: [
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+    'does', 'doing', 'down', 'during', 'each', 'even', 'ever', 'every', 'few', 'for', 'from', 'further', 'get', 'gets',
+    'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i',
+    'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself', 'no', 'nor', 'not',
+    'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out', 'over', 'own', 'same',
+    'she', 'should', 'so', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves',
+    'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'us', 'very',
+    'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would',
+    'you', 'your', 'yours', 'yourself', 'yourselves',
+    "i'm", "it's", "don't", "doesn't", "didn't", "can't", "won't", "isn't", "wasn't", "aren't", "that's", "there's",
+    "you're", "we're", "they're", "i've", "you've", "i'll", "you'll", "let's", "what's",
+    'um', 'uh', 'like', 'yeah', 'okay', 'ok', 'oh', 'so', 'really', 'literally', 'actually', 'basically', 'gonna',
+    'wanna', 'gotta', 'kinda', 'guys', 'thing', 'things', 'stuff', 'know', 'mean', 'right', 'go', 'going', 'one',
+    'lot', 'well', 'way', 'see', 'say', 'said', 'make', 'made', 'think', 'want'
+  ],
+  // Aspects influencer-marketing clients ask about, with the words that signal them
+  aspects: {
+    price: ['price', 'prices', 'cost', 'costs', 'expensive', 'cheap', 'affordable', 'overpriced', 'pricey', 'budget', 'dollars', 'bucks', 'worth'],
+    quality: ['quality', 'well made', 'durable', 'flimsy', 'sturdy', 'build', 'material', 'materials'],
+    shipping: ['shipping', 'delivery', 'delivered', 'arrived', 'package', 'packaging', 'shipped', 'courier'],
+    'customer service': ['customer service', 'support', 'refund', 'return', 'returns', 'exchange'],
+    design: ['design', 'look', 'looks', 'color', 'colour', 'style', 'aesthetic'],
+    taste: ['taste', 'tastes', 'flavor', 'flavour', 'delicious', 'bland'],
+    size: ['size', 'sizing', 'fit', 'fits', 'small', 'large', 'tight', 'loose'],
+    performance: ['performance', 'battery', 'speed', 'fast', 'slow', 'works', 'lag']
+  },
+  emphasis: {
+    intensifier: 'very',
+    excitement: 'with excitement',
+    confusion: 'with confusion'
+  }
+};
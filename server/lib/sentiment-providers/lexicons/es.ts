@@ -0,0 +1,87 @@
+import type { SentimentLexicon } from "./types";
+
+// Spanish, with Latin American and Spanish social media slang
+export const spanishLexicon: SentimentLexicon = {
+  language: 'es',
+  strongPositive: [
+    'increíble', 'espectacular', 'maravilloso', 'maravillosa', 'excelente', 'perfecto', 'perfecta',
+    'fantástico', 'fantástica', 'brutal', 'impresionante', 'magnífico', 'extraordinario', 'genial',
+    'buenísimo', 'buenísima', 'encanta', 'encantó', 'amo',
+    // Social media positive
+    'chingón', 'bacán', 'chévere', 'top', 'crack', 'fuego'
+  ],
+  moderatePositive: [
+    'bueno', 'buena', 'bien', 'bonito', 'bonita', 'lindo', 'linda', 'rico', 'rica', 'feliz', 'contento',
+    'contenta', 'gusta', 'gustó', 'recomiendo', 'útil', 'agradable', 'vale', 'guapo', 'guapa', 'mola',
+    'qué padre', 'divertido', 'divertida'
+  ],
+  mildPositive: [
+    'aceptable', 'decente', 'correcto', 'mejorando', 'prometedor', 'interesante', 'normalito', 'pasable'
+  ],
+  strongNegative: [
+    'horrible', 'terrible', 'asqueroso', 'asquerosa', 'pésimo', 'pésima', 'odio', 'desastre', 'basura',
+    'fatal', 'lo peor', 'peor', 'estafa', 'inútil', 'nefasto', 'espantoso', 'cutre'
+  ],
+  moderateNegative: [
+    'malo', 'mala', 'decepcionante', 'decepción', 'aburrido', 'aburrida', 'molesto', 'caro', 'carísimo',
+    'problema', 'triste', 'enojado', 'enfadado', 'falso', 'falsa', 'feo', 'fea', 'mal', 'roto'
+  ],
+  mildNegative: [
+    'regular', 'meh', 'lento', 'lenta', 'difícil', 'cansado', 'cansada', 'flojo', 'floja', 'mejorable'
+  ],
+  negations: ['no', 'nunca', 'jamás', 'tampoco', 'ni'],
+  intensifiers: ['muy', 'súper', 'super', 'demasiado', 'bastante', 're', 'tan'],
+  affirmations: ['de verdad', 'en serio', 'sin duda'],
+  dismissals: ['ni modo', 'qué más da', 'equis'],
+  emotions: {
+    joy: ['feliz', 'alegría', 'amo', 'encanta', 'divertido', 'jaja', 'jajaja', 'risa', 'bendecido', 'agradecido', 'lindo'],
+    anger: ['enojado', 'enfadado', 'rabia', 'odio', 'furioso', 'molesto', 'estafa', 'harto'],
+    sadness: ['triste', 'llorar', 'llorando', 'deprimido', 'deprimida', 'lamentablemente', 'dolor', 'echo de menos'],
+    fear: ['miedo', 'asustado', 'nervioso', 'preocupado', 'pánico', 'peligroso', 'riesgo'],
+    surprise: ['wow', 'guau', 'sorpresa', 'sorprendido', 'increíble', 'no puede ser', 'qué locura'],
+    disgust: ['asco', 'asqueroso', 'qué asco', 'repugnante', 'guácala'],
+    trust: ['confianza', 'confiable', 'recomiendo', 'honesto', 'auténtico', 'calidad', 'vale la pena'],
+    anticipation: ['emocionado', 'emocionada', 'pronto', 'esperando', 'próximo', 'no puedo esperar']
+  },
+  slang: {
+    'xd': 'risa',
+    'jaja': 'risa',
+    'jajaja': 'mucha risa',
+    'tqm': 'te quiero mucho',
+    'ntp': 'no te preocupes',
+    'alv': 'qué rabia',
+    'neta': 'de verdad',
+    'q': 'que',
+    'xq': 'porque',
+    'pq': 'porque'
+  },
+  // Function words and the filler of spoken transcripts; never keyphrases, topic terms or brands
+  stopwords: [
+    'a', 'al', 'algo', 'algún', 'alguna', 'algunos', 'ante', 'antes', 'así', 'aunque', 'cada', 'como', 'con',
+    'contra', 'cual', 'cuando', 'de', 'del', 'desde', 'donde', 'dos', 'e', 'el', 'él', 'ella', 'ellas', 'ellos',
+    'en', 'entre', 'era', 'es', 'esa', 'esas', 'ese', 'eso', 'esos', 'esta', 'está', 'están', 'estar', 'este',
+    'esto', 'estos', 'estoy', 'fue', 'ha', 'han', 'has', 'hay', 'he', 'hemos', 'hasta', 'la', 'las', 'le',
+    'les', 'lo', 'los', 'me', 'mi', 'mis', 'mucho', 'muy', 'más', 'nada', 'ni', 'no', 'nos', 'nosotros', 'o',
+    'otra', 'otro', 'para', 'pero', 'poco', 'por', 'porque', 'que', 'qué', 'se', 'sea', 'ser', 'si', 'sí',
+    'sin', 'sobre', 'solo', 'son', 'su', 'sus', 'también', 'te', 'tengo', 'tiene', 'todo', 'todos', 'tu',
+    'tus', 'un', 'una', 'uno', 'unos', 'usted', 'va', 'vamos', 'voy', 'y', 'ya', 'yo',
+    'bueno', 'pues', 'osea', 'eh', 'mmm', 'vale', 'tipo', 'literal', 'chicos', 'chicas',
+    'gente', 'cosa', 'cosas', 'ahora', 'aquí', 'ahí', 'entonces', 'hacer', 'hice', 'decir', 'dije', 'creo', 'mira'
+  ],
+  // Aspects influencer-marketing clients ask about, with the words that signal them
+  aspects: {
+    price: ['precio', 'precios', 'cuesta', 'cuestan', 'caro', 'cara', 'barato', 'barata', 'económico', 'oferta', 'pesos', 'euros', 'vale la pena'],
+    quality: ['calidad', 'bien hecho', 'duradero', 'resistente', 'frágil', 'material', 'materiales', 'acabado'],
+    shipping: ['envío', 'envíos', 'entrega', 'llegó', 'paquete', 'empaque', 'embalaje', 'enviaron', 'paquetería'],
+    'customer service': ['atención al cliente', 'servicio al cliente', 'soporte', 'reembolso', 'devolución', 'cambio'],
+    design: ['diseño', 'aspecto', 'color', 'colores', 'estilo', 'estética', 'se ve'],
+    taste: ['sabor', 'sabe', 'saben', 'delicioso', 'deliciosa', 'rico', 'insípido'],
+    size: ['talla', 'tallas', 'tamaño', 'queda', 'pequeño', 'grande', 'ajustado', 'holgado'],
+    performance: ['rendimiento', 'batería', 'velocidad', 'rápido', 'lento', 'funciona', 'se traba']
+  },
+  emphasis: {
+    intensifier: 'muy',
+    excitement: 'con emoción',
+    confusion: 'con confusión'
+  }
+};
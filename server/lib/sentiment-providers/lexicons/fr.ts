@@ -0,0 +1,81 @@
+import type { SentimentLexicon } from "./types";
+
+// French, with social media slang
+export const frenchLexicon: SentimentLexicon = {
+  language: 'fr',
+  strongPositive: [
+    'incroyable', 'magnifique', 'merveilleux', 'merveilleuse', 'excellent', 'excellente', 'parfait',
+    'parfaite', 'fantastique', 'génial', 'géniale', 'sublime', 'extraordinaire', 'exceptionnel', 'adore',
+    // Social media positive
+    'ouf', 'dingue', 'incroyablement', 'top', 'pépite', 'kiffe'
+  ],
+  moderatePositive: [
+    'bon', 'bonne', 'bien', 'sympa', 'joli', 'jolie', 'beau', 'belle', 'content', 'contente', 'heureux',
+    'heureuse', 'aime', 'recommande', 'utile', 'agréable', 'cool', 'chouette', 'efficace', 'drôle'
+  ],
+  mildPositive: [
+    'correct', 'correcte', 'acceptable', 'décent', 'prometteur', 'intéressant', 'intéressante', 'pas mal'
+  ],
+  strongNegative: [
+    'horrible', 'terrible', 'dégoûtant', 'dégoûtante', 'nul', 'nulle', 'déteste', 'catastrophe',
+    'désastre', 'pire', 'arnaque', 'inutile', 'affreux', 'affreuse', 'naze'
+  ],
+  moderateNegative: [
+    'mauvais', 'mauvaise', 'décevant', 'décevante', 'déception', 'ennuyeux', 'ennuyeuse', 'cher', 'chère',
+    'problème', 'triste', 'énervé', 'énervée', 'faux', 'fausse', 'moche', 'cassé', 'relou', 'bof'
+  ],
+  mildNegative: [
+    'moyen', 'moyenne', 'lent', 'lente', 'difficile', 'fatigué', 'fatiguée', 'bof', 'mouais'
+  ],
+  negations: ['ne', 'pas', 'jamais', 'aucun', 'aucune', 'rien', 'personne'],
+  intensifiers: ['très', 'trop', 'vraiment', 'super', 'tellement', 'hyper', 'grave'],
+  affirmations: ['de ouf', 'sérieux', 'franchement'],
+  dismissals: ['bof', 'mouais', 'osef'],
+  emotions: {
+    joy: ['heureux', 'heureuse', 'joie', 'adore', 'drôle', 'mdr', 'ptdr', 'rire', 'content', 'reconnaissant', 'mignon'],
+    anger: ['énervé', 'colère', 'déteste', 'furieux', 'agacé', 'arnaque', 'relou', 'marre'],
+    sadness: ['triste', 'pleurer', 'pleure', 'me manque', 'déprimé', 'malheureusement', 'douleur', 'dommage'],
+    fear: ['peur', 'effrayé', 'nerveux', 'inquiet', 'angoisse', 'panique', 'dangereux', 'risque'],
+    surprise: ['wow', 'waouh', 'surprise', 'surpris', 'choqué', 'incroyable', 'pas possible'],
+    disgust: ['dégoûtant', 'beurk', 'berk', 'dégueulasse', 'écœurant'],
+    trust: ['confiance', 'fiable', 'recommande', 'honnête', 'authentique', 'qualité', 'vaut le coup'],
+    anticipation: ['impatient', 'impatiente', 'bientôt', 'attends', 'prochain', 'prochaine', 'hâte']
+  },
+  slang: {
+    'mdr': 'mort de rire',
+    'ptdr': 'pété de rire',
+    'jpp': "j'en peux plus",
+    'tkt': "t'inquiète",
+    'osef': "on s'en fiche",
+    'slt': 'salut',
+    'stp': "s'il te plaît",
+    'pk': 'pourquoi',
+    'bcp': 'beaucoup'
+  },
+  // Function words and the filler of spoken transcripts; never keyphrases, topic terms or brands
+  stopwords: [
+    'à', 'au', 'aux', 'avec', 'ce', 'ces', 'cet', 'cette', 'c\'est', 'ça', 'dans', 'de', 'des', 'du', 'elle',
+    'elles', 'en', 'est', 'et', 'été', 'être', 'eu', 'il', 'ils', 'j\'ai', 'je', 'la', 'le', 'les', 'leur',
+    'lui', 'ma', 'mais', 'me', 'mes', 'moi', 'mon', 'ne', 'n\'est', 'nos', 'notre', 'nous', 'on', 'ou', 'où',
+    'par', 'pas', 'pour', 'qu\'il', 'que', 'qui', 'sa', 'se', 'ses', 'si', 'son', 'sont', 'sur', 'ta', 'te',
+    'tes', 'toi', 'ton', 'tout', 'très', 'tu', 'un', 'une', 'vos', 'votre', 'vous', 'y', 'a', 'ai', 'as', 'avoir',
+    'euh', 'bah', 'ben', 'bon', 'genre', 'voilà', 'quoi', 'alors', 'donc', 'enfin', 'vraiment', 'trop',
+    'truc', 'trucs', 'chose', 'choses', 'faire', 'fait', 'dire', 'dit', 'crois', 'pense', 'voir', 'là', 'ici', 'gars'
+  ],
+  // Aspects influencer-marketing clients ask about, with the words that signal them
+  aspects: {
+    price: ['prix', 'coûte', 'coûtent', 'cher', 'chère', 'pas cher', 'abordable', 'promo', 'euros', 'vaut le coup'],
+    quality: ['qualité', 'bien fait', 'solide', 'résistant', 'fragile', 'matière', 'matériau', 'finitions'],
+    shipping: ['livraison', 'livré', 'reçu', 'arrivé', 'colis', 'emballage', 'expédié', 'expédition'],
+    'customer service': ['service client', 'sav', 'remboursement', 'retour', 'retours', 'échange'],
+    design: ['design', 'look', 'couleur', 'couleurs', 'style', 'esthétique'],
+    taste: ['goût', 'saveur', 'délicieux', 'délicieuse', 'fade'],
+    size: ['taille', 'tailles', 'pointure', 'petit', 'grand', 'serré', 'ample'],
+    performance: ['performance', 'performances', 'batterie', 'vitesse', 'rapide', 'lent', 'fonctionne', 'rame']
+  },
+  emphasis: {
+    intensifier: 'très',
+    excitement: 'avec enthousiasme',
+    confusion: 'avec confusion'
+  }
+};
@@ -0,0 +1,22 @@
+import { DEFAULT_LANGUAGE, type Language } from "@shared/schema";
+import { englishLexicon } from "./en";
+import { spanishLexicon } from "./es";
+import { portugueseLexicon } from "./pt";
+import { frenchLexicon } from "./fr";
+import { germanLexicon } from "./de";
+import type { SentimentLexicon } from "./types";
+
+export type { SentimentLexicon };
+
+// One lexicon per supported language; adding a language means adding its file here
+const lexicons: Record<Language, SentimentLexicon> = {
+  en: englishLexicon,
+  es: spanishLexicon,
+  pt: portugueseLexicon,
+  fr: frenchLexicon,
+  de: germanLexicon,
+};
+
+export function getLexicon(language: Language = DEFAULT_LANGUAGE): SentimentLexicon {
+  return lexicons[language] ?? lexicons[DEFAULT_LANGUAGE];
+}
@@ -0,0 +1,85 @@
+import type { SentimentLexicon } from "./types";
+
+// Portuguese, with Brazilian social media slang
+export const portugueseLexicon: SentimentLexicon = {
+  language: 'pt',
+  strongPositive: [
+    'incrível', 'maravilhoso', 'maravilhosa', 'excelente', 'perfeito', 'perfeita', 'fantástico',
+    'fantástica', 'sensacional', 'espetacular', 'impressionante', 'extraordinário', 'ótimo', 'ótima',
+    'amei', 'amo', 'apaixonada', 'apaixonado',
+    // Social media positive
+    'top', 'demais', 'brabo', 'braba', 'mito', 'arrasou'
+  ],
+  moderatePositive: [
+    'bom', 'boa', 'legal', 'bonito', 'bonita', 'lindo', 'linda', 'gostoso', 'gostosa', 'feliz',
+    'contente', 'gostei', 'gosto', 'recomendo', 'útil', 'agradável', 'bacana', 'massa', 'show', 'divertido'
+  ],
+  mildPositive: [
+    'aceitável', 'razoável', 'decente', 'melhorando', 'promissor', 'interessante', 'ok'
+  ],
+  strongNegative: [
+    'horrível', 'terrível', 'nojento', 'nojenta', 'péssimo', 'péssima', 'odeio', 'desastre', 'lixo',
+    'pior', 'golpe', 'inútil', 'ridículo', 'ridícula'
+  ],
+  moderateNegative: [
+    'ruim', 'decepcionante', 'decepção', 'chato', 'chata', 'caro', 'caríssimo', 'problema', 'triste',
+    'bravo', 'irritado', 'falso', 'falsa', 'feio', 'feia', 'mal', 'quebrado', 'fraco', 'fraca'
+  ],
+  mildNegative: [
+    'mais ou menos', 'meh', 'lento', 'lenta', 'difícil', 'cansado', 'cansada', 'sem graça'
+  ],
+  negations: ['não', 'nunca', 'jamais', 'nem', 'tampouco'],
+  intensifiers: ['muito', 'super', 'bem', 'demais', 'tão', 'bastante'],
+  affirmations: ['de verdade', 'sério', 'com certeza'],
+  dismissals: ['tanto faz', 'sei lá', 'aff'],
+  emotions: {
+    joy: ['feliz', 'alegria', 'amo', 'amei', 'divertido', 'kkk', 'kkkk', 'haha', 'rindo', 'abençoado', 'grato', 'fofo'],
+    anger: ['bravo', 'raiva', 'odeio', 'irritado', 'furioso', 'golpe', 'aff', 'puto'],
+    sadness: ['triste', 'chorar', 'chorando', 'saudade', 'sozinho', 'infelizmente', 'dor', 'que pena'],
+    fear: ['medo', 'assustado', 'nervoso', 'preocupado', 'pânico', 'perigoso', 'risco'],
+    surprise: ['uau', 'nossa', 'caramba', 'surpresa', 'surpreso', 'inacreditável', 'não acredito'],
+    disgust: ['nojo', 'nojento', 'eca', 'credo', 'horroroso'],
+    trust: ['confiança', 'confiável', 'recomendo', 'honesto', 'autêntico', 'qualidade', 'vale a pena'],
+    anticipation: ['animado', 'animada', 'ansioso', 'ansiosa', 'logo', 'esperando', 'próximo', 'em breve']
+  },
+  slang: {
+    'kkk': 'risada',
+    'kkkk': 'muita risada',
+    'rs': 'risada',
+    'vc': 'você',
+    'tb': 'também',
+    'tbm': 'também',
+    'pq': 'porque',
+    'mt': 'muito',
+    'mto': 'muito',
+    'blz': 'beleza',
+    'sdds': 'saudades'
+  },
+  // Function words and the filler of spoken transcripts; never keyphrases, topic terms or brands
+  stopwords: [
+    'a', 'ao', 'aos', 'aquele', 'aquela', 'aqui', 'as', 'até', 'com', 'como', 'da', 'das', 'de', 'dela', 'dele',
+    'depois', 'do', 'dos', 'e', 'é', 'ela', 'elas', 'ele', 'eles', 'em', 'entre', 'era', 'essa', 'esse', 'isso',
+    'esta', 'está', 'estão', 'este', 'estou', 'eu', 'foi', 'há', 'isto', 'já', 'lhe', 'mais', 'mas', 'me', 'meu',
+    'minha', 'muito', 'na', 'nas', 'não', 'nem', 'no', 'nos', 'nós', 'num', 'numa', 'o', 'os', 'ou', 'para',
+    'pela', 'pelo', 'por', 'porque', 'pra', 'quando', 'que', 'quem', 'se', 'sem', 'ser', 'seu', 'sua', 'são',
+    'só', 'também', 'te', 'tem', 'ter', 'tudo', 'um', 'uma', 'uns', 'você', 'vocês', 'vou',
+    'né', 'tipo', 'então', 'aí', 'gente', 'galera', 'coisa', 'coisas', 'tá', 'tô', 'assim', 'bem', 'agora',
+    'fazer', 'fiz', 'acho', 'olha', 'sabe', 'ah', 'eh', 'hum', 'mano', 'literalmente'
+  ],
+  // Aspects influencer-marketing clients ask about, with the words that signal them
+  aspects: {
+    price: ['preço', 'preços', 'custa', 'custam', 'caro', 'cara', 'barato', 'barata', 'em conta', 'promoção', 'reais', 'vale a pena'],
+    quality: ['qualidade', 'bem feito', 'durável', 'resistente', 'frágil', 'material', 'materiais', 'acabamento'],
+    shipping: ['frete', 'entrega', 'chegou', 'pacote', 'embalagem', 'enviaram', 'correios', 'transportadora'],
+    'customer service': ['atendimento', 'suporte', 'reembolso', 'devolução', 'troca', 'sac'],
+    design: ['design', 'visual', 'cor', 'cores', 'estilo', 'estética', 'aparência'],
+    taste: ['sabor', 'gosto', 'delicioso', 'deliciosa', 'gostoso', 'gostosa', 'sem gosto'],
+    size: ['tamanho', 'tamanhos', 'numeração', 'serviu', 'pequeno', 'grande', 'apertado', 'largo'],
+    performance: ['desempenho', 'bateria', 'velocidade', 'rápido', 'lento', 'funciona', 'trava']
+  },
+  emphasis: {
+    intensifier: 'muito',
+    excitement: 'com empolgação',
+    confusion: 'com confusão'
+  }
+};
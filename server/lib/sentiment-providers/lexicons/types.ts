@@ -0,0 +1,29 @@
+import type { Emotion, Language } from "@shared/schema";
+
+/**
+ * Everything the local analyzer, the text preprocessing and the phrase and
+ * aspect extractors need to know about one language. Entries may be phrases
+ * as well as single words.
+ */
+export interface SentimentLexicon {
+  language: Language;
+  strongPositive: string[]; // Weight 3
+  moderatePositive: string[]; // Weight 2
+  mildPositive: string[]; // Weight 1
+  strongNegative: string[]; // Weight -3
+  moderateNegative: string[]; // Weight -2
+  mildNegative: string[]; // Weight -1
+  negations: string[]; // Reverse and weaken the sentiment of the text
+  intensifiers: string[]; // Strengthen it in whichever direction it leans
+  affirmations: string[]; // Slang that nudges a text positive
+  dismissals: string[]; // Slang that nudges a text negative
+  emotions: Record<Emotion, string[]>;
+  slang: Record<string, string>; // Abbreviations spelled out before any provider scores the text
+  stopwords: string[]; // Left out of keyphrases, topic terms and brand guesses
+  aspects: Record<string, string[]>; // Default aspects, named in English so they aggregate across languages, with their signal words
+  emphasis: {
+    intensifier: string; // Replaces stretched words ("sooo good")
+    excitement: string; // Replaces "!!!"
+    confusion: string; // Replaces "???"
+  };
+}
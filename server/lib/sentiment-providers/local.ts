@@ -0,0 +1,182 @@
+import { DEFAULT_LANGUAGE, type Language } from "@shared/schema";
+import { confidenceFor, normalizeScores } from "@shared/sentiment-scale";
+import { scoreEmotions } from "./emotion-lexicon";
+import { getLexicon, type SentimentLexicon } from "./lexicons";
+import { wholeWords } from "./text";
+import type { SentimentProvider, SentimentResult } from "./types";
+
+// Lexicon weight each side needs before a text can count as mixed
+const MIXED_MIN_WEIGHT = 2;
+
+// How close the weaker side must come to the stronger one (0–1) for a text to count as mixed
+const MIXED_MIN_BALANCE = 0.5;
+
+interface LexiconPatterns {
+  terms: RegExp; // Every weighted entry, longest first so a phrase wins over the words inside it
+  weights: Map<string, number>;
+  negations: RegExp;
+  intensifiers: RegExp;
+  affirmations: RegExp;
+  dismissals: RegExp;
+}
+
+/**
+ * Weighted per-language lexicons with social media slang; needs no credentials, so it is the last resort
+ */
+export class LocalLexiconSentimentProvider implements SentimentProvider {
+  readonly name = 'local';
+  readonly model = 'social-lexicon';
+  readonly version = '6';
+  private patternCache = new Map<Language, LexiconPatterns>();
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async analyze(text: string, language: Language = DEFAULT_LANGUAGE): Promise<SentimentResult> {
+    // Enhanced lexicon-based approach with social media awareness
+    const sentimentLexicon = getLexicon(language);
+    const patterns = this.patternsFor(sentimentLexicon);
+
+    const textLower = text.toLowerCase();
+    const words = textLower.split(/\s+/);
+    let totalScore = 0;
+    let sentimentWordCount = 0;
+    // Kept apart so opposing words can be recognised as mixed rather than cancelling out
+    let positiveWeight = 0;
+    let negativeWeight = 0;
+    
+    // Analyze each lexicon word or phrase with weighted scoring
+    for (const [term] of Array.from(textLower.matchAll(patterns.terms))) {
+      const weight = patterns.weights.get(term)!;
+      totalScore += weight;
+      sentimentWordCount++;
+      if (weight > 0) positiveWeight += weight;
+      else negativeWeight -= weight;
+    }
+
+    // Check for contextual patterns, outside the scored entries so the "not"
+    // of "not bad" does not flip the phrase it belongs to
+    const context = textLower.replace(patterns.terms, ' ');
+    
+    // Boost for enthusiasm markers
+    if (/!{2,}/.test(text)) totalScore += 1;
+    if (/[A-Z]{3,}/.test(text)) totalScore += 0.5; // ALL CAPS words
+    if (patterns.intensifiers.test(context)) totalScore += (totalScore > 0 ? 1 : -1);
+    
+    // Detect negation patterns
+    if (patterns.negations.test(context)) {
+      totalScore *= -0.5; // Reverse and weaken sentiment
+    }
+    
+    // Social media specific patterns
+    if (patterns.affirmations.test(context)) totalScore += 0.5;
+    if (patterns.dismissals.test(context)) totalScore -= 0.5;
+    
+    // Calculate percentages with improved distribution
+    const maxPossibleScore = words.length * 3; // Theoretical maximum
+    const normalizedScore = totalScore / Math.max(1, maxPossibleScore);
+    
+    let positivePercentage, neutralPercentage, negativePercentage;
+    
+    if (totalScore > 1) {
+      // Strong positive sentiment
+      positivePercentage = Math.min(85, 50 + (normalizedScore * 35));
+      negativePercentage = Math.max(5, 15 - (normalizedScore * 10));
+      neutralPercentage = 100 - positivePercentage - negativePercentage;
+    } else if (totalScore < -1) {
+      // Strong negative sentiment  
+      negativePercentage = Math.min(85, 50 + (Math.abs(normalizedScore) * 35));
+      positivePercentage = Math.max(5, 15 - (Math.abs(normalizedScore) * 10));
+      neutralPercentage = 100 - positivePercentage - negativePercentage;
+    } else if (totalScore > 0) {
+      // Mild positive
+      positivePercentage = Math.min(70, 35 + (normalizedScore * 25));
+      negativePercentage = Math.max(10, 20 - (normalizedScore * 10));
+      neutralPercentage = 100 - positivePercentage - negativePercentage;
+    } else if (totalScore < 0) {
+      // Mild negative
+      negativePercentage = Math.min(70, 35 + (Math.abs(normalizedScore) * 25));
+      positivePercentage = Math.max(10, 20 - (Math.abs(normalizedScore) * 10));
+      neutralPercentage = 100 - positivePercentage - negativePercentage;
+    } else {
+      // Truly neutral
+      neutralPercentage = 60;
+      positivePercentage = 20;
+      negativePercentage = 20;
+    }
+    
+    // Both sides carry real weight and neither clearly wins: mixed
+    let mixedPercentage = 0;
+    const balance = Math.min(positiveWeight, negativeWeight) / Math.max(1, positiveWeight, negativeWeight);
+    if (Math.min(positiveWeight, negativeWeight) >= MIXED_MIN_WEIGHT && balance >= MIXED_MIN_BALANCE) {
+      mixedPercentage = 30 + (balance * 30);
+      const remaining = (100 - mixedPercentage) / 100;
+      positivePercentage *= remaining;
+      neutralPercentage *= remaining;
+      negativePercentage *= remaining;
+    }
+
+    // Determine dominant sentiment
+    let dominantSentiment = 'NEUTRAL';
+    if (mixedPercentage > 0) {
+      dominantSentiment = 'MIXED';
+    } else if (positivePercentage > negativePercentage && positivePercentage > neutralPercentage) {
+      dominantSentiment = 'POSITIVE';
+    } else if (negativePercentage > positivePercentage && negativePercentage > neutralPercentage) {
+      dominantSentiment = 'NEGATIVE';
+    }
+    
+    const scores = normalizeScores({
+      positive: positivePercentage,
+      neutral: neutralPercentage,
+      negative: negativePercentage,
+      mixed: mixedPercentage
+    });
+
+    return {
+      sentiment: dominantSentiment,
+      confidence: confidenceFor(dominantSentiment, scores),
+      scores,
+      emotions: scoreEmotions(text, language)
+    };
+  }
+
+  // Scoring is local, so a batch is just each text in turn
+  async analyzeBatch(texts: string[], language: Language = DEFAULT_LANGUAGE): Promise<SentimentResult[]> {
+    return Promise.all(texts.map(text => this.analyze(text, language)));
+  }
+
+  // Compiled once per language; whole words only, so "ne" does not match inside "une"
+  private patternsFor(lexicon: SentimentLexicon): LexiconPatterns {
+    let patterns = this.patternCache.get(lexicon.language);
+    if (!patterns) {
+      // An entry listed in several tiers keeps the first, strongest positive first
+      const weights = new Map<string, number>();
+      const tiers: Array<[string[], number]> = [
+        [lexicon.strongPositive, 3],
+        [lexicon.moderatePositive, 2],
+        [lexicon.mildPositive, 1],
+        [lexicon.strongNegative, -3],
+        [lexicon.moderateNegative, -2],
+        [lexicon.mildNegative, -1]
+      ];
+      for (const [terms, weight] of tiers) {
+        for (const term of terms) {
+          if (!weights.has(term)) weights.set(term, weight);
+        }
+      }
+
+      patterns = {
+        terms: wholeWords(Array.from(weights.keys()).sort((a, b) => b.length - a.length), 'gu'),
+        weights,
+        negations: wholeWords(lexicon.negations),
+        intensifiers: wholeWords(lexicon.intensifiers),
+        affirmations: wholeWords(lexicon.affirmations),
+        dismissals: wholeWords(lexicon.dismissals)
+      };
+      this.patternCache.set(lexicon.language, patterns);
+    }
+    return patterns;
+  }
+}
@@ -0,0 +1,191 @@
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, type Language } from "@shared/schema";
+import { providerLimiters } from "../concurrency";
+import { confidenceFor, normalizeEmotions, normalizeScores } from "@shared/sentiment-scale";
+import type { SentimentProvider, SentimentResult } from "./types";
+
+const OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * Sentiment from an OpenAI chat model prompted for social media content
+ */
+export class OpenAISentimentProvider implements SentimentProvider {
+  readonly name = 'openai';
+  readonly model = OPENAI_MODEL;
+  readonly version = '5';
+  private openaiApiKey: string;
+
+  constructor() {
+    this.openaiApiKey = process.env.OPENAI_API_KEY || "";
+  }
+
+  isConfigured(): boolean {
+    return !!this.openaiApiKey;
+  }
+
+  async analyze(text: string, language: Language = DEFAULT_LANGUAGE): Promise<SentimentResult> {
+    try {
+      const enhancedPrompt = `You are an expert sentiment analyst specializing in social media content from TikTok, Instagram Reels, and YouTube Shorts. 
+
+Analyze the sentiment of this ${LANGUAGE_NAMES[language]} video transcript with these considerations:
+- Social media language patterns (slang, abbreviations, emojis)
+- Generational communication styles (Gen Z, millennial expressions)
+- Context clues and implicit emotions
+- Sarcasm, humor, and irony detection
+- Energy levels and enthusiasm indicators
+- Cultural references and trending phrases
+- Slang and idioms of ${LANGUAGE_NAMES[language]}-speaking creators, judged in the original language rather than translated
+
+Be sensitive to nuanced emotions that might appear neutral but contain subtle positive/negative undertones.
+
+Examples of nuanced sentiment:
+- "not bad" = mildly positive
+- "could be worse" = cautiously positive
+- "whatever" = mildly negative/dismissive
+- "I guess" = uncertain/slightly negative
+- "kinda cool" = moderately positive
+- "lowkey amazing" = strongly positive but understated
+
+Respond with ONLY a JSON object in this exact format:
+{"sentiment": "POSITIVE|NEGATIVE|NEUTRAL|MIXED", "scores": {"positive": 0.25, "neutral": 0.4, "negative": 0.25, "mixed": 0.1}, "emotions": {"joy": 0.6, "anger": 0, "sadness": 0, "fear": 0, "surprise": 0.3, "disgust": 0, "trust": 0.2, "anticipation": 0.5}}
+
+Guidelines for scoring:
+- Use MIXED when the text clearly contains both positive and negative sentiment (e.g. praise for one thing and complaints about another)
+- Scores are probabilities between 0 and 1 and must add up to 1
+- The chosen sentiment should have the highest score
+- Avoid extreme neutral bias (like 5% positive, 90% neutral, 5% negative)
+- Consider emotional intensity and context
+- Emotions are independent intensities between 0 and 1 (they do not need to add up to 1); use 0 for emotions that are absent
+
+Text to analyze: "${text}"`;
+
+      const response = await providerLimiters.openai.run(() => fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.openaiApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{
+            role: 'system',
+            content: 'You are a highly skilled sentiment analysis expert specializing in social media content. You understand nuanced emotions, cultural context, and generational communication patterns.'
+          }, {
+            role: 'user',
+            content: enhancedPrompt
+          }],
+          temperature: 0.2,
+          max_tokens: 150
+        })
+      }));
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices[0]?.message?.content || "";
+      
+      try {
+        // Clean the response in case there's extra text
+        const jsonMatch = content.match(/\{[\s\S]*\}/);
+        const jsonString = jsonMatch ? jsonMatch[0] : content;
+        const result = JSON.parse(jsonString);
+        
+        // Validate the response structure
+        if (!result.sentiment || !result.scores) {
+          throw new Error("Invalid response structure from OpenAI");
+        }
+        
+        const sentiment = result.sentiment.toUpperCase();
+        const scores = normalizeScores({
+          positive: Number(result.scores.positive) || 0,
+          neutral: Number(result.scores.neutral) || 0,
+          negative: Number(result.scores.negative) || 0,
+          mixed: Number(result.scores.mixed) || 0
+        });
+
+        return {
+          sentiment,
+          confidence: confidenceFor(sentiment, scores),
+          scores,
+          emotions: normalizeEmotions(result.emotions || {})
+        };
+      } catch (parseError) {
+        console.error("Failed to parse OpenAI response:", content);
+        console.error("Parse error:", parseError);
+        throw parseError;
+      }
+    } catch (error) {
+      console.error("OpenAI error:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scores several short texts (timeline windows, the sentences around a phrase)
+   * in one chat request. Emotions are left out; they are only read from whole transcripts.
+   */
+  async analyzeBatch(texts: string[], language: Language = DEFAULT_LANGUAGE): Promise<SentimentResult[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    try {
+      const batchPrompt = `Analyze the sentiment of each of these ${texts.length} excerpts of one ${LANGUAGE_NAMES[language]} social media video transcript.
+Judge slang, sarcasm and humor in the original language, and score each excerpt on its own.
+
+Respond with ONLY a JSON object holding one entry per excerpt, in the same order, in this exact format:
+{"results": [{"sentiment": "POSITIVE|NEGATIVE|NEUTRAL|MIXED", "scores": {"positive": 0.25, "neutral": 0.4, "negative": 0.25, "mixed": 0.1}}]}
+
+Scores are probabilities between 0 and 1 that add up to 1, and the chosen sentiment has the highest score.
+
+Excerpts (JSON array): ${JSON.stringify(texts)}`;
+
+      const response = await providerLimiters.openai.run(() => fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.openaiApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{
+            role: 'system',
+            content: 'You are a highly skilled sentiment analysis expert specializing in social media content. You understand nuanced emotions, cultural context, and generational communication patterns.'
+          }, {
+            role: 'user',
+            content: batchPrompt
+          }],
+          temperature: 0.2,
+          max_tokens: 60 * texts.length + 50,
+          response_format: { type: 'json_object' }
+        })
+      }));
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices[0]?.message?.content || "";
+      const results = JSON.parse(content).results;
+      if (!Array.isArray(results) || results.length !== texts.length) {
+        throw new Error(`OpenAI returned ${Array.isArray(results) ? results.length : 'no'} results for ${texts.length} excerpts`);
+      }
+
+      return results.map((result: any) => {
+        const sentiment = String(result?.sentiment || 'NEUTRAL').toUpperCase();
+        const scores = normalizeScores({
+          positive: Number(result?.scores?.positive) || 0,
+          neutral: Number(result?.scores?.neutral) || 0,
+          negative: Number(result?.scores?.negative) || 0,
+          mixed: Number(result?.scores?.mixed) || 0
+        });
+        return { sentiment, confidence: confidenceFor(sentiment, scores), scores };
+      });
+    } catch (error) {
+      console.error("OpenAI batch error:", error);
+      throw error;
+    }
+  }
+}
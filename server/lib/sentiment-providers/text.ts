@@ -0,0 +1,27 @@
+import { DEFAULT_LANGUAGE, type Language } from "@shared/schema";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits text into sentences; shared by providers that score sentence by sentence
+ */
+export function splitIntoSentences(text: string, language: Language = DEFAULT_LANGUAGE): string[] {
+  // Use Intl.Segmenter if available, otherwise fallback to regex
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), s => s.segment.trim()).filter(s => s.length > 0);
+  }
+  
+  // Fallback regex-based sentence splitting
+  return text.split(/[.!?]+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+/**
+ * Matches any of the terms as whole words or phrases. Unlike \b this treats
+ * accented letters as part of a word.
+ */
+export function wholeWords(terms: string[], flags = 'u'): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}_])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{M}\\p{N}_])`, flags);
+}
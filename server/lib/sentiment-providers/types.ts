@@ -0,0 +1,25 @@
+import type { Language, SentimentProviderName } from "@shared/schema";
+import type { EmotionScores, SentimentScores } from "@shared/sentiment-scale";
+
+/**
+ * Scores are probabilities in 0–1 summing to 1; confidence is the probability
+ * of the chosen label (see sentimentResultSchema)
+ */
+export interface SentimentResult {
+  sentiment: string;
+  confidence: number;
+  scores: SentimentScores;
+  emotions?: EmotionScores; // Per-emotion intensities in 0–1
+}
+
+/**
+ * A backend that scores the sentiment of a piece of text (an LLM, a cloud NLP API, a local lexicon, ...)
+ */
+export interface SentimentProvider {
+  readonly name: SentimentProviderName;
+  readonly model: string;
+  readonly version: string; // Bumped whenever the prompt, lexicon or score mapping changes
+  isConfigured(): boolean;
+  analyze(text: string, language: Language): Promise<SentimentResult>; // Language of the text, as detected or requested
+  analyzeBatch(texts: string[], language: Language): Promise<SentimentResult[]>; // One result per text, in order, in as few requests as the backend allows
+}
@@ -1,465 +1,380 @@
-export interface SentimentResult {
-  sentiment: string;
-  confidence: number;
-  scores?: {
-    positive: number;
-    negative: number;
-    neutral: number;
-    mixed?: number;
-  };
+import { DEFAULT_LANGUAGE, SENTIMENT_LABELS, SENTIMENT_PROVIDERS, type AspectSentiment, type AudienceSentiment, type BrandMention, type Keyphrase, type Language, type SentimentCounts, type SentimentLabel, type SentimentProviderName, type SentimentTimelinePoint, type TranscriptSegment, type WatchlistTerm } from "@shared/schema";
+import { normalizeScores, sentimentResultSchema, type SentimentScores } from "@shared/sentiment-scale";
+import type { SentimentProvider, SentimentResult } from "./sentiment-providers/types";
+import { OpenAISentimentProvider } from "./sentiment-providers/openai";
+import { AwsComprehendSentimentProvider } from "./sentiment-providers/aws-comprehend";
+import { LocalLexiconSentimentProvider } from "./sentiment-providers/local";
+import { getLexicon } from "./sentiment-providers/lexicons";
+import { splitIntoSentences, wholeWords } from "./sentiment-providers/text";
+import { extractAspects } from "./aspect-extractor";
+import { detectBrandMentions } from "./brand-mention-detector";
+import { rankKeyphrases } from "./phrase-extractor";
+import { expandSocialTags } from "./social-tags";
+import { detectLanguage } from "./language-detector";
+
+// Upper bound on scored windows per video, which also bounds the size of its scoring batch
+const MAX_TIMELINE_POINTS = 12;
+
+// Representative comments kept per polarity
+const SAMPLE_COMMENTS = 3;
+
+// Example sentences kept per aspect
+const SAMPLE_SNIPPETS = 2;
+
+// Mentions scored per watchlist brand; further mentions are only counted
+const MAX_SCORED_MENTIONS = 5;
+
+const polarityOf = (scores: SentimentScores) => Math.round((scores.positive - scores.negative) * 100) / 100;
+
+export type { SentimentResult };
+
+// Result annotated with the backend that actually produced it
+export interface AttributedSentimentResult extends SentimentResult {
+  sentiment: SentimentLabel;
+  provider: SentimentProviderName;
+  model: string;
+  providerVersion: string;
 }
 
-export class SentimentService {
-  private awsAccessKey: string;
-  private awsSecretKey: string;
-  private awsRegion: string;
-  private openaiApiKey: string;
-
-  constructor() {
-    this.awsAccessKey = process.env.AWS_ACCESS_KEY_ID || "";
-    this.awsSecretKey = process.env.AWS_SECRET_ACCESS_KEY || "";
-    this.awsRegion = process.env.AWS_REGION || "us-east-1";
-    this.openaiApiKey = process.env.OPENAI_API_KEY || "";
-  }
+// Texts scored together, all by the one backend named
+export interface AttributedSentimentBatch {
+  results: Array<SentimentResult & { sentiment: SentimentLabel }>;
+  provider: SentimentProviderName;
+  model: string;
+  providerVersion: string;
+}
 
-  async analyzeSentiment(text: string): Promise<SentimentResult> {
-    // Preprocess text for better social media analysis
-    const preprocessedText = this.preprocessSocialMediaText(text);
-    
-    try {
-      // Try OpenAI first (primary option)
-      if (this.openaiApiKey) {
-        return await this.analyzeWithOpenAI(preprocessedText);
-      }
-      
-      // Fallback to AWS Comprehend
-      if (this.awsAccessKey && this.awsSecretKey) {
-        const sentences = this.splitIntoSentences(preprocessedText);
-        return await this.analyzeWithAWS(sentences);
-      }
-      
-      // Final fallback to local analysis
-      return this.analyzeWithLocal(preprocessedText);
-    } catch (error) {
-      console.error("Error in sentiment analysis:", error);
-      // Try fallback methods if primary fails
-      try {
-        if (this.awsAccessKey && this.awsSecretKey) {
-          const sentences = this.splitIntoSentences(preprocessedText);
-          return await this.analyzeWithAWS(sentences);
-        }
-      } catch (awsError) {
-        console.error("AWS fallback also failed:", awsError);
-      }
-      
-      // Return local analysis as final fallback
-      return this.analyzeWithLocal(preprocessedText);
-    }
-  }
+const sentimentProviders: Record<SentimentProviderName, () => SentimentProvider> = {
+  openai: () => new OpenAISentimentProvider(),
+  'aws-comprehend': () => new AwsComprehendSentimentProvider(),
+  local: () => new LocalLexiconSentimentProvider(),
+};
 
-  private preprocessSocialMediaText(text: string): string {
-    // Convert common social media expressions and emojis to sentiment-rich text
-    let processed = text;
-    
-    // Handle common social media abbreviations and slang
-    const socialMediaMappings = {
-      'lol': 'laughing out loud',
-      'lmao': 'laughing very hard',
-      'omg': 'oh my god',
-      'wtf': 'what the hell',
-      'tbh': 'to be honest',
-      'ngl': 'not going to lie',
-      'fr': 'for real',
-      'no cap': 'no lie',
-      'periodt': 'period emphasis',
-      'slay': 'amazing performance',
-      'fire': 'excellent',
-      'lowkey': 'somewhat',
-      'highkey': 'definitely',
-      'sus': 'suspicious',
-      'bet': 'yes definitely',
-      'fam': 'friend',
-      'bruh': 'disappointed expression',
-      'oop': 'awkward moment',
-      'stan': 'really support',
-      'slaps': 'is really good',
-      'hits different': 'is uniquely good',
-      'vibes': 'feeling',
-      'mood': 'relatable feeling'
-    };
-    
-    // Replace abbreviations with full sentiment-bearing phrases
-    for (const [abbrev, full] of Object.entries(socialMediaMappings)) {
-      const regex = new RegExp(`\\b${abbrev}\\b`, 'gi');
-      processed = processed.replace(regex, full);
-    }
-    
-    // Handle repeated letters for emphasis (e.g., "sooooo good" -> "very good")
-    processed = processed.replace(/(\w)\1{2,}/g, (match, letter) => {
-      return `very ${letter}`;
-    });
-    
-    // Handle multiple exclamation/question marks
-    processed = processed.replace(/!{2,}/g, ' with excitement');
-    processed = processed.replace(/\?{2,}/g, ' with confusion');
-    
-    // Clean up extra spaces
-    processed = processed.replace(/\s+/g, ' ').trim();
-    
-    return processed;
+// Tried in order until one succeeds; the local lexicon always does
+const FALLBACK_ORDER: SentimentProviderName[] = ['openai', 'aws-comprehend', 'local'];
+
+export class SentimentService {
+  private providers: Record<SentimentProviderName, SentimentProvider>;
+
+  /**
+   * allowedProviders bounds the whole chain, fallbacks included, e.g. to the
+   * providers of a user's plan
+   */
+  constructor(
+    private allowedProviders: readonly SentimentProviderName[] = SENTIMENT_PROVIDERS,
+    providers?: Record<SentimentProviderName, SentimentProvider>
+  ) {
+    this.providers = providers ?? Object.fromEntries(
+      Object.entries(sentimentProviders).map(([name, createProvider]) => [name, createProvider()])
+    ) as Record<SentimentProviderName, SentimentProvider>;
   }
 
-  private splitIntoSentences(text: string): string[] {
-    // Use Intl.Segmenter if available, otherwise fallback to regex
-    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
-      const segmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
-      return Array.from(segmenter.segment(text), s => s.segment.trim()).filter(s => s.length > 0);
-    }
-    
-    // Fallback regex-based sentence splitting
-    return text.split(/[.!?]+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
+  // Same providers, and their caches, limited to allowedProviders
+  restrictedTo(allowedProviders: readonly SentimentProviderName[]): SentimentService {
+    return new SentimentService(allowedProviders, this.providers);
   }
 
-  private async analyzeWithAWS(sentences: string[]): Promise<SentimentResult> {
-    try {
-      // AWS Comprehend implementation
-      const AWS = await import('@aws-sdk/client-comprehend');
-      const client = new AWS.ComprehendClient({
-        region: this.awsRegion,
-        credentials: {
-          accessKeyId: this.awsAccessKey,
-          secretAccessKey: this.awsSecretKey
-        }
-      });
+  /**
+   * Scores text with the preferred provider, falling back through the rest of
+   * the chain when it is unconfigured, fails, or returns scores off the shared
+   * 0–1 scale. The result records which provider produced it.
+   */
+  async analyzeSentiment(
+    text: string,
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<AttributedSentimentResult> {
+    // Preprocess text for better social media analysis
+    const preprocessedText = this.preprocessSocialMediaText(text, language);
 
-      const sentimentResults = [];
-      
-      for (const sentence of sentences) {
-        if (sentence.length < 3) continue; // Skip very short sentences
-        
-        const command = new AWS.DetectSentimentCommand({
-          Text: sentence,
-          LanguageCode: 'en'
-        });
-        
-        const result = await client.send(command);
-        sentimentResults.push(result);
+    for (const provider of this.providerChain(preferredProvider)) {
+      try {
+        const result = sentimentResultSchema.parse(await provider.analyze(preprocessedText, language));
+        return { ...result, provider: provider.name, model: provider.model, providerVersion: provider.version };
+      } catch (error) {
+        console.error(`Sentiment provider ${provider.name} failed:`, error);
       }
-
-      // Aggregate results
-      return this.aggregateAWSSentiments(sentimentResults);
-    } catch (error) {
-      console.error("AWS Comprehend error:", error);
-      throw error;
     }
+
+    throw new Error("No sentiment provider was able to analyze the text");
   }
 
-  private async analyzeWithOpenAI(text: string): Promise<SentimentResult> {
-    try {
-      const enhancedPrompt = `You are an expert sentiment analyst specializing in social media content from TikTok, Instagram Reels, and YouTube Shorts. 
-
-Analyze the sentiment of this video transcript with these considerations:
-- Social media language patterns (slang, abbreviations, emojis)
-- Generational communication styles (Gen Z, millennial expressions)
-- Context clues and implicit emotions
-- Sarcasm, humor, and irony detection
-- Energy levels and enthusiasm indicators
-- Cultural references and trending phrases
-
-Be sensitive to nuanced emotions that might appear neutral but contain subtle positive/negative undertones.
-
-Examples of nuanced sentiment:
-- "not bad" = mildly positive
-- "could be worse" = cautiously positive
-- "whatever" = mildly negative/dismissive
-- "I guess" = uncertain/slightly negative
-- "kinda cool" = moderately positive
-- "lowkey amazing" = strongly positive but understated
-
-Respond with ONLY a JSON object in this exact format:
-{"sentiment": "POSITIVE|NEGATIVE|NEUTRAL", "confidence": 85, "scores": {"positive": 25, "neutral": 50, "negative": 25}}
-
-Guidelines for scoring:
-- Confidence: 60-95 (higher for clear sentiment, lower for ambiguous)
-- Scores must add up to 100
-- Avoid extreme neutral bias (like 5% positive, 90% neutral, 5% negative)
-- Consider emotional intensity and context
-
-Text to analyze: "${text}"`;
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [{
-            role: 'system',
-            content: 'You are a highly skilled sentiment analysis expert specializing in social media content. You understand nuanced emotions, cultural context, and generational communication patterns.'
-          }, {
-            role: 'user',
-            content: enhancedPrompt
-          }],
-          temperature: 0.2,
-          max_tokens: 150
-        })
-      });
+  /**
+   * Scores several texts in as few requests as the provider allows. The batch
+   * falls back through the chain as a whole, so every text in it is scored by
+   * the same provider and the texts stay comparable with each other.
+   */
+  async analyzeSentimentBatch(
+    texts: string[],
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<AttributedSentimentBatch> {
+    const preprocessedTexts = texts.map(text => this.preprocessSocialMediaText(text, language));
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content || "";
-      
+    for (const provider of this.providerChain(preferredProvider)) {
       try {
-        // Clean the response in case there's extra text
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        const jsonString = jsonMatch ? jsonMatch[0] : content;
-        const result = JSON.parse(jsonString);
-        
-        // Validate the response structure
-        if (!result.sentiment || !result.scores) {
-          throw new Error("Invalid response structure from OpenAI");
-        }
-        
-        // Ensure scores add up to 100
-        const totalScore = result.scores.positive + result.scores.neutral + result.scores.negative;
-        if (Math.abs(totalScore - 100) > 1) {
-          // Normalize scores if they don't add up to 100
-          const factor = 100 / totalScore;
-          result.scores.positive = Math.round(result.scores.positive * factor);
-          result.scores.negative = Math.round(result.scores.negative * factor);
-          result.scores.neutral = 100 - result.scores.positive - result.scores.negative;
+        const results = await provider.analyzeBatch(preprocessedTexts, language);
+        if (results.length !== texts.length) {
+          throw new Error(`Expected ${texts.length} results, got ${results.length}`);
         }
-        
         return {
-          sentiment: result.sentiment.toUpperCase(),
-          confidence: Math.max(60, Math.min(95, result.confidence || 75)),
-          scores: {
-            positive: Math.max(0, result.scores.positive),
-            neutral: Math.max(0, result.scores.neutral),
-            negative: Math.max(0, result.scores.negative)
-          }
+          results: results.map(result => sentimentResultSchema.parse(result)),
+          provider: provider.name,
+          model: provider.model,
+          providerVersion: provider.version
         };
-      } catch (parseError) {
-        console.error("Failed to parse OpenAI response:", content);
-        console.error("Parse error:", parseError);
-        throw parseError;
+      } catch (error) {
+        console.error(`Sentiment provider ${provider.name} failed on a batch of ${texts.length} texts:`, error);
       }
-    } catch (error) {
-      console.error("OpenAI error:", error);
-      throw error;
     }
+
+    throw new Error("No sentiment provider was able to analyze the texts");
   }
 
-  private analyzeWithLocal(text: string): SentimentResult {
-    // Enhanced lexicon-based approach with social media awareness
-    const sentimentLexicon = {
-      // Strong positive (weight: 3)
-      strongPositive: [
-        'amazing', 'awesome', 'fantastic', 'incredible', 'outstanding', 'brilliant', 'perfect',
-        'excellent', 'wonderful', 'superb', 'marvelous', 'terrific', 'fabulous', 'phenomenal',
-        'breathtaking', 'magnificent', 'spectacular', 'extraordinary', 'exceptional', 'flawless',
-        // Social media positive
-        'fire', 'slay', 'slaps', 'banger', 'iconic', 'legendary', 'goat', 'chef', 'kiss'
-      ],
-      
-      // Moderate positive (weight: 2)
-      moderatePositive: [
-        'good', 'nice', 'great', 'cool', 'sweet', 'solid', 'decent', 'fine', 'okay', 'alright',
-        'happy', 'pleased', 'satisfied', 'glad', 'excited', 'thrilled', 'delighted', 'enjoy',
-        'like', 'appreciate', 'recommend', 'impressive', 'helpful', 'useful', 'effective',
-        // Social media moderate positive
-        'vibes', 'mood', 'valid', 'bet', 'facts', 'real', 'true', 'based', 'w', 'dub'
-      ],
-      
-      // Mild positive (weight: 1)
-      mildPositive: [
-        'kinda', 'somewhat', 'pretty', 'quite', 'fairly', 'rather', 'not bad', 'could be worse',
-        'getting better', 'improving', 'progress', 'potential', 'promising', 'hopeful',
-        // Social media mild positive
-        'lowkey', 'ngl', 'tbh', 'fr', 'periodt', 'no cap', 'stan', 'support'
-      ],
-      
-      // Strong negative (weight: -3)
-      strongNegative: [
-        'terrible', 'awful', 'horrible', 'disgusting', 'pathetic', 'worst', 'hate', 'despise',
-        'atrocious', 'appalling', 'dreadful', 'abysmal', 'catastrophic', 'disastrous', 'nightmare',
-        'garbage', 'trash', 'worthless', 'useless', 'hopeless', 'devastating', 'crushing',
-        // Social media strong negative
-        'cringe', 'yikes', 'oof', 'rip', 'dead', 'cancelled', 'toxic', 'sus'
-      ],
-      
-      // Moderate negative (weight: -2)
-      moderateNegative: [
-        'bad', 'poor', 'disappointing', 'frustrating', 'annoying', 'boring', 'dull', 'stupid',
-        'ridiculous', 'silly', 'pointless', 'waste', 'problem', 'issue', 'concern', 'worry',
-        'sad', 'angry', 'upset', 'mad', 'confused', 'lost', 'stuck', 'failed', 'wrong',
-        // Social media moderate negative
-        'meh', 'nah', 'cap', 'fake', 'mid', 'basic', 'cringe', 'awkward'
-      ],
-      
-      // Mild negative (weight: -1)
-      mildNegative: [
-        'whatever', 'meh', 'okay', 'fine', 'could be better', 'not great', 'not good',
-        'lacking', 'missing', 'weak', 'slow', 'difficult', 'hard', 'challenge', 'struggle',
-        // Social media mild negative
-        'bruh', 'smh', 'facepalm', 'sigh', 'ugh', 'tired', 'done', 'over it'
-      ]
-    };
+  /**
+   * Scores a transcript piece by piece. Timed segments are used when the provider
+   * supplied them, otherwise the transcript is split into sentences. Neighbouring
+   * pieces are merged so at most MAX_TIMELINE_POINTS windows are scored.
+   */
+  async analyzeTimeline(
+    text: string,
+    segments?: TranscriptSegment[] | null,
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<SentimentTimelinePoint[]> {
+    const pieces: Array<{ start: number | null; end: number | null; text: string }> = segments && segments.length > 0
+      ? segments
+      : splitIntoSentences(text, language).map(sentence => ({ start: null, end: null, text: sentence }));
 
-    const words = text.toLowerCase().split(/\s+/);
-    let totalScore = 0;
-    let sentimentWordCount = 0;
-    
-    // Analyze each word with weighted scoring
-    words.forEach(word => {
-      const cleanWord = word.replace(/[^\w]/g, '');
-      
-      if (sentimentLexicon.strongPositive.includes(cleanWord)) {
-        totalScore += 3;
-        sentimentWordCount++;
-      } else if (sentimentLexicon.moderatePositive.includes(cleanWord)) {
-        totalScore += 2;
-        sentimentWordCount++;
-      } else if (sentimentLexicon.mildPositive.includes(cleanWord)) {
-        totalScore += 1;
-        sentimentWordCount++;
-      } else if (sentimentLexicon.strongNegative.includes(cleanWord)) {
-        totalScore -= 3;
-        sentimentWordCount++;
-      } else if (sentimentLexicon.moderateNegative.includes(cleanWord)) {
-        totalScore -= 2;
-        sentimentWordCount++;
-      } else if (sentimentLexicon.mildNegative.includes(cleanWord)) {
-        totalScore -= 1;
-        sentimentWordCount++;
-      }
-    });
+    const windowSize = Math.ceil(pieces.length / MAX_TIMELINE_POINTS);
+    const windows = [];
+    for (let i = 0; i < pieces.length; i += windowSize) {
+      const group = pieces.slice(i, i + windowSize);
+      windows.push({
+        start: group[0].start,
+        end: group[group.length - 1].end,
+        text: group.map(piece => piece.text).join(' ')
+      });
+    }
 
-    // Check for contextual patterns
-    const textLower = text.toLowerCase();
-    
-    // Boost for enthusiasm markers
-    if (/!{2,}/.test(text)) totalScore += 1;
-    if (/[A-Z]{3,}/.test(text)) totalScore += 0.5; // ALL CAPS words
-    if (/very|really|so|super|extremely/.test(textLower)) totalScore += (totalScore > 0 ? 1 : -1);
-    
-    // Detect negation patterns
-    if (/not|never|don't|doesn't|didn't|won't|can't|shouldn't/.test(textLower)) {
-      totalScore *= -0.5; // Reverse and weaken sentiment
+    if (windows.length === 0) {
+      return [];
     }
-    
-    // Social media specific patterns
-    if (/no cap|for real|periodt/.test(textLower)) totalScore += 0.5;
-    if (/whatever|meh|bruh/.test(textLower)) totalScore -= 0.5;
-    
-    // Calculate percentages with improved distribution
-    const maxPossibleScore = words.length * 3; // Theoretical maximum
-    const normalizedScore = totalScore / Math.max(1, maxPossibleScore);
-    
-    let positivePercentage, neutralPercentage, negativePercentage;
-    
-    if (totalScore > 1) {
-      // Strong positive sentiment
-      positivePercentage = Math.min(85, 50 + (normalizedScore * 35));
-      negativePercentage = Math.max(5, 15 - (normalizedScore * 10));
-      neutralPercentage = 100 - positivePercentage - negativePercentage;
-    } else if (totalScore < -1) {
-      // Strong negative sentiment  
-      negativePercentage = Math.min(85, 50 + (Math.abs(normalizedScore) * 35));
-      positivePercentage = Math.max(5, 15 - (Math.abs(normalizedScore) * 10));
-      neutralPercentage = 100 - positivePercentage - negativePercentage;
-    } else if (totalScore > 0) {
-      // Mild positive
-      positivePercentage = Math.min(70, 35 + (normalizedScore * 25));
-      negativePercentage = Math.max(10, 20 - (normalizedScore * 10));
-      neutralPercentage = 100 - positivePercentage - negativePercentage;
-    } else if (totalScore < 0) {
-      // Mild negative
-      negativePercentage = Math.min(70, 35 + (Math.abs(normalizedScore) * 25));
-      positivePercentage = Math.max(10, 20 - (Math.abs(normalizedScore) * 10));
-      neutralPercentage = 100 - positivePercentage - negativePercentage;
-    } else {
-      // Truly neutral
-      neutralPercentage = 60;
-      positivePercentage = 20;
-      negativePercentage = 20;
+
+    // All windows go out in one batch, so the timeline costs one request rather than one per point
+    const { results, provider } = await this.analyzeSentimentBatch(windows.map(window => window.text), preferredProvider, language);
+    return windows.map((window, index) => ({
+      ...window,
+      sentiment: results[index].sentiment,
+      polarity: polarityOf(results[index].scores),
+      provider
+    }));
+  }
+
+  /**
+   * Scores each comment and aggregates them into the audience's sentiment.
+   * Resolves to null when there are no comments to score. Audiences are often
+   * multilingual, so each comment is scored in its own language when that can
+   * be told, and in the video's otherwise; comments are batched per language.
+   */
+  async analyzeAudience(
+    comments: string[],
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<AudienceSentiment | null> {
+    if (comments.length === 0) {
+      return null;
     }
-    
-    // Determine dominant sentiment
-    let dominantSentiment = 'NEUTRAL';
-    if (positivePercentage > negativePercentage && positivePercentage > neutralPercentage) {
-      dominantSentiment = 'POSITIVE';
-    } else if (negativePercentage > positivePercentage && negativePercentage > neutralPercentage) {
-      dominantSentiment = 'NEGATIVE';
+
+    const byLanguage = new Map<Language, number[]>();
+    comments.forEach((comment, index) => {
+      const commentLanguage = detectLanguage(comment) ?? language;
+      const group = byLanguage.get(commentLanguage);
+      if (group) group.push(index);
+      else byLanguage.set(commentLanguage, [index]);
+    });
+
+    const results: AttributedSentimentBatch['results'] = new Array(comments.length);
+    await Promise.all(Array.from(byLanguage.entries()).map(async ([commentLanguage, indexes]) => {
+      const batch = await this.analyzeSentimentBatch(indexes.map(index => comments[index]), preferredProvider, commentLanguage);
+      indexes.forEach((commentIndex, position) => {
+        results[commentIndex] = batch.results[position];
+      });
+    }));
+    const scored = comments.map((comment, index) => ({ comment, result: results[index] }));
+
+    const sentimentCounts: SentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 };
+    const totals = { positive: 0, neutral: 0, negative: 0, mixed: 0 };
+    for (const { result } of scored) {
+      sentimentCounts[result.sentiment]++;
+      totals.positive += result.scores.positive;
+      totals.neutral += result.scores.neutral;
+      totals.negative += result.scores.negative;
+      totals.mixed += result.scores.mixed;
     }
-    
-    // Calculate confidence based on sentiment word density and score strength
-    const sentimentDensity = sentimentWordCount / Math.max(1, words.length);
-    const baseConfidence = 60;
-    const densityBonus = sentimentDensity * 20;
-    const strengthBonus = Math.abs(totalScore) * 5;
-    const confidence = Math.min(90, Math.max(60, baseConfidence + densityBonus + strengthBonus));
+
+    const strongest = (sentiment: string, score: 'positive' | 'negative') => scored
+      .filter(({ result }) => result.sentiment === sentiment)
+      .sort((a, b) => b.result.scores[score] - a.result.scores[score])
+      .slice(0, SAMPLE_COMMENTS)
+      .map(({ comment }) => comment);
 
     return {
-      sentiment: dominantSentiment,
-      confidence: Math.round(confidence),
-      scores: {
-        positive: Math.round(positivePercentage),
-        neutral: Math.round(neutralPercentage),
-        negative: Math.round(negativePercentage)
-      }
+      commentCount: scored.length,
+      sentimentCounts,
+      scores: normalizeScores(totals),
+      positiveComments: strongest('POSITIVE', 'positive'),
+      negativeComments: strongest('NEGATIVE', 'negative')
     };
   }
 
-  private aggregateAWSSentiments(results: any[]): SentimentResult {
-    if (results.length === 0) {
-      return { sentiment: 'NEUTRAL', confidence: 50 };
+  /**
+   * Aspect-based mode: finds what the text says about each aspect (the
+   * requested ones, or common product aspects and recurring brand names)
+   * and scores only those sentences, all aspects in one batch. Unmentioned
+   * aspects are left out.
+   */
+  async analyzeAspects(
+    text: string,
+    aspects?: string[],
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<AspectSentiment[]> {
+    const mentions = extractAspects(text, aspects, language);
+    if (mentions.length === 0) {
+      return [];
     }
 
-    const sentimentCounts = { POSITIVE: 0, NEGATIVE: 0, NEUTRAL: 0, MIXED: 0 };
-    let totalConfidence = 0;
-    let totalPositive = 0;
-    let totalNeutral = 0;
-    let totalNegative = 0;
-
-    results.forEach(result => {
-      const sentiment = result.Sentiment;
-      sentimentCounts[sentiment as keyof typeof sentimentCounts]++;
-      
-      const scores = result.SentimentScore;
-      const maxScore = Math.max(scores.Positive, scores.Negative, scores.Neutral, scores.Mixed || 0);
-      totalConfidence += maxScore * 100;
-      
-      // Aggregate percentage scores (AWS returns 0-1, convert to 0-100)
-      totalPositive += scores.Positive * 100;
-      totalNeutral += scores.Neutral * 100;
-      totalNegative += scores.Negative * 100;
-    });
+    const { results } = await this.analyzeSentimentBatch(mentions.map(({ sentences }) => sentences.join(' ')), preferredProvider, language);
+    return mentions.map(({ aspect, sentences }, index) => ({
+      aspect,
+      mentions: sentences.length,
+      sentiment: results[index].sentiment,
+      scores: results[index].scores,
+      polarity: polarityOf(results[index].scores),
+      snippets: sentences.slice(0, SAMPLE_SNIPPETS)
+    }));
+  }
+
+  /**
+   * Ranks the keyphrases of the text and scores the sentences each one
+   * appears in, so a phrase carries the sentiment it was said with. All
+   * phrases are scored in one batch, by the same provider.
+   */
+  async analyzeKeyphrases(
+    text: string,
+    topN: number,
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<Keyphrase[]> {
+    const ranked = rankKeyphrases(text, topN, language);
+    if (ranked.length === 0) {
+      return [];
+    }
 
-    // Find dominant sentiment
-    const dominantSentiment = Object.entries(sentimentCounts)
-      .reduce((a, b) => sentimentCounts[a[0] as keyof typeof sentimentCounts] > sentimentCounts[b[0] as keyof typeof sentimentCounts] ? a : b)[0];
+    const { results, provider } = await this.analyzeSentimentBatch(ranked.map(({ sentences }) => sentences.join(' ')), preferredProvider, language);
+    return ranked.map(({ sentences, ...phrase }, index) => ({
+      ...phrase,
+      sentiment: results[index].sentiment,
+      polarity: polarityOf(results[index].scores),
+      provider
+    }));
+  }
 
-    const avgConfidence = Math.round(totalConfidence / results.length);
-    const avgPositive = Math.round(totalPositive / results.length);
-    const avgNeutral = Math.round(totalNeutral / results.length);
-    const avgNegative = Math.round(totalNegative / results.length);
+  /**
+   * Watchlist mode: scores the text around each mention of every watched
+   * brand, all brands in one batch. Brands that are never said are kept,
+   * flagged as not mentioned.
+   */
+  async analyzeBrandMentions(
+    text: string,
+    watchlist: WatchlistTerm[],
+    preferredProvider?: SentimentProviderName,
+    language: Language = DEFAULT_LANGUAGE
+  ): Promise<BrandMention[]> {
+    const occurrences = detectBrandMentions(text, watchlist);
 
-    return {
-      sentiment: dominantSentiment,
-      confidence: avgConfidence,
-      scores: {
-        positive: avgPositive,
-        neutral: avgNeutral,
-        negative: avgNegative
+    // Every scored mention of every brand goes out in one batch
+    const scoredSnippets = occurrences.flatMap(({ snippets }) => snippets.slice(0, MAX_SCORED_MENTIONS));
+    const { results } = scoredSnippets.length > 0
+      ? await this.analyzeSentimentBatch(scoredSnippets, preferredProvider, language)
+      : { results: [] };
+
+    let offset = 0;
+    return occurrences.map(({ brand, snippets }): BrandMention => {
+      if (snippets.length === 0) {
+        return { brand, mentioned: false, mentionCount: 0, sentiment: null, polarity: null, snippets: [] };
       }
-    };
+
+      const scored = snippets.slice(0, MAX_SCORED_MENTIONS).map((snippet, index) => ({
+        snippet,
+        result: results[offset + index]
+      }));
+      offset += scored.length;
+
+      const totals = { positive: 0, neutral: 0, negative: 0, mixed: 0 };
+      for (const { result } of scored) {
+        totals.positive += result.scores.positive;
+        totals.neutral += result.scores.neutral;
+        totals.negative += result.scores.negative;
+        totals.mixed += result.scores.mixed;
+      }
+      const scores = normalizeScores(totals);
+      const sentiment = SENTIMENT_LABELS.reduce((best, label) =>
+        scores[label.toLowerCase() as keyof SentimentScores] > scores[best.toLowerCase() as keyof SentimentScores] ? label : best
+      );
+
+      return {
+        brand,
+        mentioned: true,
+        mentionCount: snippets.length,
+        sentiment,
+        polarity: polarityOf(scores),
+        snippets: scored.map(({ snippet, result }) => ({
+          text: snippet,
+          sentiment: result.sentiment,
+          polarity: polarityOf(result.scores)
+        }))
+      };
+    });
+  }
+
+  // The preferred provider first, then the rest of the fallback order; unconfigured and disallowed ones are skipped
+  private providerChain(preferredProvider?: SentimentProviderName): SentimentProvider[] {
+    const order = preferredProvider
+      ? [preferredProvider, ...FALLBACK_ORDER.filter(name => name !== preferredProvider)]
+      : FALLBACK_ORDER;
+
+    return order
+      .filter(name => this.allowedProviders.includes(name))
+      .map(name => this.providers[name])
+      .filter(provider => provider.isConfigured());
+  }
+
+  private preprocessSocialMediaText(text: string, language: Language): string {
+    const { slang, emphasis } = getLexicon(language);
+
+    // Convert common social media expressions and emojis to sentiment-rich text
+    // Hashtags and mentions are read as words ("#NotWorthIt" -> "Not Worth It")
+    let processed = expandSocialTags(text);
+    
+    // Replace abbreviations with full sentiment-bearing phrases, in the language of the text
+    for (const [abbrev, full] of Object.entries(slang)) {
+      processed = processed.replace(wholeWords([abbrev], 'giu'), full);
+    }
+    
+    // Handle repeated letters for emphasis (e.g., "sooooo good" -> "very good")
+    processed = processed.replace(/(\w)\1{2,}/g, (match, letter) => {
+      return `${emphasis.intensifier} ${letter}`;
+    });
+    
+    // Handle multiple exclamation/question marks
+    processed = processed.replace(/!{2,}/g, ` ${emphasis.excitement}`);
+    processed = processed.replace(/\?{2,}/g, ` ${emphasis.confusion}`);
+    
+    // Clean up extra spaces
+    processed = processed.replace(/\s+/g, ' ').trim();
+    
+    return processed;
   }
 }
@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AnalysisResult, VideoMetadata } from "@shared/schema";
+import { buildVideoTagEntries, expandSocialTags, extractSocialTags, summarizeTags, type VideoTagRow } from "./social-tags";
+
+describe("extractSocialTags", () => {
+  it("lowercases tags and counts each once across texts", () => {
+    assert.deepEqual(extractSocialTags(['Loving this #SkinCare routine @GlowLab', 'more #skincare tips', null]), {
+      hashtags: ['skincare'],
+      mentions: ['glowlab']
+    });
+  });
+
+  it("keeps dots in handles but ends hashtags at the first one", () => {
+    assert.deepEqual(extractSocialTags(['Thanks @glow.lab.official for the #gift.']), {
+      hashtags: ['gift'],
+      mentions: ['glow.lab.official']
+    });
+  });
+
+  it("skips emails, URL anchors and rankings", () => {
+    assert.deepEqual(extractSocialTags(['mail me at hi@brand.com, see example.com/#section, my #1 pick']), {
+      hashtags: [],
+      mentions: []
+    });
+  });
+
+  it("accepts tags in any script", () => {
+    assert.deepEqual(extractSocialTags(['#café #日本 @josé']).hashtags, ['café', '日本']);
+  });
+
+  it("counts hashtags spelled out by speech-to-text", () => {
+    assert.deepEqual(extractSocialTags(['this is hashtag Ad by the way, Hashtag sponsored']).hashtags, ['ad', 'sponsored']);
+  });
+
+  it("does not read stopwords after 'hashtag' as spoken tags", () => {
+    assert.deepEqual(extractSocialTags(['this hashtag was everywhere', 'the hashtag is trending']).hashtags, []);
+    assert.deepEqual(extractSocialTags(['ce hashtag est partout, hashtag soin'], 'fr').hashtags, ['soin']);
+  });
+
+  it("does not read 'hashtag' inside another word as a spoken tag", () => {
+    assert.deepEqual(extractSocialTags(['the hashtags trend was wild']).hashtags, []);
+  });
+});
+
+describe("expandSocialTags", () => {
+  it("splits camel-cased hashtags and drops the '@' of mentions", () => {
+    assert.equal(expandSocialTags('#NotWorthIt says @nike'), 'Not Worth It says nike');
+  });
+
+  it("keeps all-lowercase hashtags as one word", () => {
+    assert.equal(expandSocialTags('so #blessed'), 'so blessed');
+  });
+
+  it("leaves spoken hashtags alone", () => {
+    assert.equal(expandSocialTags('hashtag ad'), 'hashtag ad');
+  });
+});
+
+describe("buildVideoTagEntries", () => {
+  const result = {
+    id: 7,
+    batchId: 3,
+    status: 'ok',
+    sentiment: 'POSITIVE',
+    sentimentScores: JSON.stringify({ positive: 0.8, neutral: 0.1, negative: 0.1, mixed: 0 }),
+    transcript: 'okay hashtag ad, shout out to @glowlab'
+  } as AnalysisResult;
+  const metadata = { caption: 'New drop #SkinCare', hashtags: JSON.stringify(['skincare', 'grwm']) } as VideoMetadata;
+
+  it("indexes tags from the transcript, caption and listed hashtags", () => {
+    const entries = buildVideoTagEntries('user-1', result, metadata);
+    assert.deepEqual(entries.map(entry => `${entry.kind}:${entry.tag}`).sort(), ['hashtag:ad', 'hashtag:grwm', 'hashtag:skincare', 'mention:glowlab']);
+    assert.ok(entries.every(entry => entry.polarity === 0.7 && entry.sentiment === 'POSITIVE' && entry.batchId === 3));
+  });
+
+  it("indexes nothing for failed results", () => {
+    assert.deepEqual(buildVideoTagEntries('user-1', { ...result, status: 'failed' }, metadata), []);
+  });
+});
+
+describe("summarizeTags", () => {
+  const row = (tag: string, resultId: number, viewCount: number | null, sentiment = 'POSITIVE'): VideoTagRow => ({
+    id: resultId,
+    userId: 'user-1',
+    resultId,
+    batchId: 1,
+    kind: 'hashtag',
+    tag,
+    sentiment,
+    polarity: sentiment === 'POSITIVE' ? 0.5 : -0.5,
+    viewCount,
+    likeCount: viewCount === null ? null : 10,
+    commentCount: null,
+    shareCount: null
+  });
+
+  it("ranks tags by videos, then by views", () => {
+    const leaderboard = summarizeTags([row('grwm', 1, 100), row('ad', 2, 1000), row('skincare', 3, 200), row('skincare', 4, null, 'NEGATIVE')]);
+    assert.deepEqual(leaderboard.hashtags.map(stat => stat.tag), ['skincare', 'ad', 'grwm']);
+    assert.deepEqual(leaderboard.mentions, []);
+  });
+
+  it("averages polarity over all videos and engagement over those with views", () => {
+    const [skincare] = summarizeTags([row('skincare', 3, 200), row('skincare', 4, null, 'NEGATIVE')]).hashtags;
+    assert.equal(skincare.videoCount, 2);
+    assert.equal(skincare.avgPolarity, 0);
+    assert.deepEqual(skincare.sentimentCounts, { POSITIVE: 1, NEUTRAL: 0, NEGATIVE: 1, MIXED: 0 });
+    assert.equal(skincare.avgViews, 200);
+    assert.equal(skincare.avgEngagementRate, 0.05);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Hashtags and @mentions in transcripts and captions, normalized so the same
+ * tag counts as one across videos however it was capitalized
+ */
+
+import type {
+  AnalysisResult,
+  InsertVideoTag,
+  Language,
+  SentimentCounts,
+  SentimentLabel,
+  TagLeaderboard,
+  TagStat,
+  VideoMetadata,
+  VideoTag,
+  VideoTagKind
+} from "@shared/schema";
+import { isLanguage } from "./language-detector";
+import { getLexicon } from "./sentiment-providers/lexicons";
+
+// Tags listed per kind, most widespread first
+const MAX_LEADERBOARD_TAGS = 10;
+
+// Longest hashtag or handle kept; anything longer is spam or a run-on caption
+const MAX_TAG_LENGTH = 60;
+
+// '#' or '@' that does not follow a word character or '/', so emails and URL anchors are skipped.
+// Handles may contain dots (Instagram), hashtags stop at the first one.
+const TAG_PATTERN = '(?<![\\p{L}\\p{N}_/])([#@])([\\p{L}\\p{M}\\p{N}_]+(?:\\.[\\p{L}\\p{M}\\p{N}_]+)*)';
+
+// Speech-to-text spells hashtags out ("hashtag ad"); the word after it is the tag,
+// unless it is a stopword ("the hashtag is trending")
+const SPOKEN_HASHTAG_PATTERN = '(?<![\\p{L}\\p{N}_])hashtag\\s+([\\p{L}\\p{M}\\p{N}_]+)';
+
+const LETTER = new RegExp('\\p{L}', 'u');
+
+// A tag together with the engagement of the video that used it
+export type VideoTagRow = VideoTag & Pick<VideoMetadata, 'viewCount' | 'likeCount' | 'commentCount' | 'shareCount'>;
+
+export interface SocialTags {
+  hashtags: string[];
+  mentions: string[];
+}
+
+const normalizeTag = (tag: string) => tag.normalize('NFKC').toLowerCase();
+
+/**
+ * Unique hashtags and mentions across the given texts, lowercased and without
+ * the leading '#' or '@'. Hashtags spelled out in a transcript ("hashtag ad")
+ * count too, except stopwords of the transcript's language. Pure numbers
+ * ("#1") are rankings, not tags.
+ */
+export function extractSocialTags(texts: Array<string | null | undefined>, language?: Language): SocialTags {
+  const hashtags = new Set<string>();
+  const mentions = new Set<string>();
+  const stopwords = new Set(getLexicon(language).stopwords);
+
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of Array.from(text.matchAll(new RegExp(TAG_PATTERN, 'gu')))) {
+      const [, sigil, body] = match;
+      const tag = normalizeTag(sigil === '#' ? body.split('.')[0] : body);
+      if (!LETTER.test(tag) || tag.length > MAX_TAG_LENGTH) continue;
+      (sigil === '#' ? hashtags : mentions).add(tag);
+    }
+    for (const [, body] of Array.from(text.matchAll(new RegExp(SPOKEN_HASHTAG_PATTERN, 'giu')))) {
+      const tag = normalizeTag(body);
+      if (!LETTER.test(tag) || tag.length > MAX_TAG_LENGTH || stopwords.has(tag)) continue;
+      hashtags.add(tag);
+    }
+  }
+  return { hashtags: Array.from(hashtags), mentions: Array.from(mentions) };
+}
+
+/**
+ * Rewrites tags as plain words so sentiment models read them:
+ * "#NotWorthIt" becomes "Not Worth It" and "@nike" becomes "nike".
+ * All-lowercase hashtags cannot be split and are kept as one word.
+ */
+export function expandSocialTags(text: string): string {
+  return text.replace(new RegExp(TAG_PATTERN, 'gu'), (_, sigil: string, body: string) => {
+    if (sigil === '@') return body;
+    return body
+      .replace(/_+/g, ' ')
+      .replace(new RegExp('(\\p{Ll})(\\p{Lu})', 'gu'), '$1 $2')
+      .replace(new RegExp('(\\p{Lu})(\\p{Lu}\\p{Ll})', 'gu'), '$1 $2')
+      .trim();
+  });
+}
+
+const polarityOf = (scores: { positive?: number; negative?: number }) =>
+  Math.round(((scores.positive || 0) - (scores.negative || 0)) * 100) / 100;
+
+/**
+ * Tag rows for one stored result, from what was analyzed and from the caption
+ * and hashtag list the metadata provider returned. Failed results have none.
+ */
+export function buildVideoTagEntries(userId: string, result: AnalysisResult, metadata: VideoMetadata | null): InsertVideoTag[] {
+  if (result.status !== 'ok' || result.batchId === null) {
+    return [];
+  }
+
+  let polarity = 0;
+  try {
+    polarity = polarityOf(JSON.parse(result.sentimentScores || '{}'));
+  } catch {
+    console.warn(`Failed to parse sentiment scores for result ${result.id}`);
+  }
+
+  let listedHashtags: string[] = [];
+  try {
+    const parsed = JSON.parse(metadata?.hashtags || '[]');
+    listedHashtags = Array.isArray(parsed) ? parsed.map(tag => `#${tag}`) : [];
+  } catch {
+    console.warn(`Failed to parse hashtags for result ${result.id}`);
+  }
+
+  const language = isLanguage(result.language) ? result.language : undefined;
+  const tags = extractSocialTags([result.transcript, metadata?.caption, ...listedHashtags], language);
+  const base = { userId, resultId: result.id, batchId: result.batchId, sentiment: result.sentiment, polarity };
+  return [
+    ...tags.hashtags.map(tag => ({ ...base, kind: 'hashtag', tag })),
+    ...tags.mentions.map(tag => ({ ...base, kind: 'mention', tag }))
+  ];
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function summarizeTag(rows: VideoTagRow[]): TagStat {
+  const sentimentCounts: SentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 };
+  for (const row of rows) {
+    sentimentCounts[row.sentiment as SentimentLabel]++;
+  }
+
+  const withViews = rows.filter(row => row.viewCount !== null && row.viewCount > 0);
+  const engagementRates = withViews.map(row =>
+    ((row.likeCount ?? 0) + (row.commentCount ?? 0) + (row.shareCount ?? 0)) / row.viewCount!
+  );
+
+  return {
+    tag: rows[0].tag,
+    kind: rows[0].kind as VideoTagKind,
+    videoCount: rows.length,
+    avgPolarity: Math.round(mean(rows.map(row => row.polarity)) * 100) / 100,
+    sentimentCounts,
+    avgViews: withViews.length > 0 ? Math.round(mean(withViews.map(row => row.viewCount!))) : null,
+    avgEngagementRate: engagementRates.length > 0 ? Math.round(mean(engagementRates) * 10000) / 10000 : null
+  };
+}
+
+/**
+ * Rolls tag rows up into the most used hashtags and mentions. Ties go to the
+ * tag whose videos were seen more.
+ */
+export function summarizeTags(rows: VideoTagRow[]): TagLeaderboard {
+  const byTag = new Map<string, VideoTagRow[]>();
+  for (const row of rows) {
+    const key = `${row.kind}:${row.tag}`;
+    const list = byTag.get(key);
+    if (list) list.push(row);
+    else byTag.set(key, [row]);
+  }
+
+  const stats = Array.from(byTag.values())
+    .map(summarizeTag)
+    .sort((a, b) => b.videoCount - a.videoCount || (b.avgViews ?? 0) - (a.avgViews ?? 0) || a.tag.localeCompare(b.tag));
+
+  const top = (kind: VideoTagKind) => stats.filter(stat => stat.kind === kind).slice(0, MAX_LEADERBOARD_TAGS);
+  return { hashtags: top('hashtag'), mentions: top('mention') };
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { clusterTopics } from "./topic-model";
+
+const documents = [
+  { id: 1, text: 'This mascara gives amazing volume and the lipstick shade is gorgeous' },
+  { id: 2, text: 'Best mascara for volume, the lipstick lasts all day' },
+  { id: 3, text: 'Lipstick swatches and a mascara review' },
+  { id: 4, text: 'My protein shake recipe after the gym workout' },
+  { id: 5, text: 'Gym workout for legs, then a protein shake' },
+  { id: 6, text: 'Protein pancakes before my gym workout' },
+];
+
+const memberIds = (topics: ReturnType<typeof clusterTopics>) =>
+  topics.map(topic => topic.members.map(member => member.id).sort()).sort((a, b) => a[0] - b[0]);
+
+describe("clusterTopics", () => {
+  it("separates videos by theme", () => {
+    assert.deepEqual(memberIds(clusterTopics(documents)), [[1, 2, 3], [4, 5, 6]]);
+  });
+
+  it("labels each topic with the terms its videos share", () => {
+    const topics = clusterTopics(documents);
+    const beauty = topics.find(topic => topic.members.some(member => member.id === 1))!;
+    const fitness = topics.find(topic => topic.members.some(member => member.id === 4))!;
+    assert.deepEqual([...beauty.terms].sort(), ['lipstick', 'mascara', 'volume']);
+    assert.deepEqual([...fitness.terms].sort(), ['gym', 'protein', 'shake', 'workout']);
+  });
+
+  it("orders members by similarity to their topic", () => {
+    for (const topic of clusterTopics(documents)) {
+      const similarities = topic.members.map(member => member.similarity);
+      assert.deepEqual(similarities, [...similarities].sort((a, b) => b - a));
+      assert.ok(similarities.every(similarity => similarity > 0 && similarity <= 1));
+    }
+  });
+
+  it("finds the same topics whatever order the videos come in", () => {
+    assert.deepEqual(memberIds(clusterTopics([...documents].reverse())), memberIds(clusterTopics(documents)));
+  });
+
+  it("keeps themes apart in histories larger than the silhouette sample", () => {
+    const history = Array.from({ length: 240 }, (_, index) => ({ id: index + 1, text: documents[index % documents.length].text }));
+    const isBeauty = (id: number) => (id - 1) % documents.length < 3;
+    const topics = clusterTopics(history);
+    assert.ok(topics.length >= 2);
+    for (const topic of topics) {
+      assert.ok(topic.members.every(member => isBeauty(member.id) === isBeauty(topic.members[0].id)));
+    }
+  });
+
+  it("returns no topics for too few videos", () => {
+    assert.deepEqual(clusterTopics(documents.slice(0, 2)), []);
+  });
+
+  it("ignores videos without content words", () => {
+    const withFiller = [...documents.slice(0, 2), { id: 7, text: 'um so yeah' }, { id: 8, text: '' }];
+    assert.deepEqual(clusterTopics(withFiller), []);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Offline topic model for grouping videos by theme
+ * TF-IDF vectors over transcripts, clustered with k-means on cosine similarity
+ */
+
+import type { Language } from "@shared/schema";
+import { contentWords } from "./phrase-extractor";
+
+export interface TopicDocument {
+  id: number;
+  text: string;
+  language?: Language; // Picks the stopwords; English when unknown
+}
+
+export interface TopicCluster {
+  terms: string[]; // Most characteristic terms, strongest first
+  members: Array<{ id: number; similarity: number }>; // Cosine similarity to the topic centroid
+}
+
+// Fewer videos than this have no themes worth separating
+const MIN_DOCUMENTS = 3;
+
+// Upper bound on topics, whatever the number of videos
+const MAX_TOPICS = 5;
+
+// Terms kept per topic
+const TOP_TERMS = 6;
+
+const MAX_ITERATIONS = 25;
+
+// Videos scored by the silhouette; larger sets are sampled evenly so scoring
+// stays linear in the number of videos rather than quadratic
+const SILHOUETTE_SAMPLE = 100;
+
+type Vector = Map<string, number>;
+
+function normalize(vector: Vector): Vector {
+  const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) return vector;
+  return new Map(Array.from(vector.entries(), ([term, value]) => [term, value / norm]));
+}
+
+function dot(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((value, term) => {
+    sum += value * (large.get(term) ?? 0);
+  });
+  return sum;
+}
+
+function centroid(vectors: Vector[]): Vector {
+  const sum: Vector = new Map();
+  for (const vector of vectors) {
+    vector.forEach((value, term) => sum.set(term, (sum.get(term) ?? 0) + value));
+  }
+  return normalize(sum);
+}
+
+/**
+ * Unit-length TF-IDF vectors. Terms used by a single video identify that
+ * video rather than a theme, so only terms shared by two or more are kept
+ * (unless that would leave nothing).
+ */
+function vectorize(documents: TopicDocument[]): Vector[] {
+  const termCounts = documents.map(document => {
+    const counts: Vector = new Map();
+    for (const word of contentWords(document.text, document.language)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+  const shared = Array.from(documentFrequency.values()).some(frequency => frequency > 1);
+
+  return termCounts.map(counts => {
+    const vector: Vector = new Map();
+    counts.forEach((count, term) => {
+      const frequency = documentFrequency.get(term)!;
+      if (shared && frequency < 2) return;
+      const idf = Math.log(documents.length / frequency) + 1;
+      vector.set(term, (1 + Math.log(count)) * idf);
+    });
+    return normalize(vector);
+  });
+}
+
+/**
+ * Farthest-first seeding: start from the most central video, then repeatedly
+ * add the video least similar to every seed so far. Deterministic, so the
+ * same batch always yields the same topics.
+ */
+function seedCentroids(vectors: Vector[], k: number): Vector[] {
+  const overall = centroid(vectors);
+  let first = 0;
+  vectors.forEach((vector, index) => {
+    if (dot(vector, overall) > dot(vectors[first], overall)) first = index;
+  });
+
+  const seeds = [vectors[first]];
+  while (seeds.length < k) {
+    let farthest = -1;
+    let lowestSimilarity = Infinity;
+    vectors.forEach((vector, index) => {
+      const similarity = Math.max(...seeds.map(seed => dot(vector, seed)));
+      if (similarity < lowestSimilarity) {
+        lowestSimilarity = similarity;
+        farthest = index;
+      }
+    });
+    seeds.push(vectors[farthest]);
+  }
+  return seeds;
+}
+
+function runKMeans(vectors: Vector[], k: number): { centroids: Vector[]; assignments: number[] } {
+  let centroids = seedCentroids(vectors, k);
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = vectors.map(vector => {
+      let best = 0;
+      centroids.forEach((candidate, index) => {
+        if (dot(vector, candidate) > dot(vector, centroids[best])) best = index;
+      });
+      return best;
+    });
+
+    const converged = next.every((cluster, index) => cluster === assignments[index]);
+    assignments = next;
+    if (converged) break;
+
+    centroids = centroids.map((previous, cluster) => {
+      const members = vectors.filter((_, index) => assignments[index] === cluster);
+      return members.length > 0 ? centroid(members) : previous;
+    });
+  }
+  return { centroids, assignments };
+}
+
+/**
+ * Mean silhouette on cosine distance: how much closer each video is to its
+ * own topic than to the nearest other one, from -1 (misplaced) to 1 (clear-cut).
+ * Averaged over at most SILHOUETTE_SAMPLE videos spread across the set.
+ */
+function silhouette(vectors: Vector[], assignments: number[], k: number): number {
+  const sampleSize = Math.min(vectors.length, SILHOUETTE_SAMPLE);
+  const sample = Array.from({ length: sampleSize }, (_, position) => Math.floor(position * vectors.length / sampleSize));
+  const scores = sample.map(index => {
+    const vector = vectors[index];
+    const distances = Array.from({ length: k }, () => ({ total: 0, count: 0 }));
+    vectors.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const bucket = distances[assignments[otherIndex]];
+      bucket.total += 1 - dot(vector, other);
+      bucket.count++;
+    });
+
+    const own = distances[assignments[index]];
+    if (own.count === 0) return 0; // A topic of one video says nothing about fit
+    const cohesion = own.total / own.count;
+    const separation = Math.min(...distances
+      .filter((bucket, cluster) => cluster !== assignments[index] && bucket.count > 0)
+      .map(bucket => bucket.total / bucket.count));
+    return Number.isFinite(separation) ? (separation - cohesion) / Math.max(separation, cohesion) : 0;
+  });
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+/**
+ * Groups documents into themes. Every topic count from 2 to MAX_TOPICS is
+ * tried and the one with the clearest separation (best silhouette) kept.
+ * Returns no topics when there are too few documents (or too little text)
+ * to separate themes; empty clusters are dropped.
+ */
+export function clusterTopics(documents: TopicDocument[]): TopicCluster[] {
+  const usable = documents.filter(document => contentWords(document.text, document.language).length > 0);
+  if (usable.length < MIN_DOCUMENTS) {
+    return [];
+  }
+
+  const vectors = vectorize(usable);
+  const topicCounts = Array.from({ length: Math.min(MAX_TOPICS, usable.length - 1) - 1 }, (_, index) => index + 2);
+  const { centroids, assignments } = topicCounts
+    .map(k => {
+      const run = runKMeans(vectors, k);
+      return { ...run, score: silhouette(vectors, run.assignments, k) };
+    })
+    .reduce((best, run) => (run.score > best.score ? run : best));
+
+  return centroids
+    .map((topicCentroid, cluster) => ({
+      terms: Array.from(topicCentroid.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_TERMS)
+        .map(([term]) => term),
+      members: usable
+        .map((document, index) => ({ id: document.id, similarity: Math.round(dot(vectors[index], topicCentroid) * 1000) / 1000 }))
+        .filter((_, index) => assignments[index] === cluster)
+        .sort((a, b) => b.similarity - a.similarity)
+    }))
+    .filter(topic => topic.members.length > 0)
+    .sort((a, b) => b.members.length - a.members.length);
+}
@@ -0,0 +1,50 @@
+import { storage } from "../storage";
+
+/**
+ * In-process queue for re-clustering users' histories into themes.
+ * POST /api/insights/topics only enqueues the user; clustering runs one user
+ * at a time in the background, and a request for a user who is already
+ * queued or being clustered joins that run instead of adding another.
+ */
+export class TopicClusteringQueue {
+  private pending: string[] = [];
+  private activeUserId: string | null = null;
+
+  /** Returns false when the user was already queued or being clustered */
+  enqueue(userId: string): boolean {
+    if (this.isClustering(userId)) {
+      return false;
+    }
+    this.pending.push(userId);
+    this.drain();
+    return true;
+  }
+
+  isClustering(userId: string): boolean {
+    return this.activeUserId === userId || this.pending.includes(userId);
+  }
+
+  private drain(): void {
+    if (this.activeUserId !== null || this.pending.length === 0) {
+      return;
+    }
+
+    const userId = this.pending.shift()!;
+    this.activeUserId = userId;
+
+    this.runJob(userId).finally(() => {
+      this.activeUserId = null;
+      this.drain();
+    });
+  }
+
+  private async runJob(userId: string): Promise<void> {
+    try {
+      await storage.clusterHistoryTopics(userId);
+    } catch (error) {
+      console.error(`Topic clustering for user ${userId} failed:`, error);
+    }
+  }
+}
+
+export const topicClusteringQueue = new TopicClusteringQueue();
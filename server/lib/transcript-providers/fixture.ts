@@ -0,0 +1,111 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { TranscriptSegment } from "@shared/schema";
+import type { ProviderComment, ProviderTranscript, ProviderVideoMetadata, TranscriptProvider } from "./types";
+
+type FixtureMetadata = Omit<ProviderVideoMetadata, 'publishedAt'> & { publishedAt?: string };
+
+type FixtureEntry = string | {
+  transcript?: string;
+  segments?: TranscriptSegment[];
+  metadata?: FixtureMetadata;
+  comments?: Array<string | ProviderComment>;
+};
+
+interface FixtureVideo {
+  transcript: ProviderTranscript | null;
+  metadata: ProviderVideoMetadata | null;
+  comments: ProviderComment[];
+}
+
+/**
+ * Serves transcripts from local JSON files for offline development and testing.
+ * Every *.json file in the fixture directory maps video URLs to a transcript,
+ * either as a plain string or as
+ * { "transcript": "...", "segments": [...], "metadata": {...}, "comments": [...] }.
+ */
+export class FixtureProvider implements TranscriptProvider {
+  readonly name = 'fixture';
+  private fixtureDir: string;
+  private fixtures: Promise<Map<string, FixtureVideo>> | null = null;
+
+  constructor(fixtureDir = process.env.TRANSCRIPT_FIXTURES_DIR || path.resolve(process.cwd(), "fixtures", "transcripts")) {
+    this.fixtureDir = fixtureDir;
+  }
+
+  supports(platform: string): boolean {
+    return true;
+  }
+
+  async getTranscript(url: string, platform: string): Promise<ProviderTranscript | null> {
+    const fixtures = await this.loadFixtures();
+    return fixtures.get(this.normalizeUrl(url))?.transcript ?? null;
+  }
+
+  async getMetadata(url: string, platform: string): Promise<ProviderVideoMetadata | null> {
+    const fixtures = await this.loadFixtures();
+    return fixtures.get(this.normalizeUrl(url))?.metadata ?? null;
+  }
+
+  async getComments(url: string, platform: string, limit: number): Promise<ProviderComment[]> {
+    const fixtures = await this.loadFixtures();
+    const comments = fixtures.get(this.normalizeUrl(url))?.comments ?? [];
+    return [...comments].sort((a, b) => (b.likeCount ?? 0) - (a.likeCount ?? 0)).slice(0, limit);
+  }
+
+  // Match the form produced by InputSanitizer.sanitizeUrl
+  private normalizeUrl(url: string): string {
+    try {
+      return new URL(url).toString();
+    } catch {
+      return url;
+    }
+  }
+
+  private parseMetadata({ publishedAt, ...metadata }: FixtureMetadata): ProviderVideoMetadata {
+    return { ...metadata, publishedAt: publishedAt ? new Date(publishedAt) : undefined };
+  }
+
+  private loadFixtures(): Promise<Map<string, FixtureVideo>> {
+    if (!this.fixtures) {
+      this.fixtures = this.readFixtureFiles();
+    }
+    return this.fixtures;
+  }
+
+  private async readFixtureFiles(): Promise<Map<string, FixtureVideo>> {
+    const fixtures = new Map<string, FixtureVideo>();
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.fixtureDir);
+    } catch (error) {
+      console.warn(`Transcript fixture directory not found: ${this.fixtureDir}`);
+      return fixtures;
+    }
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const contents = await fs.readFile(path.join(this.fixtureDir, file), 'utf8');
+        const entries: Record<string, FixtureEntry> = JSON.parse(contents);
+
+        for (const [url, entry] of Object.entries(entries)) {
+          if (typeof entry === 'string') {
+            fixtures.set(this.normalizeUrl(url), { transcript: { text: entry }, metadata: null, comments: [] });
+          } else if (entry) {
+            fixtures.set(this.normalizeUrl(url), {
+              transcript: entry.transcript ? { text: entry.transcript, segments: entry.segments } : null,
+              metadata: entry.metadata ? this.parseMetadata(entry.metadata) : null,
+              comments: (entry.comments || []).map(comment => typeof comment === 'string' ? { text: comment } : comment)
+            });
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to load transcript fixture ${file}:`, error);
+      }
+    }
+
+    console.log(`Loaded ${fixtures.size} transcript fixtures from ${this.fixtureDir}`);
+    return fixtures;
+  }
+}
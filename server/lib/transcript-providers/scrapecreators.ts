@@ -0,0 +1,363 @@
+import { providerLimiters } from "../concurrency";
+import type { TranscriptSegment } from "@shared/schema";
+import { TranscriptProviderError, type ProviderComment, type ProviderTranscript, type ProviderVideoMetadata, type TranscriptProvider } from "./types";
+
+const SUPPORTED_PLATFORMS = ['tiktok', 'reels', 'shorts'];
+
+// TikTok's transcript endpoint needs a language; English unless the request asked for another
+const DEFAULT_TIKTOK_LANGUAGE = 'en';
+
+const toCount = (value: unknown): number | undefined => {
+  const count = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(count) ? count : undefined;
+};
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  // Unix timestamps arrive in seconds
+  const date = typeof value === 'number' ? new Date(value * 1000) : new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Built from a string because the compile target predates regex unicode flags
+const HASHTAG_PATTERN = new RegExp('#([\\p{L}\\p{N}_]+)', 'gu');
+
+const extractHashtags = (caption?: string): string[] =>
+  Array.from(caption?.matchAll(HASHTAG_PATTERN) ?? [], match => match[1]);
+
+/**
+ * Transcripts from the ScrapeCreators API
+ */
+export class ScrapeCreatorsProvider implements TranscriptProvider {
+  readonly name = 'scrapecreators';
+  private apiKey: string;
+  private baseUrl = "https://api.scrapecreators.com";
+
+  constructor() {
+    this.apiKey = process.env.SCRAPECREATORS_API_KEY || "";
+    if (!this.apiKey) {
+      console.warn("ScrapeCreators API key not found in environment variables");
+    }
+  }
+
+  supports(platform: string): boolean {
+    return SUPPORTED_PLATFORMS.includes(platform);
+  }
+
+  async getTranscript(url: string, platform: string, language?: string): Promise<ProviderTranscript | null> {
+    if (!this.apiKey) {
+      console.error("ScrapeCreators API key is required");
+      throw new TranscriptProviderError("Transcript provider is not configured", 'PROVIDER_NOT_CONFIGURED');
+    }
+
+    switch (platform) {
+      case 'tiktok':
+        return this.getTikTokTranscript(url, language || DEFAULT_TIKTOK_LANGUAGE);
+      case 'reels':
+        return this.getInstagramTranscript(url);
+      case 'shorts':
+        return this.getYouTubeTranscript(url);
+      default:
+        throw new TranscriptProviderError(`Unsupported platform: ${platform}`, 'UNSUPPORTED_PLATFORM');
+    }
+  }
+
+  async getMetadata(url: string, platform: string): Promise<ProviderVideoMetadata | null> {
+    if (!this.apiKey) {
+      throw new TranscriptProviderError("Transcript provider is not configured", 'PROVIDER_NOT_CONFIGURED');
+    }
+
+    switch (platform) {
+      case 'tiktok':
+        return this.getTikTokMetadata(url);
+      case 'reels':
+        return this.getInstagramMetadata(url);
+      case 'shorts':
+        return this.getYouTubeMetadata(url);
+      default:
+        throw new TranscriptProviderError(`Unsupported platform: ${platform}`, 'UNSUPPORTED_PLATFORM');
+    }
+  }
+
+  async getComments(url: string, platform: string, limit: number): Promise<ProviderComment[]> {
+    if (!this.apiKey) {
+      throw new TranscriptProviderError("Transcript provider is not configured", 'PROVIDER_NOT_CONFIGURED');
+    }
+
+    let comments: ProviderComment[];
+    switch (platform) {
+      case 'tiktok': {
+        const data = await this.fetchJson('/v1/tiktok/video/comments', url, 'TikTok comments');
+        comments = (data?.comments || []).map((item: any) => ({ text: item.text, likeCount: toCount(item.digg_count) }));
+        break;
+      }
+      case 'reels': {
+        const data = await this.fetchJson('/v2/instagram/post/comments', url, 'Instagram comments');
+        comments = (data?.comments || []).map((item: any) => ({ text: item.text, likeCount: toCount(item.comment_like_count) }));
+        break;
+      }
+      case 'shorts': {
+        const data = await this.fetchJson('/v1/youtube/video/comments', url, 'YouTube comments');
+        comments = (data?.comments || []).map((item: any) => ({ text: item.content, likeCount: toCount(item.engagement?.likes) }));
+        break;
+      }
+      default:
+        throw new TranscriptProviderError(`Unsupported platform: ${platform}`, 'UNSUPPORTED_PLATFORM');
+    }
+
+    return comments
+      .filter(comment => typeof comment.text === 'string' && comment.text.trim())
+      .sort((a, b) => (b.likeCount ?? 0) - (a.likeCount ?? 0))
+      .slice(0, limit);
+  }
+
+  private async getTikTokTranscript(url: string, language: string): Promise<ProviderTranscript | null> {
+    try {
+      const endpoint = `${this.baseUrl}/v1/tiktok/video/transcript`;
+      const params = new URLSearchParams({
+        url: url,
+        language
+      });
+
+      const response = await providerLimiters.scrapeCreators.run(() => fetch(`${endpoint}?${params}`, {
+        method: 'GET',
+        headers: {
+          'x-api-key': this.apiKey
+        }
+      }));
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`TikTok API error for ${url}:`, response.status, errorText);
+        throw new TranscriptProviderError(`TikTok transcript API returned ${response.status}`, 'PROVIDER_HTTP_ERROR');
+      }
+
+      const data = await response.json();
+      if (!data.transcript) {
+        return null;
+      }
+
+      // TikTok transcripts arrive as WebVTT; only TikTok is requested in a specific language
+      const segments = this.parseWebVtt(data.transcript);
+      if (segments.length === 0) {
+        return { text: data.transcript, language };
+      }
+      return { text: segments.map(segment => segment.text).join(' '), language, segments };
+    } catch (error) {
+      console.error(`TikTok transcript error for ${url}:`, error);
+      throw error;
+    }
+  }
+
+  private async getInstagramTranscript(url: string): Promise<ProviderTranscript | null> {
+    try {
+      const endpoint = `${this.baseUrl}/v2/instagram/media/transcript`;
+      const params = new URLSearchParams({ url: url });
+
+      const response = await providerLimiters.scrapeCreators.run(() => fetch(`${endpoint}?${params}`, {
+        method: 'GET',
+        headers: {
+          'x-api-key': this.apiKey
+        }
+      }));
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Instagram API error for ${url}:`, response.status, errorText);
+        throw new TranscriptProviderError(`Instagram transcript API returned ${response.status}`, 'PROVIDER_HTTP_ERROR');
+      }
+
+      const data = await response.json();
+      
+      if (!data.success || !data.transcripts || data.transcripts.length === 0) {
+        console.warn(`No Instagram transcript found for ${url}`);
+        return null;
+      }
+
+      // Combine all transcript texts (for carousel posts); Instagram supplies no timing
+      const combinedText = data.transcripts
+        .map((item: any) => item.text)
+        .filter((text: string) => text && text.trim())
+        .join(' ');
+
+      return combinedText ? { text: combinedText } : null;
+    } catch (error) {
+      console.error(`Instagram transcript error for ${url}:`, error);
+      throw error;
+    }
+  }
+
+  private async getYouTubeTranscript(url: string): Promise<ProviderTranscript | null> {
+    try {
+      const endpoint = `${this.baseUrl}/v1/youtube/video/transcript`;
+      const params = new URLSearchParams({ url: url });
+
+      const response = await providerLimiters.scrapeCreators.run(() => fetch(`${endpoint}?${params}`, {
+        method: 'GET',
+        headers: {
+          'x-api-key': this.apiKey
+        }
+      }));
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`YouTube API error for ${url}:`, response.status, errorText);
+        throw new TranscriptProviderError(`YouTube transcript API returned ${response.status}`, 'PROVIDER_HTTP_ERROR');
+      }
+
+      const data = await response.json();
+      
+      // Prefer the timed transcript array, falling back to the plain text
+      if (data.transcript && Array.isArray(data.transcript)) {
+        const segments = this.parseYouTubeSegments(data.transcript);
+        if (segments.length > 0) {
+          return { text: segments.map(segment => segment.text).join(' '), segments };
+        }
+      }
+
+      if (data.transcript_only_text) {
+        return { text: data.transcript_only_text };
+      }
+
+      console.warn(`No YouTube transcript found for ${url}`);
+      return null;
+    } catch (error) {
+      console.error(`YouTube transcript error for ${url}:`, error);
+      throw error;
+    }
+  }
+
+  private async getTikTokMetadata(url: string): Promise<ProviderVideoMetadata | null> {
+    const data = await this.fetchJson('/v2/tiktok/video', url, 'TikTok video');
+    const video = data?.aweme_detail;
+    if (!video) {
+      return null;
+    }
+
+    const hashtags = (video.text_extra || [])
+      .map((item: any) => item.hashtag_name)
+      .filter((tag: string) => tag);
+
+    return {
+      creatorHandle: video.author?.unique_id,
+      followerCount: toCount(video.author?.follower_count),
+      caption: video.desc || undefined,
+      hashtags: hashtags.length > 0 ? hashtags : extractHashtags(video.desc),
+      viewCount: toCount(video.statistics?.play_count),
+      likeCount: toCount(video.statistics?.digg_count),
+      commentCount: toCount(video.statistics?.comment_count),
+      shareCount: toCount(video.statistics?.share_count),
+      // TikTok reports duration in milliseconds
+      durationSeconds: video.video?.duration ? video.video.duration / 1000 : undefined,
+      publishedAt: toDate(video.create_time)
+    };
+  }
+
+  private async getInstagramMetadata(url: string): Promise<ProviderVideoMetadata | null> {
+    const data = await this.fetchJson('/v1/instagram/post', url, 'Instagram post');
+    const media = data?.data?.xdt_shortcode_media;
+    if (!media) {
+      return null;
+    }
+
+    const caption = media.edge_media_to_caption?.edges?.[0]?.node?.text;
+    return {
+      creatorHandle: media.owner?.username,
+      followerCount: toCount(media.owner?.edge_followed_by?.count),
+      caption,
+      hashtags: extractHashtags(caption),
+      viewCount: toCount(media.video_play_count ?? media.video_view_count),
+      likeCount: toCount(media.edge_media_preview_like?.count),
+      commentCount: toCount(media.edge_media_to_parent_comment?.count ?? media.edge_media_to_comment?.count),
+      durationSeconds: toCount(media.video_duration),
+      publishedAt: toDate(media.taken_at_timestamp)
+    };
+  }
+
+  private async getYouTubeMetadata(url: string): Promise<ProviderVideoMetadata | null> {
+    const data = await this.fetchJson('/v1/youtube/video', url, 'YouTube video');
+    if (!data || (!data.title && !data.description)) {
+      return null;
+    }
+
+    const caption = [data.title, data.description].filter(Boolean).join('\n');
+    return {
+      creatorHandle: data.channel?.handle,
+      followerCount: toCount(data.channel?.subscriberCount),
+      caption,
+      hashtags: extractHashtags(caption),
+      viewCount: toCount(data.viewCountInt),
+      likeCount: toCount(data.likeCountInt),
+      commentCount: toCount(data.commentCountInt),
+      durationSeconds: data.durationMs ? data.durationMs / 1000 : undefined,
+      publishedAt: toDate(data.publishDate)
+    };
+  }
+
+  private async fetchJson(path: string, url: string, label: string): Promise<any> {
+    const params = new URLSearchParams({ url });
+    const response = await providerLimiters.scrapeCreators.run(() => fetch(`${this.baseUrl}${path}?${params}`, {
+      method: 'GET',
+      headers: {
+        'x-api-key': this.apiKey
+      }
+    }));
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${label} API error for ${url}:`, response.status, errorText);
+      throw new TranscriptProviderError(`${label} API returned ${response.status}`, 'PROVIDER_HTTP_ERROR');
+    }
+
+    return response.json();
+  }
+
+  private parseYouTubeSegments(items: any[]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const item of items) {
+      const text = typeof item?.text === 'string' ? item.text.trim() : '';
+      const start = Number(item?.startMs) / 1000;
+      if (!text || !Number.isFinite(start)) {
+        continue;
+      }
+
+      const end = Number(item?.endMs) / 1000;
+      segments.push({ start, end: Number.isFinite(end) ? end : start, text });
+    }
+
+    return segments;
+  }
+
+  // Cues look like "00:00:01.120 --> 00:00:03.480" followed by one or more text lines
+  private parseWebVtt(vtt: string): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+
+    for (const block of vtt.replace(/\r/g, '').split(/\n{2,}/)) {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      if (timingIndex === -1) {
+        continue;
+      }
+
+      const [startText, endText] = lines[timingIndex].split('-->').map(part => part.trim().split(' ')[0]);
+      const start = this.parseVttTimestamp(startText);
+      const end = this.parseVttTimestamp(endText);
+      const text = lines.slice(timingIndex + 1).join(' ').trim();
+      if (text && start !== null && end !== null) {
+        segments.push({ start, end, text });
+      }
+    }
+
+    return segments;
+  }
+
+  // Accepts "hh:mm:ss.mmm" and "mm:ss.mmm"
+  private parseVttTimestamp(value: string): number | null {
+    const parts = value.split(':').map(Number);
+    if (parts.length < 2 || parts.some(part => !Number.isFinite(part))) {
+      return null;
+    }
+    return parts.reduce((total, part) => total * 60 + part, 0);
+  }
+}
@@ -0,0 +1,62 @@
+import type { TranscriptSegment } from "@shared/schema";
+
+/**
+ * Transcript text as returned by a provider, before cleaning
+ */
+export interface ProviderTranscript {
+  text: string;
+  language?: string; // Only when the provider knows (or was asked for) the language
+  segments?: TranscriptSegment[]; // Only when the provider supplies timing
+}
+
+/**
+ * Creator and engagement details of a video; fields the provider does not expose stay unset
+ */
+export interface ProviderVideoMetadata {
+  creatorHandle?: string;
+  followerCount?: number;
+  caption?: string;
+  hashtags?: string[];
+  viewCount?: number;
+  likeCount?: number;
+  commentCount?: number;
+  shareCount?: number;
+  durationSeconds?: number;
+  publishedAt?: Date;
+}
+
+/**
+ * One comment from a video's comment section
+ */
+export interface ProviderComment {
+  text: string;
+  likeCount?: number;
+}
+
+/**
+ * A source of video transcripts and metadata (a vendor API, local fixtures, ...)
+ */
+export interface TranscriptProvider {
+  readonly name: string;
+  supports(platform: string): boolean;
+  /**
+   * Resolves to null when the video has no transcript; throws
+   * TranscriptProviderError when the provider itself fails. The language is
+   * a preference that providers without language selection ignore.
+   */
+  getTranscript(url: string, platform: string, language?: string): Promise<ProviderTranscript | null>;
+  getMetadata(url: string, platform: string): Promise<ProviderVideoMetadata | null>;
+  // Most-liked comments first, at most `limit` of them
+  getComments(url: string, platform: string, limit: number): Promise<ProviderComment[]>;
+}
+
+/**
+ * Raised when the transcript provider itself fails, as opposed to a video
+ * that simply has no transcript (which resolves to null)
+ */
+export class TranscriptProviderError extends Error {
+  constructor(message: string, readonly code: string) {
+    super(message);
+    this.name = 'TranscriptProviderError';
+  }
+}
@@ -1,149 +1,214 @@
+import { ScrapeCreatorsProvider } from "./transcript-providers/scrapecreators";
+import { FixtureProvider } from "./transcript-providers/fixture";
+import { TranscriptProviderError, type ProviderComment, type ProviderVideoMetadata, type TranscriptProvider } from "./transcript-providers/types";
+import { storage } from "../storage";
+import type { TranscriptSegment } from "@shared/schema";
+
+export interface TranscriptResult {
+  text: string;
+  segments: TranscriptSegment[] | null; // Null when the provider supplied no timing
+  provider: string;
+  cached: boolean;
+  language: string | null; // As reported (or requested from) the provider, null when unknown
+}
+
+// Metadata with where it came from; fetchedAt is kept when a cached copy is stored again
+export interface VideoMetadataResult extends ProviderVideoMetadata {
+  provider: string;
+  cached: boolean;
+  fetchedAt: Date;
+}
+
+export interface TranscriptRequestOptions {
+  forceRefresh?: boolean;
+  language?: string; // Preferred transcript language, for providers that can choose
+}
+
+const transcriptProviders: Record<string, () => TranscriptProvider> = {
+  scrapecreators: () => new ScrapeCreatorsProvider(),
+  fixture: () => new FixtureProvider(),
+};
+
 export class TranscriptService {
-  private apiKey: string;
-  private baseUrl = "https://api.scrapecreators.com";
+  private provider: TranscriptProvider;
+  private cacheTtlMs: number;
 
   constructor() {
-    this.apiKey = process.env.SCRAPECREATORS_API_KEY || "";
-    if (!this.apiKey) {
-      console.warn("ScrapeCreators API key not found in environment variables");
+    // A TTL of 0 disables the transcript cache
+    const ttlHours = parseFloat(process.env.TRANSCRIPT_CACHE_TTL_HOURS || '168');
+    this.cacheTtlMs = (Number.isFinite(ttlHours) ? Math.max(0, ttlHours) : 168) * 60 * 60 * 1000;
+
+    // Provider is chosen by configuration so development can run fully offline
+    const providerName = process.env.TRANSCRIPT_PROVIDER || 'scrapecreators';
+    const createProvider = transcriptProviders[providerName];
+    if (!createProvider) {
+      console.warn(`Unknown transcript provider "${providerName}", falling back to scrapecreators`);
     }
+    this.provider = (createProvider || transcriptProviders.scrapecreators)();
   }
 
-  async getTranscript(url: string, platform: string): Promise<string | null> {
-    if (!this.apiKey) {
-      console.error("ScrapeCreators API key is required");
-      return null;
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async getTranscript(url: string, platform: string, options: TranscriptRequestOptions = {}): Promise<TranscriptResult | null> {
+    if (!options.forceRefresh) {
+      const cached = await this.getCachedTranscript(url);
+      // A transcript cached in another language than the one asked for is a miss
+      if (cached && (!options.language || !cached.language || cached.language === options.language)) {
+        return cached;
+      }
+    }
+
+    if (!this.provider.supports(platform)) {
+      throw new TranscriptProviderError(
+        `Transcript provider ${this.provider.name} does not support ${platform}`,
+        'UNSUPPORTED_PLATFORM'
+      );
     }
 
     try {
-      let transcript: string | null = null;
-
-      switch (platform) {
-        case 'tiktok':
-          transcript = await this.getTikTokTranscript(url);
-          break;
-        case 'reels':
-          transcript = await this.getInstagramTranscript(url);
-          break;
-        case 'shorts':
-          transcript = await this.getYouTubeTranscript(url);
-          break;
-        default:
-          throw new Error(`Unsupported platform: ${platform}`);
+      const transcript = await this.provider.getTranscript(url, platform, options.language);
+      const text = transcript ? this.cleanTranscript(transcript.text) : '';
+      if (!text) {
+        return null;
       }
 
-      return transcript ? this.cleanTranscript(transcript) : null;
+      const segments = this.cleanSegments(transcript?.segments);
+      await this.cacheTranscript(url, platform, text, segments, transcript?.language);
+      return { text, segments, provider: this.provider.name, cached: false, language: transcript?.language ?? null };
     } catch (error) {
       console.error(`Error fetching transcript for ${url}:`, error);
-      return null;
+      if (error instanceof TranscriptProviderError) {
+        throw error;
+      }
+      throw new TranscriptProviderError(
+        error instanceof Error ? error.message : 'Transcript request failed',
+        'PROVIDER_REQUEST_FAILED'
+      );
     }
   }
 
-  private async getTikTokTranscript(url: string): Promise<string | null> {
-    try {
-      const endpoint = `${this.baseUrl}/v1/tiktok/video/transcript`;
-      const params = new URLSearchParams({
-        url: url,
-        language: 'en'
-      });
-
-      const response = await fetch(`${endpoint}?${params}`, {
-        method: 'GET',
-        headers: {
-          'x-api-key': this.apiKey
-        }
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`TikTok API error for ${url}:`, response.status, errorText);
-        return null;
+  /**
+   * Creator and engagement details for a video, served from the metadata of an
+   * earlier analysis of the same video while it is within the cache TTL.
+   * Metadata is a nice-to-have, so provider failures are logged and resolve to null.
+   */
+  async getMetadata(url: string, platform: string, options: { forceRefresh?: boolean } = {}): Promise<VideoMetadataResult | null> {
+    if (!options.forceRefresh) {
+      const cached = await this.getCachedMetadata(url);
+      if (cached) {
+        return cached;
       }
+    }
+
+    if (!this.provider.supports(platform)) {
+      return null;
+    }
 
-      const data = await response.json();
-      return data.transcript || null;
+    try {
+      const metadata = await this.provider.getMetadata(url, platform);
+      return metadata ? { ...metadata, provider: this.provider.name, cached: false, fetchedAt: new Date() } : null;
     } catch (error) {
-      console.error(`TikTok transcript error for ${url}:`, error);
+      console.error(`Error fetching metadata for ${url}:`, error);
       return null;
     }
   }
 
-  private async getInstagramTranscript(url: string): Promise<string | null> {
+  /**
+   * Top comments of a video, most-liked first. Like metadata, comments never fail
+   * the analysis; provider errors resolve to an empty list.
+   */
+  async getComments(url: string, platform: string, limit: number): Promise<ProviderComment[]> {
+    if (!this.provider.supports(platform)) {
+      return [];
+    }
+
     try {
-      const endpoint = `${this.baseUrl}/v2/instagram/media/transcript`;
-      const params = new URLSearchParams({ url: url });
-
-      const response = await fetch(`${endpoint}?${params}`, {
-        method: 'GET',
-        headers: {
-          'x-api-key': this.apiKey
-        }
-      });
+      return await this.provider.getComments(url, platform, limit);
+    } catch (error) {
+      console.error(`Error fetching comments for ${url}:`, error);
+      return [];
+    }
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Instagram API error for ${url}:`, response.status, errorText);
-        return null;
-      }
+  private async getCachedTranscript(canonicalUrl: string): Promise<TranscriptResult | null> {
+    if (this.cacheTtlMs === 0) {
+      return null;
+    }
 
-      const data = await response.json();
-      
-      if (!data.success || !data.transcripts || data.transcripts.length === 0) {
-        console.warn(`No Instagram transcript found for ${url}`);
+    try {
+      const cached = await storage.getCachedTranscript(canonicalUrl);
+      if (!cached || Date.now() - cached.fetchedAt.getTime() > this.cacheTtlMs) {
         return null;
       }
-
-      // Combine all transcript texts (for carousel posts)
-      const combinedText = data.transcripts
-        .map((item: any) => item.text)
-        .filter((text: string) => text && text.trim())
-        .join(' ');
-
-      return combinedText || null;
+      return {
+        text: cached.text,
+        segments: cached.segments ? JSON.parse(cached.segments) : null,
+        provider: cached.provider,
+        cached: true,
+        language: cached.language
+      };
     } catch (error) {
-      console.error(`Instagram transcript error for ${url}:`, error);
+      // A cache miss is always safe, so cache errors never fail the analysis
+      console.error(`Transcript cache lookup failed for ${canonicalUrl}:`, error);
       return null;
     }
   }
 
-  private async getYouTubeTranscript(url: string): Promise<string | null> {
-    try {
-      const endpoint = `${this.baseUrl}/v1/youtube/video/transcript`;
-      const params = new URLSearchParams({ url: url });
-
-      const response = await fetch(`${endpoint}?${params}`, {
-        method: 'GET',
-        headers: {
-          'x-api-key': this.apiKey
-        }
-      });
+  private async getCachedMetadata(canonicalUrl: string): Promise<VideoMetadataResult | null> {
+    if (this.cacheTtlMs === 0) {
+      return null;
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`YouTube API error for ${url}:`, response.status, errorText);
+    try {
+      const cached = await storage.getCachedVideoMetadata(canonicalUrl);
+      if (!cached || Date.now() - cached.fetchedAt.getTime() > this.cacheTtlMs) {
         return null;
       }
+      return {
+        creatorHandle: cached.creatorHandle ?? undefined,
+        followerCount: cached.followerCount ?? undefined,
+        caption: cached.caption ?? undefined,
+        hashtags: cached.hashtags ? JSON.parse(cached.hashtags) : undefined,
+        viewCount: cached.viewCount ?? undefined,
+        likeCount: cached.likeCount ?? undefined,
+        commentCount: cached.commentCount ?? undefined,
+        shareCount: cached.shareCount ?? undefined,
+        durationSeconds: cached.durationSeconds ?? undefined,
+        publishedAt: cached.publishedAt ?? undefined,
+        provider: cached.provider,
+        cached: true,
+        fetchedAt: cached.fetchedAt
+      };
+    } catch (error) {
+      console.error(`Metadata cache lookup failed for ${canonicalUrl}:`, error);
+      return null;
+    }
+  }
 
-      const data = await response.json();
-      
-      // Use transcript_only_text if available, otherwise combine transcript array
-      if (data.transcript_only_text) {
-        return data.transcript_only_text;
-      }
-
-      if (data.transcript && Array.isArray(data.transcript)) {
-        const combinedText = data.transcript
-          .map((item: any) => item.text)
-          .filter((text: string) => text && text.trim())
-          .join(' ');
-        return combinedText || null;
-      }
+  private async cacheTranscript(
+    canonicalUrl: string,
+    platform: string,
+    text: string,
+    segments: TranscriptSegment[] | null,
+    language?: string
+  ): Promise<void> {
+    if (this.cacheTtlMs === 0) {
+      return;
+    }
 
-      console.warn(`No YouTube transcript found for ${url}`);
-      return null;
+    try {
+      await storage.upsertCachedTranscript({
+        canonicalUrl,
+        platform,
+        provider: this.provider.name,
+        language: language ?? null,
+        text,
+        segments: segments ? JSON.stringify(segments) : null
+      });
     } catch (error) {
-      console.error(`YouTube transcript error for ${url}:`, error);
-      return null;
+      console.error(`Failed to cache transcript for ${canonicalUrl}:`, error);
     }
   }
 
@@ -157,6 +222,19 @@ export class TranscriptService {
     return fallbackTranscripts[platform as keyof typeof fallbackTranscripts] || fallbackTranscripts.tiktok;
   }
 
+  // Segments go through the same cleaning as the text; ones left empty are dropped
+  private cleanSegments(segments?: TranscriptSegment[]): TranscriptSegment[] | null {
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    const cleaned = segments
+      .map(segment => ({ ...segment, text: this.cleanTranscript(segment.text) }))
+      .filter(segment => segment.text);
+
+    return cleaned.length > 0 ? cleaned : null;
+  }
+
   private cleanTranscript(transcript: string): string {
     // Remove common transcript artifacts
     let cleaned = transcript
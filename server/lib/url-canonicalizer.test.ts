@@ -0,0 +1,110 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HttpShortLinkResolver, UrlCanonicalizer } from "./url-canonicalizer";
+
+const originalFetch = globalThis.fetch;
+
+// Answers each request from a map of URL -> redirect target (or null for a final page)
+function stubFetch(redirects: Record<string, string | null>): string[] {
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = input.toString();
+    requested.push(url);
+    const location = redirects[url];
+    return location
+      ? new Response(null, { status: 301, headers: { location } })
+      : new Response('page', { status: 200 });
+  }) as typeof fetch;
+  return requested;
+}
+
+function createCanonicalizer(resolver: string): UrlCanonicalizer {
+  process.env.SHORT_LINK_RESOLVER = resolver;
+  return new UrlCanonicalizer();
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  delete process.env.SHORT_LINK_RESOLVER;
+});
+
+describe("UrlCanonicalizer", () => {
+  const canonicalizer = createCanonicalizer('passthrough');
+
+  it("reduces TikTok video URLs to the handle and video ID", async () => {
+    const result = await canonicalizer.canonicalize('https://www.tiktok.com/@creator/video/7301234567890?is_from_webapp=1&lang=en', 'tiktok');
+    assert.deepEqual(result, { url: 'https://www.tiktok.com/@creator/video/7301234567890', videoId: '7301234567890' });
+  });
+
+  it("treats Instagram reels and reel paths as the same video", async () => {
+    const reels = await canonicalizer.canonicalize('https://instagram.com/reels/Cabc-123/?igsh=xyz', 'reels');
+    const reel = await canonicalizer.canonicalize('https://www.instagram.com/reel/Cabc-123/', 'reels');
+    assert.deepEqual(reels, { url: 'https://www.instagram.com/reel/Cabc-123/', videoId: 'Cabc-123' });
+    assert.deepEqual(reel, reels);
+  });
+
+  it("maps every YouTube URL form to the shorts URL", async () => {
+    const forms = [
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=10',
+      'https://youtu.be/dQw4w9WgXcQ?si=share',
+      'https://m.youtube.com/shorts/dQw4w9WgXcQ',
+    ];
+    for (const form of forms) {
+      assert.deepEqual(
+        await canonicalizer.canonicalize(form, 'shorts'),
+        { url: 'https://www.youtube.com/shorts/dQw4w9WgXcQ', videoId: 'dQw4w9WgXcQ' }
+      );
+    }
+  });
+
+  it("drops the query of URLs it does not recognise", async () => {
+    const result = await canonicalizer.canonicalize('https://www.tiktok.com/discover/recipes?lang=en', 'tiktok');
+    assert.deepEqual(result, { url: 'https://www.tiktok.com/discover/recipes', videoId: null });
+  });
+
+  it("expands short links through the resolver", async () => {
+    stubFetch({ 'https://vm.tiktok.com/ZMabc123/': 'https://www.tiktok.com/@creator/video/42?_r=1' });
+    const result = await createCanonicalizer('http').canonicalize('https://vm.tiktok.com/ZMabc123/', 'tiktok');
+    assert.deepEqual(result, { url: 'https://www.tiktok.com/@creator/video/42', videoId: '42' });
+  });
+
+  it("keeps the short link when it redirects off the allowlist", async () => {
+    stubFetch({ 'https://vm.tiktok.com/ZMabc123/': 'http://169.254.169.254/latest/meta-data/' });
+    const result = await createCanonicalizer('http').canonicalize('https://vm.tiktok.com/ZMabc123/', 'tiktok');
+    assert.deepEqual(result, { url: 'https://vm.tiktok.com/ZMabc123/', videoId: null });
+  });
+});
+
+describe("HttpShortLinkResolver", () => {
+  const resolver = new HttpShortLinkResolver();
+
+  it("follows redirects hop by hop to the final URL", async () => {
+    const requested = stubFetch({
+      'https://vm.tiktok.com/ZMabc123/': 'https://www.tiktok.com/t/ZTabc/',
+      'https://www.tiktok.com/t/ZTabc/': '/@creator/video/42',
+    });
+    assert.equal(await resolver.resolve('https://vm.tiktok.com/ZMabc123/'), 'https://www.tiktok.com/@creator/video/42');
+    assert.equal(requested.length, 3);
+  });
+
+  it("never requests a host outside the allowlist", async () => {
+    const requested = stubFetch({ 'https://vm.tiktok.com/ZMabc123/': 'https://internal.example/admin' });
+    await assert.rejects(resolver.resolve('https://vm.tiktok.com/ZMabc123/'), /Refusing to follow/);
+    assert.deepEqual(requested, ['https://vm.tiktok.com/ZMabc123/']);
+  });
+
+  it("refuses plain HTTP hops, even to a platform host", async () => {
+    const requested = stubFetch({ 'https://vm.tiktok.com/ZMabc123/': 'http://www.tiktok.com/@creator/video/42' });
+    await assert.rejects(resolver.resolve('https://vm.tiktok.com/ZMabc123/'), /Refusing to follow/);
+    assert.equal(requested.length, 1);
+  });
+
+  it("gives up on redirect loops", async () => {
+    const requested = stubFetch({
+      'https://vm.tiktok.com/a/': 'https://vm.tiktok.com/b/',
+      'https://vm.tiktok.com/b/': 'https://vm.tiktok.com/a/',
+    });
+    await assert.rejects(resolver.resolve('https://vm.tiktok.com/a/'), /redirected more than/);
+    assert.equal(requested.length, 6);
+  });
+});
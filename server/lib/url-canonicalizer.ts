@@ -0,0 +1,171 @@
+import type { Platform } from "@shared/schema";
+import { InputSanitizer } from "./input-sanitizer";
+
+const RESOLVE_TIMEOUT_MS = 5000;
+
+// Share links redirect once or twice; longer chains are not followed
+const MAX_REDIRECTS = 5;
+
+const TIKTOK_VIDEO_PATH = /^\/@([^/]+)\/video\/(\d+)/;
+const INSTAGRAM_MEDIA_PATH = /(?:^|\/)(reels?|p|tv)\/([\w-]+)/;
+const YOUTUBE_ID_PATH = /^\/(?:shorts|embed|live|v)\/([\w-]+)/;
+
+/**
+ * Expands share links (vm.tiktok.com/..., tiktok.com/t/..., instagram.com/share/...)
+ * into the full video URL
+ */
+export interface ShortLinkResolver {
+  readonly name: string;
+  resolve(url: string): Promise<string>;
+}
+
+/**
+ * Follows the short link's redirects and reports where they end up.
+ * Redirects are followed one hop at a time and every hop must stay on an
+ * allowlisted HTTPS host, so a short link can never make the server
+ * request an internal or arbitrary address.
+ */
+export class HttpShortLinkResolver implements ShortLinkResolver {
+  readonly name = 'http';
+
+  async resolve(url: string): Promise<string> {
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      this.assertAllowed(current);
+
+      const response = await fetch(current, {
+        method: 'GET',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS)
+      });
+      // Only the final URL matters, not the page
+      await response.body?.cancel();
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return current;
+      }
+      current = new URL(location, current).toString();
+    }
+
+    throw new Error(`Short link ${url} redirected more than ${MAX_REDIRECTS} times`);
+  }
+
+  private assertAllowed(url: string): void {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' || !InputSanitizer.detectPlatform(url)) {
+      throw new Error(`Refusing to follow a redirect to ${parsed.protocol}//${parsed.host}`);
+    }
+  }
+}
+
+/**
+ * Leaves short links untouched, for offline development and testing
+ */
+export class PassthroughShortLinkResolver implements ShortLinkResolver {
+  readonly name = 'passthrough';
+
+  async resolve(url: string): Promise<string> {
+    return url;
+  }
+}
+
+const shortLinkResolvers: Record<string, () => ShortLinkResolver> = {
+  http: () => new HttpShortLinkResolver(),
+  passthrough: () => new PassthroughShortLinkResolver(),
+};
+
+export interface CanonicalVideoUrl {
+  url: string;
+  videoId: string | null; // Stable platform ID, null when the URL shape is not recognised
+}
+
+/**
+ * Reduces the many URL forms of one video to a single canonical URL, so repeated
+ * videos can be deduplicated and share one transcript cache entry
+ */
+export class UrlCanonicalizer {
+  private resolver: ShortLinkResolver;
+
+  constructor() {
+    const resolverName = process.env.SHORT_LINK_RESOLVER || 'http';
+    const createResolver = shortLinkResolvers[resolverName];
+    if (!createResolver) {
+      console.warn(`Unknown short link resolver "${resolverName}", falling back to http`);
+    }
+    this.resolver = (createResolver || shortLinkResolvers.http)();
+  }
+
+  /**
+   * Expects a URL already passed through InputSanitizer.sanitizeUrl
+   */
+  async canonicalize(url: string, platform: Platform): Promise<CanonicalVideoUrl> {
+    const parsed = new URL(await this.expandShortLink(url));
+
+    switch (platform) {
+      case 'tiktok':
+        return this.canonicalizeTikTok(parsed);
+      case 'reels':
+        return this.canonicalizeInstagram(parsed);
+      case 'shorts':
+        return this.canonicalizeYouTube(parsed);
+    }
+  }
+
+  private canonicalizeTikTok(parsed: URL): CanonicalVideoUrl {
+    const match = parsed.pathname.match(TIKTOK_VIDEO_PATH);
+    if (!match) {
+      return this.withoutQuery(parsed);
+    }
+    return { url: `https://www.tiktok.com/@${match[1]}/video/${match[2]}`, videoId: match[2] };
+  }
+
+  private canonicalizeInstagram(parsed: URL): CanonicalVideoUrl {
+    const match = parsed.pathname.match(INSTAGRAM_MEDIA_PATH);
+    if (!match) {
+      return this.withoutQuery(parsed);
+    }
+    const kind = match[1] === 'reels' ? 'reel' : match[1];
+    return { url: `https://www.instagram.com/${kind}/${match[2]}/`, videoId: match[2] };
+  }
+
+  private canonicalizeYouTube(parsed: URL): CanonicalVideoUrl {
+    const videoId = parsed.hostname.toLowerCase() === 'youtu.be'
+      ? parsed.pathname.split('/')[1] || null
+      : parsed.searchParams.get('v') || parsed.pathname.match(YOUTUBE_ID_PATH)?.[1] || null;
+
+    if (!videoId) {
+      return this.withoutQuery(parsed);
+    }
+    return { url: `https://www.youtube.com/shorts/${videoId}`, videoId };
+  }
+
+  private withoutQuery(parsed: URL): CanonicalVideoUrl {
+    return { url: `${parsed.origin}${parsed.pathname}`, videoId: null };
+  }
+
+  private isShortLink(parsed: URL): boolean {
+    const hostname = parsed.hostname.toLowerCase();
+    return hostname === 'vm.tiktok.com'
+      || hostname === 'vt.tiktok.com'
+      || (hostname.endsWith('tiktok.com') && parsed.pathname.startsWith('/t/'))
+      || (hostname.endsWith('instagram.com') && parsed.pathname.startsWith('/share/'));
+  }
+
+  // Falls back to the short link itself when it cannot be expanded
+  private async expandShortLink(url: string): Promise<string> {
+    if (!this.isShortLink(new URL(url))) {
+      return url;
+    }
+
+    try {
+      const resolved = await this.resolver.resolve(url);
+      // Redirects must land on an allowlisted host again
+      return InputSanitizer.sanitizeUrl(resolved);
+    } catch (error) {
+      console.warn(`Failed to resolve short link ${url}:`, error);
+      return url;
+    }
+  }
+}
@@ -1,17 +1,20 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { analyzeVideosSchema, type AnalyzeVideosRequest, type AnalyzeVideosResponse } from "@shared/schema";
+import { analyzeVideosSchema, watchlistTermSchema, phraseInsightsQuerySchema, historyQuerySchema, MAX_WATCHLIST_TERMS, type AnalysisJobResponse, type BatchStatusResponse, type BatchProgressEvent, type BatchStatus, type ResultStatus, type PhraseInsightsResponse, type TopicClusteringStatus } from "@shared/schema";
 import { ZodError } from "zod";
-import { TranscriptService } from "./lib/transcript-service";
-import { SentimentService } from "./lib/sentiment-service";
 import { planLimitsService } from "./lib/plan-limits-service";
 import { getSession } from "./session";
 import { body, validationResult } from "express-validator";
 import { InputSanitizer } from "./lib/input-sanitizer";
-import { extractPhrases } from "./lib/phrase-extractor";
+import { analysisQueue } from "./lib/analysis-queue";
+import { topicClusteringQueue } from "./lib/topic-queue";
+import { summarizeBatchResults } from "./lib/batch-summary";
+import { summarizePhraseTrends } from "./lib/phrase-insights";
+import { RETRYABLE_RESULT_STATUSES } from "./lib/batch-processor";
+import { batchEventBus } from "./lib/batch-events";
 import { getCsrfToken } from "./lib/csrf-middleware";
-import { authenticateFirebaseToken, type AuthenticatedRequest } from "./lib/auth-middleware";
+import { authenticateFirebaseToken, requireAdmin, type AuthenticatedRequest } from "./lib/auth-middleware";
 import { authSyncService } from "./lib/auth-sync-service";
 import Stripe from "stripe";
 
@@ -22,6 +25,12 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2025-04-30.basil",
 });
 
+// Range of GET /api/insights/phrases when no 'from' is given
+const INSIGHTS_DEFAULT_DAYS = 90;
+
+// Longest range GET /api/insights/phrases accepts, which bounds the buckets built per term
+const INSIGHTS_MAX_DAYS = 366;
+
 // Helper function to extract plan from price ID
 function getPlanFromPriceId(priceId: string): string | null {
   // Map actual Stripe price IDs to plan names
@@ -69,8 +78,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Session middleware for CSRF and state management
   app.use(getSession());
 
-  const transcriptService = new TranscriptService();
-  const sentimentService = new SentimentService();
+  // Resume batches that were queued before the last restart
+  analysisQueue.recoverInterruptedJobs().catch(error => {
+    console.error("Failed to recover queued analysis jobs:", error);
+  });
 
   // Auth routes (requires authentication)
   app.get('/api/auth/user', authenticateFirebaseToken, async (req: any, res) => {
@@ -139,12 +150,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const startTime = Date.now();
       const requestBody = analyzeVideosSchema.parse(req.body);
       const userId = req.user.id; // Use authenticated user ID
 
-      // Check user limits before processing
-      const limitCheck = await planLimitsService.checkUserLimits(userId, requestBody.urls.length);
+      // An explicitly chosen platform must agree with every URL's host
+      if (requestBody.contentType !== 'auto') {
+        const mismatchedUrls = requestBody.urls.filter(url => {
+          const platform = InputSanitizer.detectPlatform(url);
+          return platform !== null && platform !== requestBody.contentType;
+        });
+        if (mismatchedUrls.length > 0) {
+          return res.status(400).json({
+            error: "Platform mismatch",
+            message: `${mismatchedUrls.length} URL(s) do not belong to the selected platform`,
+            mismatchedUrls
+          });
+        }
+      }
+
+      // Premium sentiment backends are gated by plan
+      if (requestBody.sentimentProvider && !(await planLimitsService.canUseSentimentProvider(userId, requestBody.sentimentProvider))) {
+        return res.status(403).json({
+          error: "Sentiment provider not available",
+          message: `The ${requestBody.sentimentProvider} sentiment provider is not included in your plan`
+        });
+      }
+
+      // Reserve the videos before queueing so batches still waiting in the queue count
+      // against the monthly limit; the processor gives back the ones it does not analyze
+      const limitCheck = await planLimitsService.reserveVideoUsage(userId, requestBody.urls.length);
       if (!limitCheck.canProceed) {
         return res.status(403).json({
           error: "Usage limit exceeded",
@@ -154,132 +188,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Create batch analysis record
-      const batch = await storage.createBatchAnalysis({
-        userId,
-        contentType: requestBody.contentType,
-        totalVideos: requestBody.urls.length,
-        totalWords: 0,
-        avgConfidence: 0,
-        processingTime: 0,
-        sentimentCounts: JSON.stringify({ POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0 })
-      });
-
-      // Process each URL
-      const results: any[] = [];
-      let totalWords = 0;
-      let totalConfidence = 0;
-      const sentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0 };
-      const sentimentScores = { positive: 0, neutral: 0, negative: 0 };
-
-      for (const url of requestBody.urls) {
-        const sanitizedUrl = InputSanitizer.sanitizeUrl(url);
-        
-        try {
-          // Get transcript
-          const transcript = await transcriptService.getTranscript(sanitizedUrl, requestBody.contentType);
-          
-          if (!transcript) {
-            results.push({
-              url: sanitizedUrl,
-              platform: requestBody.contentType,
-              sentiment: "NEUTRAL",
-              confidence: 0.5,
-              transcript: "No transcript available",
-              wordCount: 0,
-              sentimentScores: JSON.stringify({ positive: 0, neutral: 1, negative: 0 }),
-              commonPositivePhrases: JSON.stringify([]),
-              commonNegativePhrases: JSON.stringify([])
-            });
-            continue;
-          }
-
-          // Analyze sentiment
-          const sentimentResult = await sentimentService.analyzeSentiment(transcript);
-          
-          // Extract positive and negative phrases
-          const extractedPhrases = extractPhrases(transcript);
-          
-          // Create analysis result
-          const analysisResult = await storage.createAnalysisResult({
-            batchId: batch.id,
-            url: sanitizedUrl,
-            platform: requestBody.contentType,
-            transcript: InputSanitizer.sanitizeText(transcript),
-            sentiment: sentimentResult.sentiment,
-            confidence: sentimentResult.confidence,
-            wordCount: transcript.split(' ').length,
-            sentimentScores: JSON.stringify(sentimentResult.scores || {}),
-            commonPositivePhrases: JSON.stringify(extractedPhrases.positivePhrases),
-            commonNegativePhrases: JSON.stringify(extractedPhrases.negativePhrases)
-          });
-
-          results.push(analysisResult);
-          totalWords += transcript.split(' ').length;
-          totalConfidence += sentimentResult.confidence;
-          
-          // Count sentiments
-          sentimentCounts[sentimentResult.sentiment as keyof typeof sentimentCounts]++;
-          
-          // Aggregate scores
-          if (sentimentResult.scores) {
-            sentimentScores.positive += sentimentResult.scores.positive;
-            sentimentScores.neutral += sentimentResult.scores.neutral;
-            sentimentScores.negative += sentimentResult.scores.negative;
-          }
-        } catch (error) {
-          console.error(`Error processing URL ${sanitizedUrl}:`, error);
-          results.push({
-            url: sanitizedUrl,
-            platform: requestBody.contentType,
-            sentiment: "NEUTRAL",
-            confidence: 0.5,
-            transcript: "Error processing video",
-            wordCount: 0,
-            sentimentScores: JSON.stringify({ positive: 0, neutral: 1, negative: 0 }),
-            commonPositivePhrases: JSON.stringify([]),
-            commonNegativePhrases: JSON.stringify([])
-          });
-        }
-      }
-
-      // Calculate averages
-      const totalVideos = results.length;
-      const avgConfidence = totalVideos > 0 ? totalConfidence / totalVideos : 0;
-      const processingTime = Date.now() - startTime;
-
-      // Calculate average sentiment scores across all videos
-      if (totalVideos > 0) {
-        sentimentScores.positive = sentimentScores.positive / totalVideos;
-        sentimentScores.neutral = sentimentScores.neutral / totalVideos;
-        sentimentScores.negative = sentimentScores.negative / totalVideos;
+      // Create a queued batch; the analysis queue processes it in the background
+      let batch;
+      try {
+        batch = await storage.createBatchAnalysis({
+          userId,
+          contentType: requestBody.contentType,
+          totalVideos: requestBody.urls.length,
+          totalWords: 0,
+          avgConfidence: 0,
+          processingTime: 0,
+          sentimentCounts: JSON.stringify({ POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0, MIXED: 0 }),
+          status: 'queued',
+          urls: JSON.stringify(requestBody.urls),
+          options: JSON.stringify({
+            includeTimestamps: requestBody.includeTimestamps,
+            forceRefresh: requestBody.forceRefresh,
+            analyzeComments: requestBody.analyzeComments,
+            commentLimit: requestBody.commentLimit,
+            sentimentProvider: requestBody.sentimentProvider,
+            analyzeAspects: requestBody.analyzeAspects,
+            aspects: requestBody.aspects?.map(aspect => InputSanitizer.sanitizeText(aspect)),
+            keyphraseCount: requestBody.keyphraseCount,
+            language: requestBody.language
+          })
+        });
+      } catch (error) {
+        await planLimitsService.releaseVideoUsage(userId, requestBody.urls.length);
+        throw error;
       }
 
-      // Update the batch with calculated results
-      await storage.updateBatchAnalysis(batch.id, {
-        totalWords,
-        avgConfidence,
-        processingTime,
-        sentimentCounts: JSON.stringify(sentimentCounts)
-      });
-
-      // Record video usage for the user
-      await planLimitsService.recordVideoUsage(userId, totalVideos);
+      analysisQueue.enqueue(batch.id);
 
-      const response: AnalyzeVideosResponse = {
+      const response: AnalysisJobResponse = {
         batchId: batch.id,
-        results,
-        summary: {
-          totalVideos,
-          totalWords,
-          avgConfidence,
-          processingTime,
-          sentimentCounts,
-          sentimentScores
-        }
+        status: 'queued'
       };
 
-      res.json(response);
+      res.status(202).json(response);
     } catch (error) {
       console.error("Analysis error:", error);
       if (error instanceof ZodError) {
@@ -308,29 +254,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
       
-      // Get analysis results for this batch
-      const results = await storage.getAnalysisResultsByBatchId(batchId);
-      
-      res.json({ batch, results });
+      // Get analysis results for this batch (partial while the batch is still running)
+      const results = await storage.getAnalysisResultsWithMetadata(batchId);
+      const summary = summarizeBatchResults(results);
+      const aspectSummaries = await storage.getBatchAspectSummaries(batchId);
+      const topics = await storage.getTopics({ scope: 'batch', userId: batch.userId, batchId });
+      const tagLeaderboard = await storage.getTagLeaderboard({ batchId });
+
+      const response: BatchStatusResponse = {
+        batchId: batch.id,
+        batch,
+        results,
+        aspectSummaries,
+        topics,
+        tagLeaderboard,
+        progress: {
+          processedVideos: batch.processedVideos,
+          totalVideos: batch.totalVideos
+        },
+        summary: {
+          ...summary,
+          totalVideos: batch.totalVideos,
+          processingTime: batch.processingTime
+        }
+      };
+
+      res.json(response);
     } catch (error) {
       console.error("Error fetching batch:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // Retry the failed URLs of a finished batch (requires authentication)
+  app.post("/api/batch/:id/retry", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const batchId = InputSanitizer.validateBatchId(req.params.id);
+
+      // Subscribe before reading the batch, so nothing published while it loads
+      // (the final status included) is lost; events are held until the snapshot is sent
+      let pending: BatchProgressEvent[] | null = [];
+      let heartbeat: NodeJS.Timeout | undefined;
+      const unsubscribe = batchEventBus.subscribe(batchId, (event) => {
+        if (pending) {
+          pending.push(event);
+        } else {
+          forward(event);
+        }
+      });
+
+      // Get the batch and verify ownership
+      const batch = await storage.getBatchAnalysis(batchId).catch((error) => {
+        unsubscribe();
+        throw error;
+      });
+      if (!batch) {
+        unsubscribe();
+        return res.status(404).json({ error: "Batch not found" });
+      }
+
+      // Check if user owns this batch
+      if (batch.userId !== req.user.id) {
+        unsubscribe();
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+
+      const isFinished = (status: string) => status === 'completed' || status === 'failed';
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        res.end();
+      };
+      const forward = (event: BatchProgressEvent) => {
+        if (closed) return;
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'status' && isFinished(event.status)) {
+          close();
+        }
+      };
+
+      // Initial snapshot so clients that connect mid-batch know where it stands,
+      // then whatever arrived while it was loading
+      forward({
+        type: 'status',
+        batchId,
+        status: batch.status as BatchStatus,
+        processedVideos: batch.processedVideos,
+        totalVideos: batch.totalVideos,
+        errorMessage: batch.errorMessage
+      });
+      const buffered = pending;
+      pending = null;
+      buffered.forEach(forward);
+
+      if (closed) {
+        return;
+      }
+
+      // Keep proxies from closing an idle stream
+      heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+      req.on('close', close);
+    } catch (error) {
+      console.error("Error streaming batch events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
   // Get user's analysis history (requires authentication)
   app.get("/api/history", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
     try {
-      const batches = await storage.getUserBatchAnalyses(req.user.id);
+      // ?brand= narrows the history to batches where a video mentioned that watchlist brand,
+      // ?language= to batches with a video analyzed in that language
+      const { brand, language } = historyQuerySchema.parse(req.query);
+      const batches = await storage.getUserBatchAnalyses(req.user.id, { brand, language });
       res.json(batches);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error fetching history:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  // Fix incomplete batch data (admin route)
-  app.post("/api/admin/fix-batch-data", async (req, res) => {
+  // Recurring phrases and aspects across the user's history (requires authentication)
+  app.get("/api/insights/phrases", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const query = phraseInsightsQuerySchema.parse(req.query);
+      const to = query.to ?? new Date();
+      const from = query.from ?? new Date(to.getTime() - INSIGHTS_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+      if (from > to) {
+        return res.status(400).json({ error: "'from' must be before 'to'" });
+      }
+      if (to.getTime() - from.getTime() > INSIGHTS_MAX_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ error: `The range can span at most ${INSIGHTS_MAX_DAYS} days` });
+      }
+
+      const rows = await storage.getPhraseIndexRows(req.user.id, { from, to, platform: query.platform });
+      const response: PhraseInsightsResponse = summarizePhraseTrends(rows, from, to);
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching phrase insights:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: error.errors
+        });
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Themes across the user's history, as last clustered (requires authentication)
+  app.get("/api/insights/topics", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const topics = await storage.getTopics({ scope: 'history', userId: req.user.id });
+      res.json(topics);
+    } catch (error) {
+      console.error("Error fetching history topics:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Most used hashtags and mentions across the user's history (requires authentication)
+  app.get("/api/insights/hashtags", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const leaderboard = await storage.getTagLeaderboard({ userId: req.user.id });
+      res.json(leaderboard);
+    } catch (error) {
+      console.error("Error fetching hashtag leaderboard:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Queue a re-clustering of the user's history into themes (requires authentication)
+  // Clustering runs in the background; poll the status route, then re-read the topics
+  app.post("/api/insights/topics", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    topicClusteringQueue.enqueue(req.user.id);
+    const response: TopicClusteringStatus = { clustering: true };
+    res.status(202).json(response);
+  });
+
+  // Whether the user's history is still queued or being clustered (requires authentication)
+  app.get("/api/insights/topics/status", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    const response: TopicClusteringStatus = { clustering: topicClusteringQueue.isClustering(req.user.id) };
+    res.json(response);
+  });
+
+  // Get the user's brand watchlist (requires authentication)
+  app.get("/api/watchlist", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const terms = await storage.getWatchlistTerms(req.user.id);
+      res.json(terms);
+    } catch (error) {
+      console.error("Error fetching watchlist:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Add a brand to the user's watchlist (requires authentication)
+  app.post("/api/watchlist", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const requestBody = watchlistTermSchema.parse(req.body);
+      const brand = InputSanitizer.sanitizeText(requestBody.brand);
+      const aliases = requestBody.aliases.map(alias => InputSanitizer.sanitizeText(alias));
+
+      const existing = await storage.getWatchlistTerms(req.user.id);
+      if (existing.length >= MAX_WATCHLIST_TERMS) {
+        return res.status(400).json({ error: `A watchlist can hold at most ${MAX_WATCHLIST_TERMS} brands` });
+      }
+      if (existing.some(term => term.brand.toLowerCase() === brand.toLowerCase())) {
+        return res.status(409).json({ error: "Brand is already on your watchlist" });
+      }
+
+      const term = await storage.createWatchlistTerm({
+        userId: req.user.id,
+        brand,
+        aliases: JSON.stringify(aliases)
+      });
+      res.status(201).json(term);
+    } catch (error) {
+      console.error("Error adding watchlist term:", error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          error: "Invalid request data",
+          details: error.errors
+        });
+      }
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Remove a brand from the user's watchlist (requires authentication)
+  app.delete("/api/watchlist/:id", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({ error: "Invalid watchlist term ID" });
+      }
+
+      const deleted = await storage.deleteWatchlistTerm(req.user.id, id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Watchlist term not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting watchlist term:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Fix incomplete batch data (requires admin)
+  app.post("/api/admin/fix-batch-data", authenticateFirebaseToken, requireAdmin, async (req, res) => {
     try {
       await storage.fixIncompleteBatchData();
       res.json({ message: "Batch data fixed successfully" });
@@ -340,6 +529,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rescale historic results to the 0-1 sentiment scale (requires admin)
+  app.post("/api/admin/migrate-sentiment-scale", authenticateFirebaseToken, requireAdmin, async (req, res) => {
+    try {
+      const migrated = await storage.migrateSentimentScale();
+      res.json({ message: "Sentiment scale migrated successfully", ...migrated });
+    } catch (error) {
+      console.error("Error migrating sentiment scale:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Index phrases and aspects of results analyzed before the phrase index existed (requires admin)
+  app.post("/api/admin/rebuild-phrase-index", authenticateFirebaseToken, requireAdmin, async (req, res) => {
+    try {
+      const rebuilt = await storage.rebuildPhraseIndex();
+      res.json({ message: "Phrase index rebuilt successfully", ...rebuilt });
+    } catch (error) {
+      console.error("Error rebuilding phrase index:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Extract hashtags and mentions of results analyzed before they were indexed (requires admin)
+  app.post("/api/admin/rebuild-video-tags", authenticateFirebaseToken, requireAdmin, async (req, res) => {
+    try {
+      const rebuilt = await storage.rebuildVideoTags();
+      res.json({ message: "Hashtags and mentions rebuilt successfully", ...rebuilt });
+    } catch (error) {
+      console.error("Error rebuilding hashtags and mentions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Get user plan information (requires authentication)
   app.get("/api/user/plan", authenticateFirebaseToken, async (req: AuthenticatedRequest, res) => {
     try {
@@ -2,15 +2,60 @@ import {
   users,
   analysisResults,
   batchAnalysis,
+  transcripts,
+  videoMetadata,
   type User,
   type UpsertUser,
   type AnalysisResult,
   type InsertAnalysisResult,
   type BatchAnalysis,
   type InsertBatchAnalysis,
+  type BatchStatus,
+  type Transcript,
+  type UpsertTranscript,
+  type VideoMetadata,
+  type UpsertVideoMetadata,
+  type AnalysisResultWithMetadata,
+  batchAspectSummaries,
+  type BatchAspectSummary,
+  type InsertBatchAspectSummary,
+  watchlistTerms,
+  type WatchlistTerm,
+  type InsertWatchlistTerm,
+  phraseIndex,
+  type InsertPhraseIndexEntry,
+  type Platform,
+  type Language,
+  topics,
+  topicMembers,
+  type TopicWithMembers,
+  videoTags,
+  type InsertVideoTag,
+  type TagLeaderboard,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { summarizeAspects, summarizeBatchResults, summarizeTopics, type TopicSummary } from "./lib/batch-summary";
+import { buildPhraseIndexEntries, type PhraseIndexRow } from "./lib/phrase-insights";
+import { buildVideoTagEntries, summarizeTags } from "./lib/social-tags";
+import { rescaleHistoricResult } from "@shared/sentiment-scale";
+import { eq, desc, inArray, gt, gte, lte, and, sql } from "drizzle-orm";
+
+// Most recent videos clustered into history topics; older ones rarely change the themes
+const HISTORY_TOPIC_VIDEOS = 200;
+
+// Topics belong to one batch, or to a user's whole history
+export type TopicOwner =
+  | { scope: 'batch'; userId: string; batchId: number }
+  | { scope: 'history'; userId: string };
+
+// Narrow the history to batches with at least one video matching every filter set
+export interface HistoryFilters {
+  brand?: string; // Mentioned the watchlist brand
+  language?: Language; // Was analyzed in the language
+}
+
+// Tag leaderboards cover one batch, or a user's whole history
+export type TagLeaderboardScope = { batchId: number } | { userId: string };
 
 // Interface for storage operations
 export interface IStorage {
@@ -24,6 +69,8 @@ export interface IStorage {
   
   // Usage tracking operations
   incrementUserVideoCount(userId: string, videoCount: number): Promise<User>;
+  reserveUserVideos(userId: string, videoCount: number, monthlyVideoLimit: number): Promise<boolean>;
+  releaseUserVideos(userId: string, videoCount: number): Promise<void>;
   resetMonthlyUsageIfNeeded(userId: string): Promise<User>;
   getUserUsage(userId: string): Promise<{ monthlyVideoCount: number; lastResetDate: Date; subscriptionPlan: string | null; subscriptionStatus: string | null } | null>;
   
@@ -32,15 +79,53 @@ export interface IStorage {
   
   // Fix existing incomplete batch data
   fixIncompleteBatchData(): Promise<void>;
+  recalculateBatchSummary(batchId: number): Promise<BatchAnalysis>;
+  migrateSentimentScale(): Promise<{ results: number; batches: number }>;
+  rebuildPhraseIndex(): Promise<{ results: number; entries: number }>;
+  rebuildVideoTags(): Promise<{ results: number; tags: number }>;
   
   createAnalysisResult(result: InsertAnalysisResult): Promise<AnalysisResult>;
+  updateAnalysisResult(id: number, updates: Partial<InsertAnalysisResult>): Promise<AnalysisResult>;
   getAnalysisResultsByBatchId(batchId: number): Promise<AnalysisResult[]>;
+  getAnalysisResultsWithMetadata(batchId: number): Promise<AnalysisResultWithMetadata[]>;
   
   createBatchAnalysis(batch: InsertBatchAnalysis): Promise<BatchAnalysis>;
   updateBatchAnalysis(id: number, updates: Partial<InsertBatchAnalysis>): Promise<BatchAnalysis>;
+  transitionBatchStatus(id: number, fromStatuses: BatchStatus[], status: BatchStatus): Promise<BatchAnalysis | undefined>;
   getBatchAnalysis(id: number): Promise<BatchAnalysis | undefined>;
   getAllBatchAnalyses(): Promise<BatchAnalysis[]>;
-  getUserBatchAnalyses(userId: string): Promise<BatchAnalysis[]>;
+  getUserBatchAnalyses(userId: string, filters?: HistoryFilters): Promise<BatchAnalysis[]>;
+  getBatchAnalysesByStatus(statuses: string[]): Promise<BatchAnalysis[]>;
+  
+  // Transcript cache operations
+  getCachedTranscript(canonicalUrl: string): Promise<Transcript | undefined>;
+  upsertCachedTranscript(transcript: UpsertTranscript): Promise<Transcript>;
+
+  // Video metadata operations
+  upsertVideoMetadata(metadata: UpsertVideoMetadata): Promise<VideoMetadata>;
+  getCachedVideoMetadata(canonicalUrl: string): Promise<VideoMetadata | undefined>;
+
+  // Aspect roll-up operations
+  getBatchAspectSummaries(batchId: number): Promise<BatchAspectSummary[]>;
+  replaceBatchAspectSummaries(batchId: number, summaries: InsertBatchAspectSummary[]): Promise<BatchAspectSummary[]>;
+
+  // Brand watchlist operations
+  getWatchlistTerms(userId: string): Promise<WatchlistTerm[]>;
+  createWatchlistTerm(term: InsertWatchlistTerm): Promise<WatchlistTerm>;
+  deleteWatchlistTerm(userId: string, id: number): Promise<boolean>;
+
+  // Cross-batch phrase index operations
+  replacePhraseIndexEntries(resultId: number, entries: InsertPhraseIndexEntry[]): Promise<void>;
+  getPhraseIndexRows(userId: string, query: { from: Date; to: Date; platform?: Platform }): Promise<PhraseIndexRow[]>;
+
+  // Hashtag and mention operations
+  replaceVideoTags(resultId: number, tags: InsertVideoTag[]): Promise<void>;
+  getTagLeaderboard(scope: TagLeaderboardScope): Promise<TagLeaderboard>;
+
+  // Topic operations
+  getTopics(owner: TopicOwner): Promise<TopicWithMembers[]>;
+  replaceTopics(owner: TopicOwner, summaries: TopicSummary[]): Promise<TopicWithMembers[]>;
+  clusterHistoryTopics(userId: string): Promise<TopicWithMembers[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -129,6 +214,38 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  /**
+   * Adds videoCount to the monthly usage only if it stays within the limit.
+   * Check and increment are one statement, so concurrent requests cannot both pass.
+   */
+  async reserveUserVideos(userId: string, videoCount: number, monthlyVideoLimit: number): Promise<boolean> {
+    await this.resetMonthlyUsageIfNeeded(userId);
+
+    const reserved = await db
+      .update(users)
+      .set({
+        monthlyVideoCount: sql`coalesce(${users.monthlyVideoCount}, 0) + ${videoCount}`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(users.id, userId),
+        sql`coalesce(${users.monthlyVideoCount}, 0) + ${videoCount} <= ${monthlyVideoLimit}`
+      ))
+      .returning({ id: users.id });
+    return reserved.length > 0;
+  }
+
+  // Gives back reserved videos that were never analyzed
+  async releaseUserVideos(userId: string, videoCount: number): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        monthlyVideoCount: sql`greatest(coalesce(${users.monthlyVideoCount}, 0) - ${videoCount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
   async resetMonthlyUsageIfNeeded(userId: string): Promise<User> {
     const user = await this.getUser(userId);
     if (!user) throw new Error('User not found');
@@ -174,11 +291,31 @@ export class DatabaseStorage implements IStorage {
     return analysisResult;
   }
 
+  async updateAnalysisResult(id: number, updates: Partial<InsertAnalysisResult>): Promise<AnalysisResult> {
+    const [analysisResult] = await db
+      .update(analysisResults)
+      .set(updates)
+      .where(eq(analysisResults.id, id))
+      .returning();
+    return analysisResult;
+  }
+
   async getAnalysisResultsByBatchId(batchId: number): Promise<AnalysisResult[]> {
     return await db
       .select()
       .from(analysisResults)
-      .where(eq(analysisResults.batchId, batchId));
+      .where(eq(analysisResults.batchId, batchId))
+      .orderBy(analysisResults.id);
+  }
+
+  async getAnalysisResultsWithMetadata(batchId: number): Promise<AnalysisResultWithMetadata[]> {
+    const rows = await db
+      .select()
+      .from(analysisResults)
+      .leftJoin(videoMetadata, eq(videoMetadata.resultId, analysisResults.id))
+      .where(eq(analysisResults.batchId, batchId))
+      .orderBy(analysisResults.id);
+    return rows.map(row => ({ ...row.analysis_results, metadata: row.video_metadata }));
   }
 
   async createBatchAnalysis(batch: InsertBatchAnalysis): Promise<BatchAnalysis> {
@@ -198,6 +335,16 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Moves the batch to status only while it is in one of fromStatuses; undefined when it was not
+  async transitionBatchStatus(id: number, fromStatuses: BatchStatus[], status: BatchStatus): Promise<BatchAnalysis | undefined> {
+    const [result] = await db
+      .update(batchAnalysis)
+      .set({ status })
+      .where(and(eq(batchAnalysis.id, id), inArray(batchAnalysis.status, fromStatuses)))
+      .returning();
+    return result;
+  }
+
   async getBatchAnalysis(id: number): Promise<BatchAnalysis | undefined> {
     const [batch] = await db
       .select()
@@ -213,14 +360,261 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(batchAnalysis.id));
   }
 
-  async getUserBatchAnalyses(userId: string): Promise<BatchAnalysis[]> {
+  async getUserBatchAnalyses(userId: string, filters: HistoryFilters = {}): Promise<BatchAnalysis[]> {
+    const conditions = [eq(batchAnalysis.userId, userId)];
+    if (filters.brand) {
+      const mentioningBatches = db
+        .selectDistinct({ batchId: analysisResults.batchId })
+        .from(analysisResults)
+        .where(sql`${analysisResults.brandMentions}::jsonb @> ${JSON.stringify([{ brand: filters.brand, mentioned: true }])}::jsonb`);
+      conditions.push(inArray(batchAnalysis.id, mentioningBatches));
+    }
+    if (filters.language) {
+      const languageBatches = db
+        .selectDistinct({ batchId: analysisResults.batchId })
+        .from(analysisResults)
+        .where(eq(analysisResults.language, filters.language));
+      conditions.push(inArray(batchAnalysis.id, languageBatches));
+    }
+
     return await db
       .select()
       .from(batchAnalysis)
-      .where(eq(batchAnalysis.userId, userId))
+      .where(and(...conditions))
       .orderBy(desc(batchAnalysis.id));
   }
 
+  async getBatchAnalysesByStatus(statuses: string[]): Promise<BatchAnalysis[]> {
+    return await db
+      .select()
+      .from(batchAnalysis)
+      .where(inArray(batchAnalysis.status, statuses))
+      .orderBy(batchAnalysis.id);
+  }
+
+  async getCachedTranscript(canonicalUrl: string): Promise<Transcript | undefined> {
+    const [transcript] = await db
+      .select()
+      .from(transcripts)
+      .where(eq(transcripts.canonicalUrl, canonicalUrl));
+    return transcript;
+  }
+
+  async upsertCachedTranscript(transcriptData: UpsertTranscript): Promise<Transcript> {
+    const [transcript] = await db
+      .insert(transcripts)
+      .values(transcriptData)
+      .onConflictDoUpdate({
+        target: transcripts.canonicalUrl,
+        set: {
+          platform: transcriptData.platform,
+          provider: transcriptData.provider,
+          language: transcriptData.language,
+          text: transcriptData.text,
+          segments: transcriptData.segments,
+          fetchedAt: new Date(),
+        },
+      })
+      .returning();
+    return transcript;
+  }
+
+  async upsertVideoMetadata(metadataData: UpsertVideoMetadata): Promise<VideoMetadata> {
+    const { resultId, ...updates } = metadataData;
+    const [metadata] = await db
+      .insert(videoMetadata)
+      .values(metadataData)
+      .onConflictDoUpdate({
+        target: videoMetadata.resultId,
+        set: { ...updates, fetchedAt: metadataData.fetchedAt ?? new Date() },
+      })
+      .returning();
+    return metadata;
+  }
+
+  // Most recently fetched metadata of any result for the video
+  async getCachedVideoMetadata(canonicalUrl: string): Promise<VideoMetadata | undefined> {
+    const [row] = await db
+      .select({ metadata: videoMetadata })
+      .from(videoMetadata)
+      .innerJoin(analysisResults, eq(videoMetadata.resultId, analysisResults.id))
+      .where(eq(analysisResults.url, canonicalUrl))
+      .orderBy(desc(videoMetadata.fetchedAt))
+      .limit(1);
+    return row?.metadata;
+  }
+
+  async getBatchAspectSummaries(batchId: number): Promise<BatchAspectSummary[]> {
+    return await db
+      .select()
+      .from(batchAspectSummaries)
+      .where(eq(batchAspectSummaries.batchId, batchId))
+      .orderBy(desc(batchAspectSummaries.videoCount), desc(batchAspectSummaries.mentionCount));
+  }
+
+  async replaceBatchAspectSummaries(batchId: number, summaries: InsertBatchAspectSummary[]): Promise<BatchAspectSummary[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(batchAspectSummaries).where(eq(batchAspectSummaries.batchId, batchId));
+      if (summaries.length === 0) {
+        return [];
+      }
+      return await tx.insert(batchAspectSummaries).values(summaries).returning();
+    });
+  }
+
+  async getWatchlistTerms(userId: string): Promise<WatchlistTerm[]> {
+    return await db
+      .select()
+      .from(watchlistTerms)
+      .where(eq(watchlistTerms.userId, userId))
+      .orderBy(watchlistTerms.brand);
+  }
+
+  async createWatchlistTerm(term: InsertWatchlistTerm): Promise<WatchlistTerm> {
+    const [watchlistTerm] = await db
+      .insert(watchlistTerms)
+      .values(term)
+      .returning();
+    return watchlistTerm;
+  }
+
+  // Scoped to the owner, so one user can never delete another's term
+  async deleteWatchlistTerm(userId: string, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(watchlistTerms)
+      .where(and(eq(watchlistTerms.id, id), eq(watchlistTerms.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Re-running a result replaces its terms rather than adding to them
+  async replacePhraseIndexEntries(resultId: number, entries: InsertPhraseIndexEntry[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(phraseIndex).where(eq(phraseIndex.resultId, resultId));
+      if (entries.length > 0) {
+        await tx.insert(phraseIndex).values(entries);
+      }
+    });
+  }
+
+  async getPhraseIndexRows(
+    userId: string,
+    query: { from: Date; to: Date; platform?: Platform }
+  ): Promise<PhraseIndexRow[]> {
+    const conditions = [
+      eq(phraseIndex.userId, userId),
+      gte(phraseIndex.analyzedAt, query.from),
+      lte(phraseIndex.analyzedAt, query.to)
+    ];
+    if (query.platform) {
+      conditions.push(eq(phraseIndex.platform, query.platform));
+    }
+
+    const rows = await db
+      .select({ entry: phraseIndex, url: analysisResults.url })
+      .from(phraseIndex)
+      .innerJoin(analysisResults, eq(analysisResults.id, phraseIndex.resultId))
+      .where(and(...conditions))
+      .orderBy(phraseIndex.analyzedAt);
+    return rows.map(row => ({ ...row.entry, url: row.url }));
+  }
+
+  // Re-running a result replaces its tags rather than adding to them
+  async replaceVideoTags(resultId: number, tags: InsertVideoTag[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(videoTags).where(eq(videoTags.resultId, resultId));
+      if (tags.length > 0) {
+        await tx.insert(videoTags).values(tags);
+      }
+    });
+  }
+
+  async getTagLeaderboard(scope: TagLeaderboardScope): Promise<TagLeaderboard> {
+    const rows = await db
+      .select({
+        tag: videoTags,
+        viewCount: videoMetadata.viewCount,
+        likeCount: videoMetadata.likeCount,
+        commentCount: videoMetadata.commentCount,
+        shareCount: videoMetadata.shareCount
+      })
+      .from(videoTags)
+      .leftJoin(videoMetadata, eq(videoMetadata.resultId, videoTags.resultId))
+      .where('batchId' in scope ? eq(videoTags.batchId, scope.batchId) : eq(videoTags.userId, scope.userId));
+    return summarizeTags(rows.map(({ tag, ...engagement }) => ({ ...tag, ...engagement })));
+  }
+
+  private topicOwnerCondition(owner: TopicOwner) {
+    return owner.scope === 'batch'
+      ? and(eq(topics.scope, 'batch'), eq(topics.batchId, owner.batchId))
+      : and(eq(topics.scope, 'history'), eq(topics.userId, owner.userId));
+  }
+
+  async getTopics(owner: TopicOwner): Promise<TopicWithMembers[]> {
+    const topicRows = await db
+      .select()
+      .from(topics)
+      .where(this.topicOwnerCondition(owner))
+      .orderBy(desc(topics.videoCount), topics.id);
+    if (topicRows.length === 0) {
+      return [];
+    }
+
+    const memberRows = await db
+      .select({
+        topicId: topicMembers.topicId,
+        resultId: topicMembers.resultId,
+        similarity: topicMembers.similarity,
+        batchId: analysisResults.batchId,
+        url: analysisResults.url,
+        sentiment: analysisResults.sentiment
+      })
+      .from(topicMembers)
+      .innerJoin(analysisResults, eq(analysisResults.id, topicMembers.resultId))
+      .where(inArray(topicMembers.topicId, topicRows.map(topic => topic.id)))
+      .orderBy(desc(topicMembers.similarity));
+
+    return topicRows.map(topic => ({
+      ...topic,
+      members: memberRows
+        .filter(member => member.topicId === topic.id)
+        .map(({ topicId, ...member }) => member)
+    }));
+  }
+
+  async replaceTopics(owner: TopicOwner, summaries: TopicSummary[]): Promise<TopicWithMembers[]> {
+    await db.transaction(async (tx) => {
+      // Members go with their topics (cascade)
+      await tx.delete(topics).where(this.topicOwnerCondition(owner));
+      for (const summary of summaries) {
+        const [topic] = await tx
+          .insert(topics)
+          .values({
+            userId: owner.userId,
+            batchId: owner.scope === 'batch' ? owner.batchId : null,
+            scope: owner.scope,
+            terms: JSON.stringify(summary.terms),
+            videoCount: summary.members.length,
+            sentimentCounts: JSON.stringify(summary.sentimentCounts)
+          })
+          .returning();
+        await tx.insert(topicMembers).values(summary.members.map(member => ({ ...member, topicId: topic.id })));
+      }
+    });
+    return await this.getTopics(owner);
+  }
+
+  async clusterHistoryTopics(userId: string): Promise<TopicWithMembers[]> {
+    const rows = await db
+      .select({ result: analysisResults })
+      .from(analysisResults)
+      .innerJoin(batchAnalysis, eq(batchAnalysis.id, analysisResults.batchId))
+      .where(and(eq(batchAnalysis.userId, userId), eq(analysisResults.status, 'ok')))
+      .orderBy(desc(analysisResults.id))
+      .limit(HISTORY_TOPIC_VIDEOS);
+    return await this.replaceTopics({ scope: 'history', userId }, summarizeTopics(rows.map(row => row.result)));
+  }
+
   async migrateUserToFirebase(firebaseUid: string, email: string): Promise<User> {
     // Get existing user by email
     const [existingUser] = await db
@@ -287,28 +681,97 @@ export class DatabaseStorage implements IStorage {
         continue;
       }
 
-      // Recalculate the summary data
-      const totalWords = results.reduce((sum, result) => sum + (result.wordCount || 0), 0);
-      const totalConfidence = results.reduce((sum, result) => sum + (result.confidence || 0), 0);
-      const avgConfidence = totalConfidence / results.length;
-
-      // Count sentiments
-      const sentimentCounts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0 };
-      results.forEach(result => {
-        if (result.sentiment && sentimentCounts.hasOwnProperty(result.sentiment)) {
-          sentimentCounts[result.sentiment as keyof typeof sentimentCounts]++;
-        }
-      });
-
-      // Update the batch
-      await this.updateBatchAnalysis(batch.id, {
-        totalWords,
-        avgConfidence,
-        sentimentCounts: JSON.stringify(sentimentCounts)
-      });
-
-      console.log(`Fixed batch ${batch.id}: ${results.length} results, avg confidence: ${avgConfidence.toFixed(2)}`);
+      const updated = await this.recalculateBatchSummary(batch.id);
+
+      console.log(`Fixed batch ${batch.id}: ${results.length} results, avg confidence: ${updated.avgConfidence.toFixed(2)}`);
+    }
+  }
+
+  /**
+   * Rescales rows written before every backend reported on the 0–1 scale.
+   * Old confidences were 0–100, so anything above 1 is historic; safe to re-run.
+   */
+  async migrateSentimentScale(): Promise<{ results: number; batches: number }> {
+    const historicResults = await db
+      .select()
+      .from(analysisResults)
+      .where(gt(analysisResults.confidence, 1));
+
+    const batchIds = new Set<number>();
+    for (const result of historicResults) {
+      await this.updateAnalysisResult(result.id, rescaleHistoricResult(result));
+      if (result.batchId !== null) {
+        batchIds.add(result.batchId);
+      }
+    }
+
+    const historicBatches = await db
+      .select()
+      .from(batchAnalysis)
+      .where(gt(batchAnalysis.avgConfidence, 1));
+    historicBatches.forEach(batch => batchIds.add(batch.id));
+
+    for (const batchId of Array.from(batchIds)) {
+      await this.recalculateBatchSummary(batchId);
+    }
+
+    console.log(`Migrated ${historicResults.length} results and ${batchIds.size} batches to the 0-1 sentiment scale`);
+    return { results: historicResults.length, batches: batchIds.size };
+  }
+
+  // Indexes results analyzed before the phrase index existed
+  async rebuildPhraseIndex(): Promise<{ results: number; entries: number }> {
+    const rows = await db
+      .select({ result: analysisResults, userId: batchAnalysis.userId })
+      .from(analysisResults)
+      .innerJoin(batchAnalysis, eq(batchAnalysis.id, analysisResults.batchId))
+      .where(eq(analysisResults.status, 'ok'));
+
+    let entryCount = 0;
+    for (const { result, userId } of rows) {
+      const entries = buildPhraseIndexEntries(userId, result);
+      await this.replacePhraseIndexEntries(result.id, entries);
+      entryCount += entries.length;
     }
+
+    console.log(`Indexed ${entryCount} phrases and aspects from ${rows.length} results`);
+    return { results: rows.length, entries: entryCount };
+  }
+
+  // Tags results analyzed before hashtags and mentions were extracted
+  async rebuildVideoTags(): Promise<{ results: number; tags: number }> {
+    const rows = await db
+      .select({ result: analysisResults, metadata: videoMetadata, userId: batchAnalysis.userId })
+      .from(analysisResults)
+      .innerJoin(batchAnalysis, eq(batchAnalysis.id, analysisResults.batchId))
+      .leftJoin(videoMetadata, eq(videoMetadata.resultId, analysisResults.id))
+      .where(eq(analysisResults.status, 'ok'));
+
+    let tagCount = 0;
+    for (const { result, metadata, userId } of rows) {
+      const tags = buildVideoTagEntries(userId, result, metadata);
+      await this.replaceVideoTags(result.id, tags);
+      tagCount += tags.length;
+    }
+
+    console.log(`Indexed ${tagCount} hashtags and mentions from ${rows.length} results`);
+    return { results: rows.length, tags: tagCount };
+  }
+
+  async recalculateBatchSummary(batchId: number): Promise<BatchAnalysis> {
+    // Failed URLs are stored as rows too but never count towards the summary
+    const results = await this.getAnalysisResultsByBatchId(batchId);
+    const summary = summarizeBatchResults(results);
+    await this.replaceBatchAspectSummaries(batchId, summarizeAspects(batchId, results));
+
+    const batch = await this.updateBatchAnalysis(batchId, {
+      totalWords: summary.totalWords,
+      avgConfidence: summary.avgConfidence,
+      sentimentCounts: JSON.stringify(summary.sentimentCounts),
+      emotionScores: summary.emotionScores ? JSON.stringify(summary.emotionScores) : null
+    });
+    await this.replaceTopics({ scope: 'batch', userId: batch.userId, batchId }, summarizeTopics(results));
+    return batch;
   }
 }
 
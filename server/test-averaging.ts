@@ -1,4 +1,5 @@
 // Test script to verify sentiment score averaging logic
+import { toPercent } from "@shared/sentiment-scale";
 import { SentimentService } from './lib/sentiment-service.js';
 
 const sentimentService = new SentimentService();
@@ -22,13 +23,13 @@ async function testAveraging() {
     results.push(result);
     
     console.log(`Video ${i + 1}: "${testVideos[i]}"`);
-    console.log(`  → ${result.sentiment} (${result.confidence}% confidence)`);
-    console.log(`  → Scores: Positive: ${result.scores?.positive}%, Neutral: ${result.scores?.neutral}%, Negative: ${result.scores?.negative}%`);
+    console.log(`  → ${result.sentiment} (${toPercent(result.confidence)}% confidence)`);
+    console.log(`  → Scores: Positive: ${toPercent(result.scores.positive)}%, Neutral: ${toPercent(result.scores.neutral)}%, Negative: ${toPercent(result.scores.negative)}%`);
     
     // Accumulate scores (mimicking server logic)
-    totalPositive += result.scores?.positive || 0;
-    totalNeutral += result.scores?.neutral || 0;
-    totalNegative += result.scores?.negative || 0;
+    totalPositive += result.scores.positive;
+    totalNeutral += result.scores.neutral;
+    totalNegative += result.scores.negative;
     console.log('');
   }
   
@@ -43,9 +44,9 @@ async function testAveraging() {
   console.log(`Raw totals - Positive: ${totalPositive}, Neutral: ${totalNeutral}, Negative: ${totalNegative}`);
   console.log('');
   console.log('Average Scores (what users see):');
-  console.log(`  Positive: ${avgPositive.toFixed(1)}%`);
-  console.log(`  Neutral: ${avgNeutral.toFixed(1)}%`);
-  console.log(`  Negative: ${avgNegative.toFixed(1)}%`);
+  console.log(`  Positive: ${(avgPositive * 100).toFixed(1)}%`);
+  console.log(`  Neutral: ${(avgNeutral * 100).toFixed(1)}%`);
+  console.log(`  Negative: ${(avgNegative * 100).toFixed(1)}%`);
   console.log('');
   console.log('This demonstrates proper averaging: sum of individual scores ÷ number of videos');
 }
@@ -1,4 +1,5 @@
 import { SentimentService } from './lib/sentiment-service.js';
+import { toPercent } from "@shared/sentiment-scale";
 
 const sentimentService = new SentimentService();
 
@@ -22,8 +23,8 @@ async function testSentimentAnalysis() {
     try {
       console.log(`Testing: "${text}"`);
       const result = await sentimentService.analyzeSentiment(text);
-      console.log(`→ ${result.sentiment} (${result.confidence}% confidence)`);
-      console.log(`→ Positive: ${result.scores?.positive}%, Neutral: ${result.scores?.neutral}%, Negative: ${result.scores?.negative}%`);
+      console.log(`→ ${result.sentiment} (${toPercent(result.confidence)}% confidence)`);
+      console.log(`→ Positive: ${toPercent(result.scores.positive)}%, Neutral: ${toPercent(result.scores.neutral)}%, Negative: ${toPercent(result.scores.negative)}%`);
       console.log('');
     } catch (error) {
       console.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1,7 +1,8 @@
-import { pgTable, text, serial, integer, boolean, real, timestamp, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, real, timestamp, varchar, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { EmotionScores, SentimentScores } from "./sentiment-scale";
 
 // Session storage table (kept for CSRF and other session data)
 export const sessions = pgTable(
@@ -34,32 +35,195 @@ export const users = pgTable("users", {
 export const batchAnalysis = pgTable("batch_analysis", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
-  contentType: text("content_type").notNull(),
+  contentType: text("content_type").notNull(), // Platform chosen for the batch, or 'auto' when detected per URL
   totalVideos: integer("total_videos").notNull(),
   totalWords: integer("total_words").notNull(),
-  avgConfidence: real("avg_confidence").notNull(),
+  avgConfidence: real("avg_confidence").notNull(), // 0–1, averaged over successfully analyzed videos
   processingTime: real("processing_time").notNull(),
-  sentimentCounts: text("sentiment_counts").notNull(), // JSON string
+  sentimentCounts: text("sentiment_counts").notNull(), // JSON SentimentCounts
+  emotionScores: text("emotion_scores"), // JSON EmotionScores averaged over results that have emotions
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed'
+  urls: text("urls"), // JSON array of submitted URLs, consumed by the analysis worker
+  options: text("options"), // JSON of per-request analysis options (forceRefresh, includeTimestamps, ...)
+  processedVideos: integer("processed_videos").notNull().default(0),
+  errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const analysisResults = pgTable("analysis_results", {
   id: serial("id").primaryKey(),
-  url: text("url").notNull(),
-  platform: text("platform").notNull(),
-  sentiment: text("sentiment").notNull(),
-  confidence: real("confidence").notNull(),
+  url: text("url").notNull(), // Canonical video URL, also the transcript cache key
+  submittedUrl: text("submitted_url"), // URL as the user entered it
+  platform: text("platform").notNull(), // Platform detected from the URL's host
+  sentiment: text("sentiment").notNull(), // 'POSITIVE', 'NEUTRAL', 'NEGATIVE' or 'MIXED'
+  confidence: real("confidence").notNull(), // 0–1 probability of the chosen label
   transcript: text("transcript").notNull(),
   wordCount: integer("word_count").notNull(),
-  sentimentScores: text("sentiment_scores"), // JSON string containing {positive, neutral, negative}
-  commonPositivePhrases: text("common_positive_phrases"), // JSON array of positive phrases
-  commonNegativePhrases: text("common_negative_phrases"), // JSON array of negative phrases
+  sentimentScores: text("sentiment_scores"), // JSON {positive, neutral, negative, mixed} probabilities in 0–1 summing to 1
+  emotions: text("emotions"), // JSON EmotionScores, null when the provider produced none
+  commonPositivePhrases: text("common_positive_phrases"), // JSON array of the top-ranked positive keyphrases
+  commonNegativePhrases: text("common_negative_phrases"), // JSON array of the top-ranked negative keyphrases
+  keyphrases: text("keyphrases"), // JSON array of Keyphrase, best ranked first
+  status: text("status").notNull().default("ok"), // 'ok', 'no_transcript', 'provider_error', 'invalid_url'
+  errorCode: text("error_code"), // Machine-readable failure reason, null for 'ok' rows
+  errorMessage: text("error_message"),
+  transcriptProvider: text("transcript_provider"), // Transcript provider that served (or failed) this URL
+  transcriptCacheHit: boolean("transcript_cache_hit").notNull().default(false),
+  transcriptSegments: text("transcript_segments"), // JSON array of TranscriptSegment, stored when includeTimestamps was requested
+  sentimentTimeline: text("sentiment_timeline"), // JSON array of SentimentTimelinePoint, in transcript order
+  audienceSentiment: text("audience_sentiment"), // JSON AudienceSentiment, stored when analyzeComments was requested
+  aspectSentiments: text("aspect_sentiments"), // JSON array of AspectSentiment, stored when analyzeAspects was requested
+  brandMentions: text("brand_mentions"), // JSON array of BrandMention, one per watchlist term the user had when the video was analyzed
+  sentimentProvider: text("sentiment_provider"), // Sentiment backend that produced the score: 'openai', 'aws-comprehend' or 'local'
+  sentimentModel: text("sentiment_model"),
+  sentimentProviderVersion: text("sentiment_provider_version"), // Changes whenever the prompt, lexicon or score mapping changes
+  source: text("source"), // Text that was analyzed: 'transcript', 'caption' or 'combined'; null for failed rows
+  language: varchar("language"), // Language the text was analyzed in, e.g. 'en'; null for failed rows
   batchId: integer("batch_id").references(() => batchAnalysis.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_analysis_results_url").on(table.url)]);
+
+// Transcript cache shared across users and batches, keyed by canonical video URL
+export const transcripts = pgTable("transcripts", {
+  id: serial("id").primaryKey(),
+  canonicalUrl: text("canonical_url").notNull().unique(),
+  platform: text("platform").notNull(),
+  provider: text("provider").notNull(),
+  language: varchar("language"),
+  text: text("text").notNull(),
+  segments: text("segments"), // JSON array of timed segments when the provider supplies them
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
 });
 
+// Creator and engagement details captured for an analyzed video, one row per result.
+// The latest row for a canonical URL doubles as the metadata cache.
+export const videoMetadata = pgTable("video_metadata", {
+  id: serial("id").primaryKey(),
+  resultId: integer("result_id").notNull().unique().references(() => analysisResults.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(),
+  creatorHandle: text("creator_handle"),
+  followerCount: bigint("follower_count", { mode: "number" }), // Counts can pass the 32-bit integer range
+  caption: text("caption"),
+  hashtags: text("hashtags"), // JSON array of hashtags without the leading '#'
+  viewCount: bigint("view_count", { mode: "number" }),
+  likeCount: bigint("like_count", { mode: "number" }),
+  commentCount: bigint("comment_count", { mode: "number" }),
+  shareCount: bigint("share_count", { mode: "number" }),
+  durationSeconds: real("duration_seconds"),
+  publishedAt: timestamp("published_at"),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+});
+
+// Aspect sentiments rolled up across a batch; rebuilt whenever the batch summary is recalculated
+export const batchAspectSummaries = pgTable("batch_aspect_summaries", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => batchAnalysis.id, { onDelete: "cascade" }),
+  aspect: text("aspect").notNull(), // Lowercased aspect term or brand name
+  videoCount: integer("video_count").notNull(), // Videos that mention the aspect
+  mentionCount: integer("mention_count").notNull(), // Sentences that mention it, across those videos
+  avgPolarity: real("avg_polarity").notNull(), // -1 (negative) to 1 (positive), averaged over the videos
+  sentimentCounts: text("sentiment_counts").notNull(), // JSON SentimentCounts of the per-video aspect sentiments
+}, (table) => [uniqueIndex("UQ_batch_aspect").on(table.batchId, table.aspect)]);
+
+// Brands and keywords a user wants tracked in every video they analyze
+export const watchlistTerms = pgTable("watchlist_terms", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  brand: text("brand").notNull(), // Display name, also matched in transcripts
+  aliases: text("aliases").notNull().default("[]"), // JSON array of other spellings matched as the same brand
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_watchlist_user_brand").on(table.userId, table.brand)]);
+
+// Keyphrases and aspects of every analyzed video, one row per term, for trends across a user's history
+export const phraseIndex = pgTable("phrase_index", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  resultId: integer("result_id").notNull().references(() => analysisResults.id, { onDelete: "cascade" }),
+  batchId: integer("batch_id").notNull().references(() => batchAnalysis.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // 'phrase' for ranked keyphrases, 'aspect' for aspect sentiments
+  term: text("term").notNull(), // Lowercased phrase or aspect
+  platform: text("platform").notNull(),
+  sentiment: text("sentiment").notNull(), // Sentiment the term was said with
+  polarity: real("polarity").notNull(), // -1 (negative) to 1 (positive)
+  analyzedAt: timestamp("analyzed_at").notNull(), // When the video was analyzed, copied from the result
+}, (table) => [
+  index("IDX_phrase_index_user_time").on(table.userId, table.analyzedAt),
+  index("IDX_phrase_index_result").on(table.resultId),
+]);
+
+// Hashtags and @mentions used by every analyzed video, one row per tag, for leaderboards per batch and per account
+export const videoTags = pgTable("video_tags", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  resultId: integer("result_id").notNull().references(() => analysisResults.id, { onDelete: "cascade" }),
+  batchId: integer("batch_id").notNull().references(() => batchAnalysis.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // 'hashtag' or 'mention'
+  tag: text("tag").notNull(), // Lowercased, without the leading '#' or '@'
+  sentiment: text("sentiment").notNull(), // Overall sentiment of the video
+  polarity: real("polarity").notNull(), // -1 (negative) to 1 (positive), of the video
+}, (table) => [
+  uniqueIndex("UQ_video_tag").on(table.resultId, table.kind, table.tag),
+  index("IDX_video_tags_user").on(table.userId),
+  index("IDX_video_tags_batch").on(table.batchId),
+]);
+
+// Themes found by clustering transcripts, either within one batch or over a user's whole history
+export const topics = pgTable("topics", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  batchId: integer("batch_id").references(() => batchAnalysis.id, { onDelete: "cascade" }), // Null for history topics
+  scope: text("scope").notNull(), // 'batch' or 'history'
+  terms: text("terms").notNull(), // JSON array of the topic's most characteristic terms, strongest first
+  videoCount: integer("video_count").notNull(),
+  sentimentCounts: text("sentiment_counts").notNull(), // JSON SentimentCounts of the member videos
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_topics_batch").on(table.batchId), index("IDX_topics_user_scope").on(table.userId, table.scope)]);
+
+// The videos assigned to each topic
+export const topicMembers = pgTable("topic_members", {
+  id: serial("id").primaryKey(),
+  topicId: integer("topic_id").notNull().references(() => topics.id, { onDelete: "cascade" }),
+  resultId: integer("result_id").notNull().references(() => analysisResults.id, { onDelete: "cascade" }),
+  similarity: real("similarity").notNull(), // Cosine similarity of the transcript to the topic, 0–1
+}, (table) => [uniqueIndex("UQ_topic_member").on(table.topicId, table.resultId)]);
+
 export const batchAnalysisRelations = relations(batchAnalysis, ({ many }) => ({
   analysisResults: many(analysisResults),
+  aspectSummaries: many(batchAspectSummaries),
+  topics: many(topics),
+}));
+
+export const topicsRelations = relations(topics, ({ one, many }) => ({
+  batch: one(batchAnalysis, {
+    fields: [topics.batchId],
+    references: [batchAnalysis.id],
+  }),
+  members: many(topicMembers),
+}));
+
+export const topicMembersRelations = relations(topicMembers, ({ one }) => ({
+  topic: one(topics, {
+    fields: [topicMembers.topicId],
+    references: [topics.id],
+  }),
+  result: one(analysisResults, {
+    fields: [topicMembers.resultId],
+    references: [analysisResults.id],
+  }),
+}));
+
+export const batchAspectSummariesRelations = relations(batchAspectSummaries, ({ one }) => ({
+  batch: one(batchAnalysis, {
+    fields: [batchAspectSummaries.batchId],
+    references: [batchAnalysis.id],
+  }),
+}));
+
+export const watchlistTermsRelations = relations(watchlistTerms, ({ one }) => ({
+  user: one(users, {
+    fields: [watchlistTerms.userId],
+    references: [users.id],
+  }),
 }));
 
 export const analysisResultsRelations = relations(analysisResults, ({ one }) => ({
@@ -67,6 +231,14 @@ export const analysisResultsRelations = relations(analysisResults, ({ one }) =>
     fields: [analysisResults.batchId],
     references: [batchAnalysis.id],
   }),
+  metadata: one(videoMetadata),
+}));
+
+export const videoMetadataRelations = relations(videoMetadata, ({ one }) => ({
+  result: one(analysisResults, {
+    fields: [videoMetadata.resultId],
+    references: [analysisResults.id],
+  }),
 }));
 
 export type UpsertUser = typeof users.$inferInsert;
@@ -86,50 +258,344 @@ export type AnalysisResult = typeof analysisResults.$inferSelect;
 export type InsertAnalysisResult = z.infer<typeof insertAnalysisResultSchema>;
 export type BatchAnalysis = typeof batchAnalysis.$inferSelect;
 export type InsertBatchAnalysis = z.infer<typeof insertBatchAnalysisSchema>;
+export type Transcript = typeof transcripts.$inferSelect;
+export type UpsertTranscript = typeof transcripts.$inferInsert;
+export type VideoMetadata = typeof videoMetadata.$inferSelect;
+export type UpsertVideoMetadata = typeof videoMetadata.$inferInsert;
+export type BatchAspectSummary = typeof batchAspectSummaries.$inferSelect;
+export type InsertBatchAspectSummary = typeof batchAspectSummaries.$inferInsert;
+export type Topic = typeof topics.$inferSelect;
+export type InsertTopic = typeof topics.$inferInsert;
+export type TopicMember = typeof topicMembers.$inferSelect;
+export type PhraseIndexEntry = typeof phraseIndex.$inferSelect;
+export type InsertPhraseIndexEntry = typeof phraseIndex.$inferInsert;
+export type VideoTag = typeof videoTags.$inferSelect;
+export type InsertVideoTag = typeof videoTags.$inferInsert;
+export type WatchlistTerm = typeof watchlistTerms.$inferSelect;
+export type InsertWatchlistTerm = typeof watchlistTerms.$inferInsert;
+
+// A topic with the videos assigned to it, most representative first
+export type TopicWithMembers = Topic & {
+  members: Array<Pick<TopicMember, 'resultId' | 'similarity'> & Pick<AnalysisResult, 'batchId' | 'url' | 'sentiment'>>;
+};
+
+// A stored result together with the video metadata captured for it
+export type AnalysisResultWithMetadata = AnalysisResult & { metadata: VideoMetadata | null };
+
+export const SENTIMENT_PROVIDERS = ['openai', 'aws-comprehend', 'local'] as const;
+
+export type SentimentProviderName = typeof SENTIMENT_PROVIDERS[number];
+
+// MIXED: clearly positive and clearly negative sentiment in the same text
+export const SENTIMENT_LABELS = ['POSITIVE', 'NEUTRAL', 'NEGATIVE', 'MIXED'] as const;
+
+export type SentimentLabel = typeof SENTIMENT_LABELS[number];
+
+export type SentimentCounts = Record<SentimentLabel, number>;
+
+// Plutchik's eight basic emotions
+export const EMOTIONS = ['joy', 'anger', 'sadness', 'fear', 'surprise', 'disgust', 'trust', 'anticipation'] as const;
+
+export type Emotion = typeof EMOTIONS[number];
+
+export const PLATFORMS = ['tiktok', 'reels', 'shorts'] as const;
+
+export type Platform = typeof PLATFORMS[number];
+
+// Languages the local detector recognises and the local lexicon can score
+export const LANGUAGES = ['en', 'es', 'pt', 'fr', 'de'] as const;
+
+export type Language = typeof LANGUAGES[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+};
+
+// Used when neither the detector nor the request settle the language
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Upper bound on aspects scored per video, so every aspect costs at most one provider call
+export const MAX_ASPECTS = 10;
+
+// Upper bound on keyphrases ranked per video; each one costs a provider call
+export const MAX_KEYPHRASES = 20;
+
+// Upper bound on watchlist terms per account, and on aliases per term
+export const MAX_WATCHLIST_TERMS = 20;
+export const MAX_WATCHLIST_ALIASES = 10;
 
 // API request/response types
 export const analyzeVideosSchema = z.object({
   urls: z.array(z.string().url()).min(1).max(5),
-  contentType: z.enum(['tiktok', 'reels', 'shorts']),
-  includeTimestamps: z.boolean().optional().default(false),
+  // 'auto' detects the platform per URL, allowing batches that mix platforms
+  contentType: z.enum(['auto', ...PLATFORMS]).optional().default('auto'),
+  includeTimestamps: z.boolean().optional().default(false), // Return timed transcript segments with each result
+  forceRefresh: z.boolean().optional().default(false), // Bypass the transcript cache
+  analyzeComments: z.boolean().optional().default(false), // Also score the top comments of each video
+  commentLimit: z.number().int().min(1).max(100).optional().default(20),
+  analyzeAspects: z.boolean().optional().default(false), // Score sentiment per product/brand aspect
+  aspects: z.array(z.string().trim().min(1).max(50)).max(MAX_ASPECTS).optional(), // Aspects to look for; detected automatically when unset
+  sentimentProvider: z.enum(SENTIMENT_PROVIDERS).optional(), // Unset uses the default fallback chain
+  keyphraseCount: z.number().int().min(1).max(MAX_KEYPHRASES).optional().default(10), // Top-N keyphrases kept per video
+  language: z.enum(LANGUAGES).optional(), // Preferred transcript language; also used when detection is inconclusive
+});
+
+export const watchlistTermSchema = z.object({
+  brand: z.string().trim().min(1).max(50),
+  aliases: z.array(z.string().trim().min(1).max(50)).max(MAX_WATCHLIST_ALIASES).optional().default([]),
 });
 
+export type WatchlistTermRequest = z.infer<typeof watchlistTermSchema>;
+
+// One timed piece of a transcript; times are seconds from the start of the video
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Sentiment of one stretch of a transcript. start/end are null when the
+// transcript had no timing and was split into sentences instead.
+export interface SentimentTimelinePoint {
+  start: number | null;
+  end: number | null;
+  text: string;
+  sentiment: string;
+  polarity: number; // positive minus negative score, from -1 to 1
+  provider?: SentimentProviderName; // Backend that scored the point; missing on results analyzed before it was recorded
+}
+
+// Sentiment towards one aspect (price, shipping, a brand, ...) within a video
+export interface AspectSentiment {
+  aspect: string;
+  mentions: number; // Sentences that mention the aspect
+  sentiment: SentimentLabel;
+  scores: SentimentScores;
+  polarity: number; // -1 (negative) to 1 (positive)
+  snippets: string[]; // Example sentences mentioning the aspect
+}
+
+// A phrase the video is about, ranked by RAKE/TF-IDF and scored in context
+export interface Keyphrase {
+  phrase: string;
+  score: number; // Relevance in 0–1, relative to the video's top phrase
+  occurrences: number;
+  sentiment: SentimentLabel;
+  polarity: number; // -1 (negative) to 1 (positive), of the sentences around the phrase
+  provider?: SentimentProviderName; // Backend that scored the phrase; missing on results analyzed before it was recorded
+}
+
+export const TOPIC_SCOPES = ['batch', 'history'] as const;
+
+export type TopicScope = typeof TOPIC_SCOPES[number];
+
+export const PHRASE_INDEX_KINDS = ['phrase', 'aspect'] as const;
+
+export type PhraseIndexKind = typeof PHRASE_INDEX_KINDS[number];
+
+export const VIDEO_TAG_KINDS = ['hashtag', 'mention'] as const;
+
+export type VideoTagKind = typeof VIDEO_TAG_KINDS[number];
+
+// How the videos using one hashtag or mention were received
+export interface TagStat {
+  tag: string;
+  kind: VideoTagKind;
+  videoCount: number; // Videos that use the tag
+  avgPolarity: number; // -1 (negative) to 1 (positive), averaged over those videos
+  sentimentCounts: SentimentCounts;
+  avgViews: number | null; // Null when none of the videos have view counts
+  avgEngagementRate: number | null; // (likes + comments + shares) / views, averaged over videos with views
+}
+
+// Most used hashtags and mentions, most widespread first
+export interface TagLeaderboard {
+  hashtags: TagStat[];
+  mentions: TagStat[];
+}
+
+// One place a watchlist brand was said, with the sentiment of the sentence around it
+export interface BrandMentionSnippet {
+  text: string;
+  sentiment: SentimentLabel;
+  polarity: number; // -1 (negative) to 1 (positive)
+}
+
+// How a video talked about one watchlist brand. Videos that never say the
+// brand (or any alias) are flagged with mentioned: false and no sentiment.
+export interface BrandMention {
+  brand: string;
+  mentioned: boolean;
+  mentionCount: number; // Times the brand or an alias was said
+  sentiment: SentimentLabel | null; // Across the scored mentions
+  polarity: number | null; // Mean polarity of the scored mentions
+  snippets: BrandMentionSnippet[]; // Scored mentions, in transcript order
+}
+
+// Sentiment of a video's comment section, as opposed to what the creator said
+export interface AudienceSentiment {
+  commentCount: number; // Comments scored
+  sentimentCounts: SentimentCounts;
+  scores: SentimentScores; // Mean probabilities across the scored comments
+  positiveComments: string[]; // Most clearly positive comments
+  negativeComments: string[]; // Most clearly negative comments
+}
+
 export type AnalyzeVideosRequest = z.infer<typeof analyzeVideosSchema>;
 
+export type ContentType = AnalyzeVideosRequest['contentType'];
+
+// Request options the analysis worker needs, stored on the batch as JSON
+export type AnalysisOptions = Omit<AnalyzeVideosRequest, 'urls' | 'contentType'>;
+
+export const BATCH_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+
+export type BatchStatus = typeof BATCH_STATUSES[number];
+
+export const RESULT_STATUSES = ['ok', 'no_transcript', 'provider_error', 'invalid_url'] as const;
+
+export type ResultStatus = typeof RESULT_STATUSES[number];
+
+export const ANALYSIS_SOURCES = ['transcript', 'caption', 'combined'] as const;
+
+export type AnalysisSource = typeof ANALYSIS_SOURCES[number];
+
 export interface AnalyzeVideosResponse {
   batchId: number;
-  results: AnalysisResult[];
+  results: AnalysisResultWithMetadata[];
   summary: {
     totalVideos: number;
+    failedVideos: number;
+    cacheHits: number; // Transcripts served from the cache instead of the provider
     totalWords: number;
     avgConfidence: number;
     processingTime: number;
-    sentimentCounts: {
-      POSITIVE: number;
-      NEUTRAL: number;
-      NEGATIVE: number;
-    };
-    sentimentScores: {
-      positive: number;
-      neutral: number;
-      negative: number;
-    };
+    sentimentCounts: SentimentCounts;
+    sentimentScores: SentimentScores; // Mean probabilities across successfully analyzed videos
+    emotionScores: EmotionScores | null; // Mean intensities across videos with emotions, null when none have any
+  };
+}
+
+// Returned by POST /api/analyze once the batch has been queued
+export interface AnalysisJobResponse {
+  batchId: number;
+  status: BatchStatus;
+}
+
+// Returned by GET /api/batch/:id while a batch is processing and after it finishes
+export interface BatchStatusResponse extends AnalyzeVideosResponse {
+  batch: BatchAnalysis;
+  aspectSummaries: BatchAspectSummary[]; // Rolled up once the batch has finished
+  topics: TopicWithMembers[]; // Clustered once the batch has finished
+  tagLeaderboard: TagLeaderboard; // Grows as videos are processed
+  progress: {
+    processedVideos: number;
+    totalVideos: number;
   };
 }
 
+// Query of GET /api/history; both filters are optional
+export const historyQuerySchema = z.object({
+  brand: z.string().trim().optional().transform(brand => brand || undefined),
+  language: z.enum(LANGUAGES).optional(),
+});
+
+export type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+// Query of GET /api/insights/phrases; the range defaults to the last 90 days
+export const phraseInsightsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  platform: z.enum(PLATFORMS).optional(),
+});
+
+export type PhraseInsightsQuery = z.infer<typeof phraseInsightsQuerySchema>;
+
+// How often a term came up in one day or week, and how it was said
+export interface PhraseTrendPoint {
+  bucket: string; // ISO date the day or week starts on
+  videoCount: number;
+  avgPolarity: number | null; // Null when no video mentioned the term in this bucket
+}
+
+// A video a term came from
+export interface PhraseTrendVideo {
+  resultId: number;
+  batchId: number;
+  url: string;
+  platform: string;
+  sentiment: SentimentLabel;
+  analyzedAt: string;
+}
+
+// A recurring phrase or aspect across a user's history
+export interface PhraseTrend {
+  term: string;
+  kind: PhraseIndexKind;
+  videoCount: number; // Videos that mention the term
+  avgPolarity: number; // -1 (negative) to 1 (positive)
+  sentimentCounts: SentimentCounts;
+  points: PhraseTrendPoint[]; // One per bucket of the range, oldest first
+  videos: PhraseTrendVideo[]; // Most recent first
+}
+
+// Returned by GET /api/insights/phrases
+export interface PhraseInsightsResponse {
+  from: string;
+  to: string;
+  bucket: 'day' | 'week';
+  totalVideos: number; // Videos in the range with at least one indexed term
+  trends: PhraseTrend[]; // Most widespread first
+}
+
+// Returned by POST /api/insights/topics and GET /api/insights/topics/status
+export interface TopicClusteringStatus {
+  clustering: boolean; // The user's history is queued or being clustered
+}
+
+// Per-URL pipeline stages streamed from GET /api/batch/:id/events
+// 'duplicate' marks a URL skipped because an earlier URL in the batch is the same video
+export type BatchUrlStage = 'transcript_fetched' | 'sentiment_scored' | 'phrases_extracted' | 'failed' | 'duplicate';
+
+export type BatchProgressEvent =
+  | {
+      type: 'url';
+      batchId: number;
+      url: string;
+      index: number;
+      stage: BatchUrlStage;
+      reason?: string;
+      result?: AnalysisResultWithMetadata;
+    }
+  | {
+      type: 'status';
+      batchId: number;
+      status: BatchStatus;
+      processedVideos: number;
+      totalVideos: number;
+      errorMessage?: string | null;
+    };
+
 // Plan limits configuration
 export const PLAN_LIMITS = {
   starter: {
     maxBatchSize: 5,
-    monthlyVideoLimit: 20
+    monthlyVideoLimit: 20,
+    sentimentProviders: ['openai', 'local']
   },
   business: {
     maxBatchSize: 10,
-    monthlyVideoLimit: 50
+    monthlyVideoLimit: 50,
+    sentimentProviders: ['openai', 'aws-comprehend', 'local']
   },
   enterprise: {
     maxBatchSize: 20,
-    monthlyVideoLimit: 100
+    monthlyVideoLimit: 100,
+    sentimentProviders: ['openai', 'aws-comprehend', 'local']
   }
 } as const;
 
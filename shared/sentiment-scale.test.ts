@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { confidenceFor, normalizeScores, rescaleHistoricResult, sentimentScoresSchema } from "./sentiment-scale";
+
+describe("normalizeScores", () => {
+  it("turns percentages into probabilities that sum to 1", () => {
+    const scores = normalizeScores({ positive: 70, neutral: 20, negative: 10 });
+    assert.deepEqual(scores, { positive: 0.7, neutral: 0.2, negative: 0.1, mixed: 0 });
+    assert.ok(sentimentScoresSchema.safeParse(scores).success);
+  });
+
+  it("lets neutral absorb rounding", () => {
+    const scores = normalizeScores({ positive: 1, neutral: 1, negative: 1, mixed: 0 });
+    assert.equal(scores.positive + scores.neutral + scores.negative + scores.mixed, 1);
+  });
+
+  it("spreads all-zero weights evenly over the basic labels", () => {
+    assert.deepEqual(normalizeScores({ positive: 0, neutral: 0, negative: 0 }), { positive: 0.333, neutral: 0.333, negative: 0.333, mixed: 0 });
+  });
+
+  it("ignores negative weights", () => {
+    assert.deepEqual(normalizeScores({ positive: -5, neutral: 1, negative: 1 }), { positive: 0, neutral: 0.5, negative: 0.5, mixed: 0 });
+  });
+});
+
+describe("confidenceFor", () => {
+  const scores = { positive: 0.6, neutral: 0.1, negative: 0.2, mixed: 0.1 };
+
+  it("is the probability of the chosen label", () => {
+    assert.equal(confidenceFor('NEGATIVE', scores), 0.2);
+  });
+
+  it("falls back to the largest probability for unknown labels", () => {
+    assert.equal(confidenceFor('UNKNOWN', scores), 0.6);
+  });
+});
+
+describe("rescaleHistoricResult", () => {
+  it("rescales percentage scores and derives confidence from the label", () => {
+    const rescaled = rescaleHistoricResult({
+      sentiment: 'POSITIVE',
+      confidence: 85,
+      sentimentScores: JSON.stringify({ positive: 60, neutral: 30, negative: 10 }),
+      audienceSentiment: null
+    });
+    assert.deepEqual(JSON.parse(rescaled.sentimentScores!), { positive: 0.6, neutral: 0.3, negative: 0.1, mixed: 0 });
+    assert.equal(rescaled.confidence, 0.6);
+    assert.equal(rescaled.audienceSentiment, null);
+  });
+
+  it("divides the old confidence down when the scores cannot be read", () => {
+    const rescaled = rescaleHistoricResult({ sentiment: 'NEUTRAL', confidence: 72, sentimentScores: 'not json', audienceSentiment: null });
+    assert.equal(rescaled.sentimentScores, null);
+    assert.equal(rescaled.confidence, 0.72);
+  });
+
+  it("never produces a confidence above 1", () => {
+    const rescaled = rescaleHistoricResult({ sentiment: 'NEUTRAL', confidence: 250, sentimentScores: null, audienceSentiment: null });
+    assert.equal(rescaled.confidence, 1);
+  });
+
+  it("rescales the audience scores and keeps the rest of the audience summary", () => {
+    const audience = { commentCount: 4, scores: { positive: 50, neutral: 25, negative: 25 }, positiveComments: ['love it'] };
+    const rescaled = rescaleHistoricResult({
+      sentiment: 'POSITIVE',
+      confidence: 90,
+      sentimentScores: JSON.stringify({ positive: 90, neutral: 5, negative: 5 }),
+      audienceSentiment: JSON.stringify(audience)
+    });
+    assert.deepEqual(JSON.parse(rescaled.audienceSentiment!), {
+      ...audience,
+      scores: { positive: 0.5, neutral: 0.25, negative: 0.25, mixed: 0 }
+    });
+  });
+
+  it("leaves unreadable audience summaries untouched", () => {
+    const rescaled = rescaleHistoricResult({ sentiment: 'POSITIVE', confidence: 90, sentimentScores: null, audienceSentiment: '{broken' });
+    assert.equal(rescaled.audienceSentiment, '{broken');
+  });
+});
@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { EMOTIONS, SENTIMENT_LABELS, type Emotion } from "./schema";
+
+// Tolerance for rounding when checking that the probabilities sum to 1
+const SUM_TOLERANCE = 0.01;
+
+const probability = z.number().min(0).max(1);
+
+/**
+ * Sentiment probabilities as every backend reports them: each in 0–1, summing to 1.
+ * Rows scored before MIXED existed have no mixed share, which reads as 0.
+ */
+export const sentimentScoresSchema = z.object({
+  positive: probability,
+  neutral: probability,
+  negative: probability,
+  mixed: probability.default(0),
+}).refine(
+  scores => Math.abs(scores.positive + scores.neutral + scores.negative + scores.mixed - 1) <= SUM_TOLERANCE,
+  { message: "Sentiment scores must sum to 1" }
+);
+
+/**
+ * Intensity of each emotion in 0–1. Emotions are independent of each other
+ * (a text can be both joyful and surprised), so these do not sum to 1.
+ */
+export const emotionScoresSchema = z.object({
+  joy: probability,
+  anger: probability,
+  sadness: probability,
+  fear: probability,
+  surprise: probability,
+  disgust: probability,
+  trust: probability,
+  anticipation: probability,
+});
+
+/**
+ * Confidence is the probability of the chosen label, so it is in 0–1 too
+ */
+export const sentimentResultSchema = z.object({
+  sentiment: z.enum(SENTIMENT_LABELS),
+  confidence: probability,
+  scores: sentimentScoresSchema,
+  emotions: emotionScoresSchema.optional(),
+});
+
+export type SentimentScores = z.infer<typeof sentimentScoresSchema>;
+
+export type EmotionScores = z.infer<typeof emotionScoresSchema>;
+
+// Scores before normalization; mixed may be left out
+export type SentimentWeights = z.input<typeof sentimentScoresSchema>;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Rescales non-negative weights on any scale (counts, percentages, raw model
+ * output) into probabilities that sum to 1. All-zero weights become uniform.
+ */
+export function normalizeScores(weights: SentimentWeights): SentimentScores {
+  const positive = Math.max(0, weights.positive);
+  const neutral = Math.max(0, weights.neutral);
+  const negative = Math.max(0, weights.negative);
+  const mixed = Math.max(0, weights.mixed ?? 0);
+  const total = positive + neutral + negative + mixed;
+  if (total === 0) {
+    // No signal at all: spread evenly over the three basic labels
+    return { positive: round(1 / 3), neutral: round(1 / 3), negative: round(1 / 3), mixed: 0 };
+  }
+
+  const normalized = {
+    positive: round(positive / total),
+    negative: round(negative / total),
+    mixed: round(mixed / total),
+    neutral: 0
+  };
+  // Neutral absorbs the rounding so the four still sum to exactly 1
+  normalized.neutral = Math.max(0, round(1 - normalized.positive - normalized.negative - normalized.mixed));
+  return normalized;
+}
+
+/**
+ * The calibrated confidence for a label: its probability, or the largest
+ * probability when the label has no score of its own
+ */
+export function confidenceFor(sentiment: string, scores: SentimentScores): number {
+  const key = sentiment.toLowerCase();
+  return key in scores
+    ? scores[key as keyof SentimentScores]
+    : Math.max(scores.positive, scores.neutral, scores.negative, scores.mixed);
+}
+
+// Scores stored before the 0–1 scale, as percentages or raw weights; null when unreadable
+function parseHistoricScores(sentimentScores: string | null): SentimentScores | null {
+  try {
+    const scores = JSON.parse(sentimentScores || 'null');
+    if (!scores || typeof scores !== 'object') {
+      return null;
+    }
+    return normalizeScores({
+      positive: Number(scores.positive) || 0,
+      neutral: Number(scores.neutral) || 0,
+      negative: Number(scores.negative) || 0,
+      mixed: Number(scores.mixed) || 0
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The fields of a result row scored before the 0–1 scale, rescaled onto it.
+ * Confidence becomes the probability of the chosen label; without readable
+ * scores the old 0–100 confidence is divided down instead.
+ */
+export function rescaleHistoricResult(result: {
+  sentiment: string;
+  confidence: number;
+  sentimentScores: string | null;
+  audienceSentiment: string | null;
+}): { sentimentScores: string | null; confidence: number; audienceSentiment: string | null } {
+  const scores = parseHistoricScores(result.sentimentScores);
+  return {
+    sentimentScores: scores ? JSON.stringify(scores) : null,
+    confidence: scores ? confidenceFor(result.sentiment, scores) : Math.min(1, result.confidence / 100),
+    audienceSentiment: rescaleAudienceSentiment(result.audienceSentiment)
+  };
+}
+
+function rescaleAudienceSentiment(audienceSentiment: string | null): string | null {
+  if (!audienceSentiment) {
+    return audienceSentiment;
+  }
+  try {
+    const audience = JSON.parse(audienceSentiment);
+    const scores = parseHistoricScores(JSON.stringify(audience.scores));
+    return scores ? JSON.stringify({ ...audience, scores }) : audienceSentiment;
+  } catch {
+    return audienceSentiment;
+  }
+}
+
+/**
+ * Clamps raw emotion intensities into 0–1; emotions that are missing or not numbers score 0
+ */
+export function normalizeEmotions(raw: Partial<Record<Emotion, unknown>>): EmotionScores {
+  const scores = {} as EmotionScores;
+  for (const emotion of EMOTIONS) {
+    const value = Number(raw[emotion]);
+    scores[emotion] = Number.isFinite(value) ? round(Math.min(1, Math.max(0, value))) : 0;
+  }
+  return scores;
+}
+
+/**
+ * The most intense emotion, or null when no emotion registers at all
+ */
+export function dominantEmotion(scores: EmotionScores): Emotion | null {
+  const [emotion, intensity] = EMOTIONS
+    .map(emotion => [emotion, scores[emotion]] as const)
+    .reduce((a, b) => (b[1] > a[1] ? b : a));
+  return intensity > 0 ? emotion : null;
+}
+
+/**
+ * Formats a 0–1 probability as a whole percentage for display
+ */
+export function toPercent(probability: number): number {
+  return Math.round(probability * 100);
+}